@@ -1,17 +1,26 @@
-import React, { useState } from 'react';
+import React, { useState, useRef, useEffect, useCallback } from 'react';
 import ProductInput from './components/ProductInput';
 import ProductOutput from './components/ProductOutput';
-import { generateProductContent, generateProductImages, generateProductMockups, generateImageFromText } from './services/geminiService';
-import { ProductContent, GeneratedProductImage } from './types';
+import { runProductPipeline, PipelineInput } from './services/productPipeline';
+import { getFriendlyErrorMessage } from './services/errorMessages';
+import { isAbortError } from './services/abort';
+import { isMockModeEnabled } from './services/providers';
+import { createLibraryEntryId, createThumbnail, getLibraryEntry, saveLibraryEntry } from './services/libraryService';
+import { ProductContent, ProductVariation, GeneratedProductImage, LibraryEntry, LibraryEntryImages } from './types';
+import { useListingStore } from './hooks/useListingStore';
+import { useBatchQueue } from './hooks/useBatchQueue';
 import SparklesIcon from './components/icons/SparklesIcon';
 import AdminPanel from './components/AdminPanel';
+import ProductLibrary from './components/ProductLibrary';
 import LockIcon from './components/icons/LockIcon';
+import GridIcon from './components/icons/GridIcon';
 
 // This type is used to track the UI state through the generation process.
-export type GenerationStep = 'idle' | 'base_image' | 'content' | 'images' | 'error' | 'done';
-type View = 'app' | 'admin';
+// 'cancelled' keeps whatever partial results arrived before the user stopped the run.
+export type GenerationStep = 'idle' | 'base_image' | 'content' | 'images' | 'error' | 'done' | 'cancelled';
+type View = 'app' | 'admin' | 'library';
 
-const Header: React.FC = () => (
+const Header: React.FC<{ onOpenLibrary: () => void }> = ({ onOpenLibrary }) => (
     <header className="sticky top-0 z-10 bg-gray-900/50 backdrop-blur-md">
         <div className="container mx-auto px-4 sm:px-6 lg:px-8">
             <div className="flex items-center justify-between h-16 border-b border-gray-800">
@@ -20,113 +29,215 @@ const Header: React.FC = () => (
                     <span className="text-xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-purple-400 to-indigo-500">
                         MEGA ANÚNCIO
                     </span>
+                    {isMockModeEnabled() && (
+                        <span className="ml-2 px-2 py-0.5 text-xs font-semibold text-yellow-200 bg-yellow-900/60 border border-yellow-700 rounded-full">
+                            Demonstração
+                        </span>
+                    )}
                 </div>
+                <button onClick={onOpenLibrary} className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-gray-300 rounded-md hover:bg-gray-800 hover:text-white transition">
+                    <GridIcon className="h-5 w-5" />
+                    <span className="hidden sm:inline">Biblioteca</span>
+                </button>
             </div>
         </div>
     </header>
 );
 
-const dataUrlToFile = async (dataUrl: string, fileName: string): Promise<File> => {
-    const res = await fetch(dataUrl);
-    const blob = await res.blob();
-    return new File([blob], fileName, { type: blob.type });
-};
-
 const App: React.FC = () => {
   const [generationStep, setGenerationStep] = useState<GenerationStep>('idle');
-  const [productContent, setProductContent] = useState<ProductContent | null>(null);
+  const listing = useListingStore();
+  const batch = useBatchQueue();
   const [generatedImage, setGeneratedImage] = useState<GeneratedProductImage>(null);
   const [generatedMockups, setGeneratedMockups] = useState<string[]>([]);
+  const [variationImages, setVariationImages] = useState<Record<string, string>>({});
+  const [partialContent, setPartialContent] = useState<Partial<ProductContent> | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [originalImagePreview, setOriginalImagePreview] = useState<string | null>(null);
   const [view, setView] = useState<View>('app');
+  const libraryQueue = useRef<Promise<unknown>>(Promise.resolve());
+  const generationController = useRef<AbortController | null>(null);
+  // The library entry the listing being edited belongs to, and the content last written to it.
+  const currentEntryId = useRef<string | null>(null);
+  const savedContent = useRef<ProductContent | null>(null);
+  // Read by the variation photos as they arrive one by one, after the render that asked for them.
+  const latestListing = useRef(listing);
+  latestListing.current = listing;
+  const latestVariationImages = useRef(variationImages);
+  latestVariationImages.current = variationImages;
 
-  const handleGenerate = async (image: File | null, title: string, imagePrompt?: string) => {
-    // Reset state for a new generation
-    setProductContent(null);
-    setGeneratedImage(null);
-    setGeneratedMockups([]);
-    setError(null);
+  // Library writes are chained so progressive saves of the same entry land in order.
+  // A storage failure must never interrupt the generation itself.
+  const saveToLibrary = useCallback((
+    entry: Pick<LibraryEntry, 'id'> & Partial<Omit<LibraryEntry, 'id' | 'createdAt' | 'updatedAt'>>,
+    images?: Partial<Omit<LibraryEntryImages, 'id'>>,
+    thumbnailSource?: Blob | string | null
+  ) => {
+    libraryQueue.current = libraryQueue.current
+      .then(async () => {
+        const thumbnail = thumbnailSource ? await createThumbnail(thumbnailSource) : undefined;
+        await saveLibraryEntry({ ...entry, thumbnail: thumbnail ?? null }, images);
+      })
+      .catch(err => console.error("Failed to save the product to the library:", err));
+  }, []);
 
-    if (originalImagePreview) {
-      URL.revokeObjectURL(originalImagePreview);
-      setOriginalImagePreview(null);
-    }
+  const loadListing = (content: ProductContent | null, entry?: Pick<LibraryEntry, 'fieldHistory'>) => {
+    savedContent.current = content;
+    listing.load(content, entry?.fieldHistory);
+  };
+
+  // Persist manual edits to the library entry, debounced while the user types. The entry
+  // id and the last saved content are refs, read when the edit happens; images are saved
+  // by the code that produces them, never from here.
+  useEffect(() => {
+    const entryId = currentEntryId.current;
+    const { content, fieldHistory } = listing;
+    if (!entryId || !content || content === savedContent.current) return;
+    const timeout = setTimeout(() => {
+      savedContent.current = content;
+      saveToLibrary({ id: entryId, content, fieldHistory });
+    }, 800);
+    return () => clearTimeout(timeout);
+  }, [listing.content, listing.fieldHistory, saveToLibrary]);
 
-    let imageToProcess: File | null = image;
+  const handleCancelGeneration = () => {
+    generationController.current?.abort();
+  };
 
+  const handleOpenLibraryEntry = async (id: string) => {
+    // A running generation would keep writing its results over the opened entry.
+    handleCancelGeneration();
     try {
-      if (!imageToProcess && imagePrompt) {
-        setGenerationStep('base_image');
-        const generatedDataUrl = await generateImageFromText(imagePrompt);
-        imageToProcess = await dataUrlToFile(generatedDataUrl, 'generated-image.png');
+      const result = await getLibraryEntry(id);
+      if (!result) {
+        alert('Este produto não foi encontrado na biblioteca.');
+        return;
       }
-
-      if (imageToProcess) {
-        setOriginalImagePreview(URL.createObjectURL(imageToProcess));
+      const { entry, images } = result;
+      if (originalImagePreview) {
+        URL.revokeObjectURL(originalImagePreview);
       }
+      setOriginalImagePreview(images?.originalImage ? URL.createObjectURL(images.originalImage) : null);
+      currentEntryId.current = entry.id;
+      loadListing(entry.content, entry);
+      setPartialContent(null);
+      setGeneratedImage(images?.mainImage ?? null);
+      setGeneratedMockups(images?.mockups ?? []);
+      setVariationImages(images?.variationImages ?? {});
+      setError(null);
+      setGenerationStep('done');
+      setView('app');
+      setTimeout(() => document.getElementById('output-section')?.scrollIntoView({ behavior: 'smooth' }), 100);
+    } catch (err) {
+      console.error("Failed to open library entry:", err);
+      alert('Não foi possível abrir este produto da biblioteca.');
+    }
+  };
 
-      setGenerationStep('content');
-
-      if (imageToProcess) {
-        // --- IMAGE-BASED GENERATION (SEQUENTIAL FLOW FOR STABILITY) ---
-
-        // 1. Generate content first.
-        const content = await generateProductContent(imageToProcess, title);
-        setProductContent(content);
-        
-        // Update UI to show content is ready and images are now being generated.
-        setGenerationStep('images');
-
-        // 2. Generate the main product image.
-        const newImage = await generateProductImages(imageToProcess);
-        setGeneratedImage(newImage);
+  // A translation becomes a product of its own, sharing the images of the listing it came from.
+  const handleTranslated = async (translated: ProductContent) => {
+    const sourceId = currentEntryId.current;
+    const entryId = createLibraryEntryId();
+    try {
+      // Edits still queued for the source entry must land before it is copied.
+      await libraryQueue.current;
+      const source = sourceId ? await getLibraryEntry(sourceId) : null;
+      const images = source?.images;
+      await saveLibraryEntry(
+        { id: entryId, keywords: source?.entry.keywords ?? '', content: translated, thumbnail: source?.entry.thumbnail ?? null },
+        images ? { originalImage: images.originalImage, mainImage: images.mainImage, mockups: images.mockups, variationImages: images.variationImages } : undefined
+      );
+      await handleOpenLibraryEntry(entryId);
+    } catch (err) {
+      console.error("Failed to save the translated listing:", err);
+      alert('Não foi possível salvar a tradução na biblioteca.');
+    }
+  };
 
-        // If the main image fails, we can't create mockups. We stop here.
-        if (!newImage) {
-          setGenerationStep('done');
-          return;
-        }
+  // Only photos that nothing can bring back are dropped. A photo id only ever enters the
+  // listing through an AI edit, which the field history always keeps, so every variations
+  // value that undo, redo or a restored revision can return to is among these.
+  const handleVariationImage = (imageId: string, image: string) => {
+    const { content, fieldHistory } = latestListing.current;
+    const variationValues = [content?.variations, ...(fieldHistory.variations ?? []).map(revision => revision.value as ProductVariation[])];
+    const usedIds = new Set(variationValues.flatMap(variations => (variations ?? []).map(variation => variation.imageId)));
+    const next: Record<string, string> = { [imageId]: image };
+    Object.keys(latestVariationImages.current).forEach(id => {
+      if (usedIds.has(id)) next[id] = latestVariationImages.current[id];
+    });
+    latestVariationImages.current = next;
+    setVariationImages(next);
+    const entryId = currentEntryId.current;
+    if (entryId) saveToLibrary({ id: entryId }, { variationImages: next });
+  };
 
-        // 3. With the main image ready, generate mockups.
-        const mockups = await generateProductMockups(newImage, content);
-        setGeneratedMockups(mockups);
+  const handleGenerate = async (input: PipelineInput) => {
+    // Reset state for a new generation
+    loadListing(null);
+    setPartialContent(null);
+    setGeneratedImage(null);
+    setGeneratedMockups([]);
+    setVariationImages({});
+    setError(null);
+    const entryId = createLibraryEntryId();
+    currentEntryId.current = entryId;
+    generationController.current?.abort();
+    const controller = new AbortController();
+    generationController.current = controller;
 
-        setGenerationStep('done');
+    if (originalImagePreview) {
+      URL.revokeObjectURL(originalImagePreview);
+      setOriginalImagePreview(null);
+    }
 
-      } else {
-        // --- TEXT-ONLY GENERATION ---
-        const content = await generateProductContent(null, title);
-        setProductContent(content);
-        setGenerationStep('done');
-      }
+    let originalImage: File | null = input.image;
 
+    try {
+      await runProductPipeline(input, {
+        onStage: setGenerationStep,
+        onSourceImage: (sourceImage) => {
+          originalImage = sourceImage;
+          setOriginalImagePreview(URL.createObjectURL(sourceImage));
+        },
+        onPartialContent: setPartialContent,
+        onContent: (content) => {
+          setPartialContent(null);
+          loadListing(content);
+          saveToLibrary({ id: entryId, keywords: input.keywords, content }, { originalImage }, originalImage);
+        },
+        onMainImage: (newImage) => {
+          setGeneratedImage(newImage);
+          if (newImage) {
+            saveToLibrary({ id: entryId }, { mainImage: newImage }, newImage);
+          }
+        },
+        onMockups: (mockups) => {
+          setGeneratedMockups(mockups);
+          saveToLibrary({ id: entryId }, { mockups });
+        },
+      }, controller.signal);
+      setGenerationStep('done');
     } catch (err) {
-      console.error(err);
-      let errorMessage = 'A API parece estar sobrecarregada ou instável. Por favor, tente novamente em alguns instantes.';
-      
-      if (err instanceof Error) {
-        if (err.message.includes('API Key não configurada')) {
-          errorMessage = 'A chave de API não foi configurada. Peça a um administrador para adicioná-la no painel de admin.';
-        } else if (err.message.includes('política de segurança')) {
-          errorMessage = 'Sua solicitação foi bloqueada por nossa política de segurança. Tente usar uma imagem ou texto diferente.';
-        } else if (err.message.includes('429') || err.message.toLowerCase().includes('rate limit')) {
-          errorMessage = 'Muitas solicitações foram feitas em um curto período. Por favor, aguarde um momento e tente novamente.';
-        } else if (err.message.includes('formato inválido')) {
-          errorMessage = 'A IA retornou uma resposta em formato inesperado. Isso pode ser um problema temporário. Tente novamente.';
-        } else if (err.message.toLowerCase().includes('permission denied') || err.message.toLowerCase().includes('api key not valid')) {
-          errorMessage = 'Falha ao chamar a API Gemini: a chave de API é inválida ou não tem permissão. Verifique a chave no painel de admin.';
+      if (controller.signal.aborted || isAbortError(err)) {
+        // Opening a library entry also cancels; only a run that still owns the screen reports it.
+        if (generationController.current === controller && currentEntryId.current === entryId) {
+          setGenerationStep('cancelled');
         }
+        return;
       }
-      
-      setError(errorMessage);
+      console.error(err);
+      setError(getFriendlyErrorMessage(err));
       setGenerationStep('error');
+    } finally {
+      if (generationController.current === controller) {
+        generationController.current = null;
+      }
     }
   };
 
   return (
     <div className="bg-gray-900 text-white min-h-screen font-sans">
-      <Header />
+      <Header onOpenLibrary={() => setView('library')} />
       <main className="container mx-auto px-4 py-8 sm:py-12">
         {view === 'app' ? (
           <>
@@ -147,16 +258,23 @@ const App: React.FC = () => {
             </section>
 
             <div id="app-section" className="flex flex-col items-center gap-8">
-                <ProductInput onGenerate={handleGenerate} generationStep={generationStep} />
+                <ProductInput onGenerate={handleGenerate} generationStep={generationStep} onCancel={handleCancelGeneration} onOpenLibraryEntry={handleOpenLibraryEntry} batch={batch} />
                 <ProductOutput 
-                    content={productContent} 
+                    listing={listing} 
                     generationStep={generationStep} 
                     error={error} 
                     generatedImage={generatedImage}
                     generatedMockups={generatedMockups}
+                    variationImages={variationImages}
+                    onVariationImage={handleVariationImage}
+                    partialContent={partialContent}
+                    entryId={currentEntryId.current}
+                    onTranslated={handleTranslated}
                 />
             </div>
           </>
+        ) : view === 'library' ? (
+          <ProductLibrary onOpenEntry={handleOpenLibraryEntry} onBackToApp={() => setView('app')} />
         ) : (
           <AdminPanel onBackToApp={() => setView('app')} />
         )}
@@ -4,7 +4,12 @@ import LockIcon from './icons/LockIcon';
 import EyeIcon from './icons/EyeIcon';
 import EyeOffIcon from './icons/EyeOffIcon';
 import CheckIcon from './icons/CheckIcon';
-import { ApiKeySet, SupportedAIService } from '../types';
+import TaskSettingsEditor from './TaskSettingsEditor';
+import PromptTemplateManager from './PromptTemplateManager';
+import BrandProfileManager from './BrandProfileManager';
+import SkuSchemeManager from './SkuSchemeManager';
+import { AIProviderSettings, ApiKeySet, SupportedAIService } from '../types';
+import { PROVIDER_NAMES, loadApiKeys, saveApiKeys, loadProviderSettings, saveProviderSettings, isMockForcedByEnv, resetMockProvider } from '../services/providers';
 
 interface AdminPanelProps {
   onBackToApp: () => void;
@@ -12,9 +17,9 @@ interface AdminPanelProps {
 
 // Configuration for supported AI services
 const SUPPORTED_SERVICES: { id: SupportedAIService; name: string }[] = [
-  { id: 'gemini', name: 'Google Gemini' },
+  { id: 'gemini', name: PROVIDER_NAMES.gemini },
+  { id: 'openai', name: PROVIDER_NAMES.openai },
   // Future services can be added here, e.g.:
-  // { id: 'openai', name: 'OpenAI' },
   // { id: 'anthropic', name: 'Anthropic' },
 ];
 
@@ -31,20 +36,14 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ onBackToApp }) => {
   const [error, setError] = useState('');
   const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
 
-  const loadKeysFromStorage = () => {
-    try {
-      const storedKeys = localStorage.getItem('ai_api_keys');
-      return storedKeys ? JSON.parse(storedKeys) : {};
-    } catch (e) {
-      console.error("Could not parse API keys from storage:", e);
-      return {};
-    }
-  };
+  const [providerSettings, setProviderSettings] = useState<AIProviderSettings>(loadProviderSettings);
+  const [providerError, setProviderError] = useState('');
+  const [providerSaveStatus, setProviderSaveStatus] = useState<'idle' | 'saved' | 'error'>('idle');
 
   useEffect(() => {
     if (sessionStorage.getItem('isAdminLoggedIn') === 'true') {
       setIsLoggedIn(true);
-      const allKeys = loadKeysFromStorage();
+      const allKeys = loadApiKeys();
       setApiKeys(allKeys);
       setCurrentKeyValue(allKeys[selectedService] || '');
     }
@@ -61,7 +60,7 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ onBackToApp }) => {
     if (username === 'ad' && password === 'a12') {
       sessionStorage.setItem('isAdminLoggedIn', 'true');
       setIsLoggedIn(true);
-      const allKeys = loadKeysFromStorage();
+      const allKeys = loadApiKeys();
       setApiKeys(allKeys);
       setCurrentKeyValue(allKeys[selectedService] || '');
     } else {
@@ -90,7 +89,7 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ onBackToApp }) => {
         [selectedService]: trimmedKey,
       };
 
-      localStorage.setItem('ai_api_keys', JSON.stringify(updatedKeys));
+      saveApiKeys(updatedKeys);
       setApiKeys(updatedKeys);
       setCurrentKeyValue(trimmedKey);
       
@@ -106,6 +105,57 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ onBackToApp }) => {
     }
   };
 
+  const usesOpenAI = providerSettings.contentProvider === 'openai' || providerSettings.imageProvider === 'openai';
+
+  const updateMockSettings = (patch: Partial<AIProviderSettings['mock']>) => {
+    setProviderSettings(prev => ({ ...prev, mock: { ...prev.mock, ...patch } }));
+  };
+
+  const updateOpenAISettings = (field: keyof AIProviderSettings['openai'], value: string) => {
+    setProviderSettings(prev => ({ ...prev, openai: { ...prev.openai, [field]: value } }));
+  };
+
+  const handleSaveProviders = () => {
+    setProviderError('');
+    try {
+      const openai = {
+        baseUrl: providerSettings.openai.baseUrl.trim(),
+        chatModel: providerSettings.openai.chatModel.trim(),
+        imageModel: providerSettings.openai.imageModel.trim(),
+      };
+      if (usesOpenAI) {
+        try {
+          new URL(openai.baseUrl);
+        } catch (_) {
+          throw new Error('Informe uma URL base válida para o provedor compatível com OpenAI.');
+        }
+        if (providerSettings.contentProvider === 'openai' && !openai.chatModel) {
+          throw new Error('Informe o modelo de texto do provedor compatível com OpenAI.');
+        }
+        if (providerSettings.imageProvider === 'openai' && !openai.imageModel) {
+          throw new Error('Informe o modelo de imagem do provedor compatível com OpenAI.');
+        }
+      }
+      const { latencyMs, failureRate } = providerSettings.mock;
+      if (!Number.isFinite(latencyMs) || latencyMs < 0) {
+        throw new Error('A latência simulada deve ser um número de milissegundos maior ou igual a zero.');
+      }
+      if (!Number.isFinite(failureRate) || failureRate < 0 || failureRate > 1) {
+        throw new Error('A taxa de falhas simuladas deve estar entre 0% e 100%.');
+      }
+      const updatedSettings = { ...providerSettings, openai };
+      saveProviderSettings(updatedSettings);
+      setProviderSettings(updatedSettings);
+      setProviderSaveStatus('saved');
+      setTimeout(() => setProviderSaveStatus('idle'), 2500);
+    } catch (err) {
+      console.error("Failed to save provider settings:", err);
+      setProviderError(err instanceof Error ? err.message : 'Não foi possível salvar as configurações de provedor.');
+      setProviderSaveStatus('error');
+      setTimeout(() => setProviderSaveStatus('idle'), 3000);
+    }
+  };
+
   const getButtonClass = () => {
     switch (saveStatus) {
         case 'saving': return 'bg-indigo-400 cursor-not-allowed';
@@ -209,6 +259,147 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ onBackToApp }) => {
             {getButtonContent()}
           </button>
         </div>
+
+        <div className="space-y-4 mt-8 pt-6 border-t border-gray-700">
+          <div>
+            <h3 className="text-lg font-semibold">Provedores de IA</h3>
+            <p className="text-sm text-gray-400">Escolha qual serviço gera o conteúdo do anúncio e qual gera e edita as imagens.</p>
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="contentProvider" className="block text-sm font-medium text-gray-400 mb-2">Conteúdo (texto)</label>
+              <select
+                id="contentProvider"
+                value={providerSettings.contentProvider}
+                onChange={(e) => setProviderSettings(prev => ({ ...prev, contentProvider: e.target.value as SupportedAIService }))}
+                className="w-full px-4 py-2 bg-gray-900 border border-gray-700 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition"
+              >
+                {SUPPORTED_SERVICES.map(service => (
+                  <option key={service.id} value={service.id}>{service.name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="imageProvider" className="block text-sm font-medium text-gray-400 mb-2">Imagens</label>
+              <select
+                id="imageProvider"
+                value={providerSettings.imageProvider}
+                onChange={(e) => setProviderSettings(prev => ({ ...prev, imageProvider: e.target.value as SupportedAIService }))}
+                className="w-full px-4 py-2 bg-gray-900 border border-gray-700 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition"
+              >
+                {SUPPORTED_SERVICES.map(service => (
+                  <option key={service.id} value={service.id}>{service.name}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          {usesOpenAI && (
+            <div className="space-y-4 p-4 bg-gray-900/50 border border-gray-700 rounded-lg animate-fade-in">
+              <div>
+                <label htmlFor="openaiBaseUrl" className="block text-sm font-medium text-gray-400 mb-2">URL base (compatível com OpenAI)</label>
+                <input
+                  id="openaiBaseUrl"
+                  type="url"
+                  value={providerSettings.openai.baseUrl}
+                  onChange={(e) => updateOpenAISettings('baseUrl', e.target.value)}
+                  placeholder="https://api.openai.com/v1 ou http://localhost:11434/v1"
+                  className="w-full px-4 py-2 bg-gray-900 border border-gray-700 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition font-mono text-sm"
+                />
+                <p className="text-xs text-gray-500 mt-1">A chave de API é opcional para servidores locais. Cadastre-a acima selecionando "{PROVIDER_NAMES.openai}".</p>
+              </div>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="openaiChatModel" className="block text-sm font-medium text-gray-400 mb-2">Modelo de texto</label>
+                  <input
+                    id="openaiChatModel"
+                    type="text"
+                    value={providerSettings.openai.chatModel}
+                    onChange={(e) => updateOpenAISettings('chatModel', e.target.value)}
+                    className="w-full px-4 py-2 bg-gray-900 border border-gray-700 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition font-mono text-sm"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="openaiImageModel" className="block text-sm font-medium text-gray-400 mb-2">Modelo de imagem</label>
+                  <input
+                    id="openaiImageModel"
+                    type="text"
+                    value={providerSettings.openai.imageModel}
+                    onChange={(e) => updateOpenAISettings('imageModel', e.target.value)}
+                    className="w-full px-4 py-2 bg-gray-900 border border-gray-700 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition font-mono text-sm"
+                  />
+                </div>
+              </div>
+            </div>
+          )}
+          <div className="space-y-4 p-4 bg-gray-900/50 border border-gray-700 rounded-lg">
+            <label className="flex items-start gap-3 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={providerSettings.mock.enabled || isMockForcedByEnv()}
+                disabled={isMockForcedByEnv()}
+                onChange={(e) => updateMockSettings({ enabled: e.target.checked })}
+                className="mt-1 h-4 w-4 accent-indigo-500"
+              />
+              <span>
+                <span className="block text-sm font-semibold text-gray-200">Modo de demonstração (offline)</span>
+                <span className="block text-xs text-gray-500">
+                  Substitui todos os provedores por respostas de exemplo e imagens geradas localmente. Não consome cota de API nem precisa de chave.
+                  {isMockForcedByEnv() && ' Ativado pela variável de ambiente MOCK_AI.'}
+                </span>
+              </span>
+            </label>
+            {(providerSettings.mock.enabled || isMockForcedByEnv()) && (
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 items-end animate-fade-in">
+                <div>
+                  <label htmlFor="mockLatency" className="block text-sm font-medium text-gray-400 mb-2">Latência por chamada (ms)</label>
+                  <input
+                    id="mockLatency"
+                    type="number"
+                    min={0}
+                    step={100}
+                    value={providerSettings.mock.latencyMs}
+                    onChange={(e) => updateMockSettings({ latencyMs: Number(e.target.value) })}
+                    className="w-full px-4 py-2 bg-gray-900 border border-gray-700 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="mockFailureRate" className="block text-sm font-medium text-gray-400 mb-2">Falhas simuladas (%)</label>
+                  <input
+                    id="mockFailureRate"
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={Math.round(providerSettings.mock.failureRate * 100)}
+                    onChange={(e) => updateMockSettings({ failureRate: Number(e.target.value) / 100 })}
+                    className="w-full px-4 py-2 bg-gray-900 border border-gray-700 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition"
+                  />
+                </div>
+                <button
+                  type="button"
+                  onClick={resetMockProvider}
+                  className="px-4 py-2 bg-gray-700 text-white text-sm font-semibold rounded-lg hover:bg-gray-600 transition"
+                >
+                  Reiniciar sequência
+                </button>
+              </div>
+            )}
+          </div>
+          {providerError && providerSaveStatus === 'error' && <p className="text-red-400 text-sm">{providerError}</p>}
+          <button
+            onClick={handleSaveProviders}
+            className={`w-full flex items-center justify-center gap-2 px-6 py-3 text-white font-semibold rounded-lg transition-colors duration-300 ${providerSaveStatus === 'saved' ? 'bg-green-600' : providerSaveStatus === 'error' ? 'bg-red-600 hover:bg-red-700' : 'bg-indigo-600 hover:bg-indigo-700'}`}
+          >
+            {providerSaveStatus === 'saved' ? <><CheckIcon className="w-5 h-5" /> Provedores Salvos!</> : 'Salvar Provedores'}
+          </button>
+        </div>
+
+        <TaskSettingsEditor providerSettings={providerSettings} />
+
+        <BrandProfileManager />
+
+        <SkuSchemeManager />
+
+        <PromptTemplateManager />
          <div className="text-center mt-6">
             <button onClick={onBackToApp} className="text-sm text-indigo-400 hover:underline">
               Voltar para a aplicação
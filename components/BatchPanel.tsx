@@ -0,0 +1,195 @@
+import React, { useState, useRef, useEffect, useCallback } from 'react';
+import { BatchQueueStore } from '../hooks/useBatchQueue';
+import { BrandProfile, ListingLocale, MarketplaceId } from '../types';
+import UploadIcon from './icons/UploadIcon';
+import TrashIcon from './icons/TrashIcon';
+import CheckIcon from './icons/CheckIcon';
+
+interface BatchPanelProps {
+  /** The queue lives in App, so it outlives this panel. */
+  batch: BatchQueueStore;
+  onOpenEntry: (id: string) => void;
+  /** Applied to the images added from now on. */
+  brandProfile: BrandProfile | null;
+  locale: ListingLocale;
+  marketplace: MarketplaceId;
+}
+
+const STATUS_STYLES = {
+  pending: 'bg-gray-700 text-gray-300',
+  running: 'bg-indigo-600/60 text-indigo-100',
+  done: 'bg-green-700/60 text-green-100',
+  error: 'bg-red-700/60 text-red-100',
+};
+
+const STATUS_LABELS = {
+  pending: 'Na fila',
+  running: 'Gerando',
+  done: 'Concluído',
+  error: 'Falhou',
+};
+
+const formatDuration = (ms: number) => {
+  const totalSeconds = Math.round(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return minutes > 0 ? `${minutes} min ${seconds} s` : `${seconds} s`;
+};
+
+const BatchPanel: React.FC<BatchPanelProps> = ({ batch, onOpenEntry, brandProfile, locale, marketplace }) => {
+  const [defaultKeywords, setDefaultKeywords] = useState('');
+  const [isDragging, setIsDragging] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const { items, isRunning, isPaused, summary, concurrency, hasStarted } = batch;
+
+  useEffect(() => {
+    // React does not know the non-standard attribute that enables folder selection.
+    folderInputRef.current?.setAttribute('webkitdirectory', '');
+  }, []);
+
+  const addFiles = useCallback((files: FileList | null) => {
+    if (!files) return;
+    const images = Array.from(files).filter(file => file.type.startsWith('image/'));
+    if (images.length === 0) {
+      alert('Nenhuma imagem encontrada na seleção.');
+      return;
+    }
+    batch.add(images.map(file => ({ file, keywords: defaultKeywords, preview: URL.createObjectURL(file), brandProfile, locale, marketplace })));
+  }, [batch, defaultKeywords, brandProfile, locale, marketplace]);
+
+  const pendingCount = items.filter(i => i.status === 'pending').length;
+  const doneCount = items.filter(i => i.status === 'done').length;
+  const failedCount = items.filter(i => i.status === 'error').length;
+  const progressPercent = items.length > 0 ? Math.round(((doneCount + failedCount) / items.length) * 100) : 0;
+
+  return (
+    <div className="space-y-4 animate-fade-in">
+      <div
+        onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+        onDragLeave={(e) => { e.preventDefault(); setIsDragging(false); }}
+        onDrop={(e) => { e.preventDefault(); setIsDragging(false); addFiles(e.dataTransfer.files); }}
+        className={`flex flex-col items-center justify-center gap-3 w-full p-6 border-2 border-dashed rounded-lg transition-colors duration-300 ${isDragging ? 'border-indigo-500 bg-indigo-900/20' : 'border-gray-600'}`}
+      >
+        <UploadIcon className="h-10 w-10 text-gray-500" />
+        <p className="text-gray-400 text-sm text-center">Arraste várias imagens aqui para gerar anúncios em lote</p>
+        <div className="flex gap-2">
+          <button onClick={() => fileInputRef.current?.click()} className="px-4 py-2 bg-gray-700 text-white text-sm font-semibold rounded-lg hover:bg-gray-600 transition">Selecionar Imagens</button>
+          <button onClick={() => folderInputRef.current?.click()} className="px-4 py-2 bg-gray-700 text-white text-sm font-semibold rounded-lg hover:bg-gray-600 transition">Selecionar Pasta</button>
+        </div>
+        <input type="file" ref={fileInputRef} multiple accept="image/*" className="hidden" onChange={(e) => { addFiles(e.target.files); e.target.value = ''; }} />
+        <input type="file" ref={folderInputRef} multiple className="hidden" onChange={(e) => { addFiles(e.target.files); e.target.value = ''; }} />
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+        <div className="sm:col-span-2">
+          <label htmlFor="batchKeywords" className="block text-sm font-medium text-gray-400 mb-2">Palavras-chave padrão para novas imagens (opcional)</label>
+          <input
+            id="batchKeywords"
+            type="text"
+            value={defaultKeywords}
+            onChange={(e) => setDefaultKeywords(e.target.value)}
+            placeholder="Ex: Coleção verão, algodão"
+            className="w-full px-4 py-2 bg-gray-900 border border-gray-700 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition"
+          />
+        </div>
+        <div>
+          <label htmlFor="batchConcurrency" className="block text-sm font-medium text-gray-400 mb-2">Gerações simultâneas</label>
+          <select
+            id="batchConcurrency"
+            value={concurrency}
+            onChange={(e) => batch.setConcurrency(Number(e.target.value))}
+            className="w-full px-4 py-2 bg-gray-900 border border-gray-700 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition"
+          >
+            {[1, 2, 3, 4].map(n => <option key={n} value={n}>{n}</option>)}
+          </select>
+        </div>
+      </div>
+
+      {items.length > 0 && (
+        <>
+          <div className="flex flex-wrap items-center gap-2">
+            {!hasStarted || (!isRunning && pendingCount > 0 && !isPaused) ? (
+              <button onClick={batch.start} disabled={pendingCount === 0} className="px-4 py-2 bg-indigo-600 text-white text-sm font-semibold rounded-lg hover:bg-indigo-700 disabled:bg-indigo-400 disabled:cursor-not-allowed transition">
+                Iniciar Lote ({pendingCount})
+              </button>
+            ) : isPaused ? (
+              <button onClick={batch.resume} className="px-4 py-2 bg-indigo-600 text-white text-sm font-semibold rounded-lg hover:bg-indigo-700 transition">Retomar</button>
+            ) : (
+              <button onClick={batch.pause} disabled={!isRunning} className="px-4 py-2 bg-yellow-600 text-white text-sm font-semibold rounded-lg hover:bg-yellow-700 disabled:opacity-50 transition">Pausar</button>
+            )}
+            {failedCount > 0 && (
+              <button onClick={batch.retryFailed} className="px-4 py-2 bg-gray-700 text-white text-sm font-semibold rounded-lg hover:bg-gray-600 transition">
+                Tentar Falhas Novamente ({failedCount})
+              </button>
+            )}
+            {(doneCount > 0 || failedCount > 0) && !isRunning && (
+              <button onClick={batch.clearFinished} className="px-4 py-2 text-gray-400 text-sm font-medium hover:text-white transition">Limpar concluídos</button>
+            )}
+            <span className="ml-auto text-sm text-gray-400">
+              {doneCount + failedCount}/{items.length} {isPaused && isRunning ? '(pausando após os itens em andamento)' : isPaused ? '(pausado)' : ''}
+            </span>
+          </div>
+
+          <div className="w-full h-2 bg-gray-700 rounded-full overflow-hidden">
+            <div className="h-full bg-indigo-500 transition-all duration-500" style={{ width: `${progressPercent}%` }}></div>
+          </div>
+
+          {summary && (
+            <div className={`flex items-center gap-2 border rounded-lg p-3 text-sm ${summary.failed > 0 ? 'bg-yellow-900/40 border-yellow-700 text-yellow-200' : 'bg-green-900/30 border-green-700 text-green-300'}`}>
+              <CheckIcon className="w-5 h-5 flex-shrink-0" />
+              <span>
+                Lote finalizado em {formatDuration(summary.durationMs)}: {summary.done} {summary.done === 1 ? 'anúncio gerado' : 'anúncios gerados'}
+                {summary.failed > 0 && `, ${summary.failed} com falha`}. Os resultados foram salvos na biblioteca.
+              </span>
+            </div>
+          )}
+
+          <ul className="space-y-2 max-h-[480px] overflow-y-auto pr-1">
+            {items.map(item => (
+              <li key={item.id} className="flex items-center gap-3 p-2 bg-gray-900/50 border border-gray-700 rounded-lg">
+                <img src={item.input.preview} alt={item.input.file.name} className="w-14 h-14 object-cover rounded-md flex-shrink-0" />
+                <div className="flex-grow min-w-0 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className={`text-xs font-semibold px-2 py-0.5 rounded-full ${STATUS_STYLES[item.status]}`}>{STATUS_LABELS[item.status]}</span>
+                    <span className="text-sm text-gray-300 truncate">{item.result?.name || item.input.file.name}</span>
+                  </div>
+                  {item.status === 'pending' ? (
+                    <input
+                      type="text"
+                      value={item.input.keywords}
+                      onChange={(e) => batch.updateInput(item.id, { ...item.input, keywords: e.target.value })}
+                      placeholder="Palavras-chave desta imagem (opcional)"
+                      className="w-full px-2 py-1 text-sm bg-gray-900 border border-gray-700 rounded-md focus:ring-2 focus:ring-indigo-500 outline-none transition"
+                    />
+                  ) : item.status === 'running' ? (
+                    <p className="text-xs text-indigo-300">{item.progress || 'Iniciando...'}</p>
+                  ) : item.status === 'error' ? (
+                    <p className="text-xs text-red-300">{item.error}</p>
+                  ) : (
+                    <p className="text-xs text-gray-500">{item.result?.imageCount} {item.result?.imageCount === 1 ? 'imagem gerada' : 'imagens geradas'}</p>
+                  )}
+                </div>
+                <div className="flex-shrink-0 flex items-center gap-1">
+                  {item.status !== 'running' && item.result && (
+                    <button onClick={() => onOpenEntry(item.result!.entryId)} className="px-3 py-1 text-xs font-semibold text-indigo-300 hover:text-white transition">Abrir</button>
+                  )}
+                  {item.status === 'error' && (
+                    <button onClick={() => batch.retry(item.id)} className="px-3 py-1 text-xs font-semibold text-yellow-300 hover:text-white transition">Tentar novamente</button>
+                  )}
+                  {item.status !== 'running' && (
+                    <button onClick={() => batch.remove(item.id)} className="p-2 text-gray-500 hover:text-red-400 transition" aria-label="Remover da fila">
+                      <TrashIcon className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default BatchPanel;
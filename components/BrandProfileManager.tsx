@@ -0,0 +1,144 @@
+import React, { useState } from 'react';
+import CheckIcon from './icons/CheckIcon';
+import TrashIcon from './icons/TrashIcon';
+import { BrandProfile, EmojiPolicy } from '../types';
+import {
+  EMOJI_POLICY_LABELS,
+  createEmptyBrandProfile,
+  deleteBrandProfile,
+  loadBrandProfiles,
+  saveBrandProfile,
+} from '../services/brandProfiles';
+
+const inputClass = 'w-full px-3 py-2 bg-gray-900 border border-gray-700 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition text-sm';
+
+// The term lists are edited as comma-separated text.
+const splitTerms = (text: string) => text.split(',').map(term => term.trim()).filter(Boolean);
+
+type Draft = Omit<BrandProfile, 'preferredTerms' | 'avoidedTerms'> & { preferredTerms: string; avoidedTerms: string };
+
+const toDraft = (profile: BrandProfile): Draft => ({
+  ...profile,
+  preferredTerms: profile.preferredTerms.join(', '),
+  avoidedTerms: profile.avoidedTerms.join(', '),
+});
+
+const BrandProfileManager: React.FC = () => {
+  const [profiles, setProfiles] = useState<BrandProfile[]>(loadBrandProfiles);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [saveStatus, setSaveStatus] = useState<'idle' | 'saved'>('idle');
+
+  const updateDraft = (patch: Partial<Draft>) => setDraft(prev => (prev ? { ...prev, ...patch } : prev));
+
+  const handleSave = () => {
+    if (!draft) return;
+    if (!draft.name.trim()) {
+      setError('Dê um nome ao perfil de marca.');
+      return;
+    }
+    const profile: BrandProfile = {
+      ...draft,
+      name: draft.name.trim(),
+      preferredTerms: splitTerms(draft.preferredTerms),
+      avoidedTerms: splitTerms(draft.avoidedTerms),
+    };
+    setProfiles(saveBrandProfile(profile));
+    setDraft(toDraft(profile));
+    setError(null);
+    setSaveStatus('saved');
+    setTimeout(() => setSaveStatus('idle'), 2500);
+  };
+
+  const handleDelete = (profile: BrandProfile) => {
+    if (!window.confirm(`Excluir o perfil de marca "${profile.name}"?`)) return;
+    setProfiles(deleteBrandProfile(profile.id));
+    if (draft?.id === profile.id) setDraft(null);
+  };
+
+  return (
+    <div className="space-y-4 mt-8 pt-6 border-t border-gray-700">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-semibold">Perfis de Marca</h3>
+          <p className="text-sm text-gray-400">Defina a voz de cada loja. O perfil escolhido na geração orienta todos os textos, do título ao roteiro de vídeo.</p>
+        </div>
+        <button
+          onClick={() => { setDraft(toDraft(createEmptyBrandProfile())); setError(null); }}
+          className="flex-shrink-0 text-sm text-indigo-400 hover:text-indigo-300 font-medium transition"
+        >
+          + Novo perfil
+        </button>
+      </div>
+
+      {profiles.length > 0 ? (
+        <ul className="space-y-2">
+          {profiles.map(profile => (
+            <li key={profile.id} className={`flex items-center justify-between p-3 rounded-lg border text-sm ${draft?.id === profile.id ? 'border-indigo-500 bg-indigo-900/20' : 'border-gray-700 bg-gray-900/50'}`}>
+              <button onClick={() => { setDraft(toDraft(profile)); setError(null); }} className="text-left flex-grow">
+                <span className="font-semibold text-gray-200">{profile.name}</span>
+                {profile.tone && <span className="text-gray-500"> · {profile.tone}</span>}
+              </button>
+              <button onClick={() => handleDelete(profile)} className="p-1 text-gray-500 hover:text-red-400 transition" title="Excluir perfil">
+                <TrashIcon className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        !draft && <p className="text-sm text-gray-500">Nenhum perfil cadastrado. Sem perfil, os textos usam o tom padrão.</p>
+      )}
+
+      {draft && (
+        <div className="p-4 bg-gray-900/50 border border-gray-700 rounded-lg space-y-3">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div>
+              <label htmlFor="brand-name" className="block text-xs font-medium text-gray-400 mb-1">Nome</label>
+              <input id="brand-name" type="text" value={draft.name} onChange={(e) => updateDraft({ name: e.target.value })} placeholder="Ex: Loja Street" className={inputClass} />
+            </div>
+            <div>
+              <label htmlFor="brand-emoji" className="block text-xs font-medium text-gray-400 mb-1">Emojis</label>
+              <select id="brand-emoji" value={draft.emojiPolicy} onChange={(e) => updateDraft({ emojiPolicy: e.target.value as EmojiPolicy })} className={inputClass}>
+                {(Object.keys(EMOJI_POLICY_LABELS) as EmojiPolicy[]).map(policy => (
+                  <option key={policy} value={policy}>{EMOJI_POLICY_LABELS[policy]}</option>
+                ))}
+              </select>
+            </div>
+            <div className="sm:col-span-2">
+              <label htmlFor="brand-tone" className="block text-xs font-medium text-gray-400 mb-1">Tom de voz</label>
+              <input id="brand-tone" type="text" value={draft.tone} onChange={(e) => updateDraft({ tone: e.target.value })} placeholder="Ex: jovem, irreverente, usa gírias" className={inputClass} />
+            </div>
+            <div className="sm:col-span-2">
+              <label htmlFor="brand-audience" className="block text-xs font-medium text-gray-400 mb-1">Público-alvo</label>
+              <input id="brand-audience" type="text" value={draft.targetAudience} onChange={(e) => updateDraft({ targetAudience: e.target.value })} placeholder="Ex: jovens de 16 a 25 anos que curtem skate" className={inputClass} />
+            </div>
+            <div>
+              <label htmlFor="brand-preferred" className="block text-xs font-medium text-gray-400 mb-1">Termos preferidos (separados por vírgula)</label>
+              <input id="brand-preferred" type="text" value={draft.preferredTerms} onChange={(e) => updateDraft({ preferredTerms: e.target.value })} className={inputClass} />
+            </div>
+            <div>
+              <label htmlFor="brand-avoided" className="block text-xs font-medium text-gray-400 mb-1">Termos a evitar (separados por vírgula)</label>
+              <input id="brand-avoided" type="text" value={draft.avoidedTerms} onChange={(e) => updateDraft({ avoidedTerms: e.target.value })} className={inputClass} />
+            </div>
+            <div className="sm:col-span-2">
+              <label htmlFor="brand-boilerplate" className="block text-xs font-medium text-gray-400 mb-1">Texto fixo ao final da descrição (garantia, frete...)</label>
+              <textarea id="brand-boilerplate" value={draft.boilerplate} onChange={(e) => updateDraft({ boilerplate: e.target.value })} rows={3} className={inputClass} />
+            </div>
+          </div>
+          {error && <p className="text-sm text-red-400">{error}</p>}
+          <div className="flex gap-2">
+            <button
+              onClick={handleSave}
+              className={`flex items-center gap-2 px-4 py-2 text-white text-sm font-semibold rounded-lg transition ${saveStatus === 'saved' ? 'bg-green-600' : 'bg-indigo-600 hover:bg-indigo-700'}`}
+            >
+              {saveStatus === 'saved' ? <><CheckIcon className="w-4 h-4" /> Perfil Salvo!</> : 'Salvar Perfil'}
+            </button>
+            <button onClick={() => setDraft(null)} className="px-4 py-2 bg-gray-700 text-white text-sm font-semibold rounded-lg hover:bg-gray-600 transition">Fechar</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BrandProfileManager;
@@ -0,0 +1,153 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ProductContent } from '../types';
+import { ComplianceViolation, buildSpanReplacementPatch, getApplicablePacks, scanListingCompliance } from '../services/compliance';
+import { rewriteComplianceSpan } from '../services/geminiService';
+import { getFriendlyErrorMessage } from '../services/errorMessages';
+import { isAbortError } from '../services/abort';
+
+interface CompliancePanelProps {
+  content: ProductContent;
+  onApply: (patch: Partial<ProductContent>) => void;
+}
+
+const FIELD_LABELS: Partial<Record<keyof ProductContent, string>> = {
+  name: 'Nome do Produto',
+  description: 'Descrição',
+  promotionalSlogan: 'Slogan',
+  keywords: 'Palavras-chave',
+  hashtags: 'Hashtags',
+  imageTextSuggestions: 'Textos para imagens',
+  imageTextPlacementSuggestions: 'Guia de aplicação dos textos',
+  coupon: 'Cupom',
+  metaTitle: 'Meta Title',
+  metaDescription: 'Meta Description',
+  slug: 'Slug',
+  imageAltText: 'Texto alternativo',
+  socialMediaPost: 'Post para redes sociais',
+  videoScript: 'Roteiro de vídeo',
+  copyVariants: 'Variantes de texto',
+  category: 'Categoria',
+  variations: 'Variações',
+};
+
+// How much of the text around the span is shown, on each side.
+const CONTEXT_CHARS = 60;
+
+const violationKey = (violation: ComplianceViolation) =>
+  `${violation.source.path.join('.')}:${violation.start}:${violation.ruleId}`;
+
+const Excerpt: React.FC<{ violation: ComplianceViolation; replacement?: string }> = ({ violation, replacement }) => {
+  const { source: { text }, start, end } = violation;
+  const from = Math.max(0, start - CONTEXT_CHARS);
+  const to = Math.min(text.length, end + CONTEXT_CHARS);
+  return (
+    <p className="text-gray-300 whitespace-pre-line">
+      {from > 0 && '…'}{text.slice(from, start)}
+      {replacement === undefined ? (
+        <mark className="bg-red-500/30 text-red-100 rounded px-0.5">{text.slice(start, end)}</mark>
+      ) : (
+        <>
+          <del className="bg-red-900/50 text-red-300 rounded px-0.5">{text.slice(start, end)}</del>
+          {replacement && <ins className="bg-green-900/50 text-green-200 no-underline rounded px-0.5">{replacement}</ins>}
+        </>
+      )}
+      {text.slice(end, to)}{to < text.length && '…'}
+    </p>
+  );
+};
+
+// Scans the listing on every edit; each offending span can be rewritten by the AI on its own.
+const CompliancePanel: React.FC<CompliancePanelProps> = ({ content, onApply }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [active, setActive] = useState<{ key: string; replacement: string | null; error: string | null } | null>(null);
+  const controller = useRef<AbortController | null>(null);
+  const violations = useMemo(() => scanListingCompliance(content), [content]);
+
+  // Offsets of a pending proposal are only valid for the text it was made for.
+  useEffect(() => {
+    controller.current?.abort();
+    setActive(null);
+  }, [content]);
+
+  useEffect(() => () => controller.current?.abort(), []);
+
+  const handleRewrite = async (violation: ComplianceViolation) => {
+    controller.current?.abort();
+    const current = new AbortController();
+    controller.current = current;
+    const key = violationKey(violation);
+    setActive({ key, replacement: null, error: null });
+    try {
+      const replacement = await rewriteComplianceSpan(content, violation, current.signal);
+      setActive({ key, replacement, error: null });
+    } catch (err) {
+      if (isAbortError(err)) return;
+      setActive({ key, replacement: null, error: getFriendlyErrorMessage(err) });
+    } finally {
+      if (controller.current === current) controller.current = null;
+    }
+  };
+
+  const errorCount = violations.filter(violation => violation.severity === 'error').length;
+
+  return (
+    <div className={`p-3 rounded-lg border text-sm ${errorCount > 0 ? 'bg-red-900/20 border-red-700/60' : violations.length > 0 ? 'bg-yellow-900/20 border-yellow-700/60' : 'bg-gray-900/50 border-gray-700'}`}>
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <span className="text-gray-400">Conformidade: {getApplicablePacks(content).map(pack => pack.name).join(', ')}</span>
+        {violations.length > 0 ? (
+          <button onClick={() => setIsExpanded(prev => !prev)} className={`font-medium transition ${errorCount > 0 ? 'text-red-300 hover:text-red-200' : 'text-yellow-300 hover:text-yellow-200'}`}>
+            {violations.length} {violations.length === 1 ? 'trecho a revisar' : 'trechos a revisar'} {isExpanded ? '(ocultar)' : '(mostrar)'}
+          </button>
+        ) : (
+          <span className="text-green-400">Nenhum trecho proibido encontrado</span>
+        )}
+      </div>
+      {violations.length > 0 && isExpanded && (
+        <ul className="mt-3 space-y-3">
+          {violations.map(violation => {
+            const key = violationKey(violation);
+            const proposal = active?.key === key ? active : null;
+            const isLoading = proposal !== null && proposal.replacement === null && proposal.error === null;
+            const field = violation.source.path[0] as keyof ProductContent;
+            return (
+              <li key={key} className="p-3 bg-gray-900/60 border border-gray-700 rounded-lg space-y-2">
+                <div className="flex items-center gap-2 text-xs">
+                  <span className={`px-1.5 py-0.5 rounded font-semibold ${violation.severity === 'error' ? 'bg-red-800 text-red-100' : 'bg-yellow-800 text-yellow-100'}`}>
+                    {violation.severity === 'error' ? 'Proibido' : 'Atenção'}
+                  </span>
+                  <span className="text-gray-400">{FIELD_LABELS[field] ?? field}</span>
+                </div>
+                <Excerpt violation={violation} replacement={proposal?.replacement ?? undefined} />
+                <p className="text-gray-400">{violation.message}</p>
+                {proposal?.error && <p className="text-red-400">{proposal.error}</p>}
+                <div className="flex gap-2">
+                  {proposal?.replacement != null ? (
+                    <>
+                      <button
+                        onClick={() => onApply(buildSpanReplacementPatch(content, violation, proposal.replacement!))}
+                        className="px-3 py-1 bg-green-600 text-white text-xs font-semibold rounded-md hover:bg-green-700 transition"
+                      >
+                        Aceitar
+                      </button>
+                      <button onClick={() => setActive(null)} className="px-3 py-1 bg-gray-700 text-white text-xs font-semibold rounded-md hover:bg-gray-600 transition">Rejeitar</button>
+                    </>
+                  ) : (
+                    <button
+                      onClick={() => handleRewrite(violation)}
+                      disabled={isLoading}
+                      className="px-3 py-1 bg-indigo-600 text-white text-xs font-semibold rounded-md hover:bg-indigo-700 disabled:bg-indigo-400 disabled:cursor-wait transition"
+                    >
+                      {isLoading ? 'Reescrevendo...' : 'Reescrever trecho com IA'}
+                    </button>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default CompliancePanel;
@@ -0,0 +1,105 @@
+import React, { useMemo, useState } from 'react';
+import { ProductContent, ListingImages } from '../types';
+import { EXPORTERS, ExportIssueKind, ExportPlatform } from '../services/exporters';
+import { downloadFile } from '../services/exporters/download';
+import DownloadIcon from './icons/DownloadIcon';
+import CheckIcon from './icons/CheckIcon';
+
+interface ExportDialogProps {
+  content: ProductContent;
+  images: ListingImages;
+  onClose: () => void;
+}
+
+const ISSUE_GROUPS: { kind: ExportIssueKind; title: string; className: string }[] = [
+  { kind: 'missing', title: 'Campos obrigatórios ou pendentes', className: 'bg-yellow-900/40 border-yellow-700 text-yellow-200' },
+  { kind: 'truncated', title: 'Textos cortados no limite da plataforma', className: 'bg-orange-900/40 border-orange-700 text-orange-200' },
+  { kind: 'lost', title: 'Informações que não serão exportadas', className: 'bg-gray-900/60 border-gray-600 text-gray-300' },
+];
+
+const ExportDialog: React.FC<ExportDialogProps> = ({ content, images, onClose }) => {
+  const [platform, setPlatform] = useState<ExportPlatform>(EXPORTERS[0].id);
+  const exporter = EXPORTERS.find(e => e.id === platform) || EXPORTERS[0];
+  const result = useMemo(() => exporter.run(content, images), [exporter, content, images]);
+  const hasMissing = result.issues.some(issue => issue.kind === 'missing');
+
+  const handleDownloadImages = () => {
+    // Stagger the downloads; browsers tend to drop simultaneous ones.
+    result.imageFiles.forEach((file, index) => {
+      setTimeout(() => downloadFile(file.dataUrl, file.fileName), index * 300);
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4" onClick={onClose} style={{ backdropFilter: 'blur(8px)' }}>
+      <div className="bg-gray-800 rounded-lg shadow-2xl p-6 max-w-lg w-full max-h-[95vh] overflow-y-auto space-y-4" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-center">
+          <h3 className="text-xl font-bold">Exportar Anúncio</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-white text-2xl font-bold transition-colors">&times;</button>
+        </div>
+
+        <div className="flex bg-gray-900 border border-gray-700 rounded-lg p-1 gap-1 overflow-x-auto">
+          {EXPORTERS.map(e => (
+            <button
+              key={e.id}
+              onClick={() => setPlatform(e.id)}
+              className={`flex-1 whitespace-nowrap px-3 py-2 text-sm font-semibold rounded-md transition ${platform === e.id ? 'bg-indigo-600 text-white' : 'text-gray-400 hover:bg-gray-700'}`}
+            >
+              {e.name}
+            </button>
+          ))}
+        </div>
+
+        <p className="text-sm text-gray-400">{result.summary}</p>
+
+        {result.issues.length === 0 ? (
+          <div className="flex items-center gap-2 bg-green-900/30 border border-green-700 rounded-lg p-3 text-sm text-green-300">
+            <CheckIcon className="w-5 h-5" /> Todos os campos foram exportados sem perdas.
+          </div>
+        ) : (
+          ISSUE_GROUPS.map(group => {
+            const issues = result.issues.filter(issue => issue.kind === group.kind);
+            if (issues.length === 0) return null;
+            return (
+              <div key={group.kind} className={`border rounded-lg p-3 space-y-2 ${group.className}`}>
+                <p className="text-sm font-semibold">{group.title}</p>
+                <ul className="text-sm list-disc list-inside space-y-1">
+                  {issues.map((issue, index) => (
+                    <li key={index}><span className="font-medium">{issue.field}:</span> <span className="opacity-80">{issue.message}</span></li>
+                  ))}
+                </ul>
+              </div>
+            );
+          })
+        )}
+
+        {result.imageFiles.length > 0 && (
+          <p className="text-xs text-gray-500">
+            As imagens são referenciadas pelos arquivos {result.imageFiles.map(f => f.fileName).join(', ')}. Baixe as imagens e envie-as junto com o arquivo exportado.
+          </p>
+        )}
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+          {result.outputs.map((output, index) => (
+            <button
+              key={output.fileName}
+              onClick={() => downloadFile(output.create(), output.fileName)}
+              className={`flex items-center justify-center gap-2 px-4 py-2 text-white text-sm font-semibold rounded-lg transition ${
+                index > 0 ? 'bg-gray-700 hover:bg-gray-600' : hasMissing ? 'bg-yellow-600 hover:bg-yellow-700' : 'bg-green-600 hover:bg-green-700'
+              }`}
+            >
+              <DownloadIcon className="w-4 h-4" /> {index === 0 && hasMissing ? `${output.label} mesmo assim` : output.label}
+            </button>
+          ))}
+          {result.imageFiles.length > 0 && (
+            <button onClick={handleDownloadImages} className="sm:col-span-2 flex items-center justify-center gap-2 px-4 py-2 bg-indigo-600 text-white text-sm font-semibold rounded-lg hover:bg-indigo-700 transition">
+              <DownloadIcon className="w-4 h-4" /> Baixar Imagens ({result.imageFiles.length})
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import { FieldRevision } from '../types';
+import HistoryIcon from './icons/HistoryIcon';
+
+interface FieldHistoryMenuProps {
+  revisions: FieldRevision[];
+  currentValue: unknown;
+  onRestore: (revision: FieldRevision) => void;
+}
+
+const formatRevisionValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '(vazio)';
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number') return String(value);
+  if (Array.isArray(value)) {
+    return value.map(item => (typeof item === 'object' ? Object.values(item ?? {}).filter(Boolean).join(' / ') : String(item))).join(', ');
+  }
+  return JSON.stringify(value);
+};
+
+const FieldHistoryMenu: React.FC<FieldHistoryMenuProps> = ({ revisions, currentValue, onRestore }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const currentKey = JSON.stringify(currentValue);
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-1 p-1 text-xs text-gray-400 hover:text-white transition opacity-50 group-hover:opacity-100"
+        title="Histórico de versões do campo"
+      >
+        <HistoryIcon className="w-4 h-4" />
+        <span>{revisions.length}</span>
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 top-8 z-20 w-80 max-h-80 overflow-y-auto bg-gray-900 border border-gray-700 rounded-lg shadow-2xl p-2 space-y-2 animate-fade-in">
+          {[...revisions].reverse().map((revision, index) => {
+            const isCurrent = JSON.stringify(revision.value) === currentKey;
+            return (
+              <div key={revisions.length - index} className={`p-2 rounded-md border ${isCurrent ? 'border-indigo-500 bg-indigo-900/20' : 'border-gray-800 bg-gray-800/50'}`}>
+                <div className="flex justify-between items-center mb-1">
+                  <span className={`text-xs font-semibold px-2 py-0.5 rounded-full ${revision.source === 'ai' ? 'bg-purple-600/50 text-purple-200' : 'bg-gray-700 text-gray-300'}`}>
+                    {revision.source === 'ai' ? 'Gerado por IA' : 'Edição manual'}
+                  </span>
+                  <span className="text-xs text-gray-500">{new Date(revision.timestamp).toLocaleTimeString('pt-BR')}</span>
+                </div>
+                <p className="text-xs text-gray-300 line-clamp-3 whitespace-pre-line">{formatRevisionValue(revision.value)}</p>
+                {!isCurrent && (
+                  <button
+                    onClick={() => { onRestore(revision); setIsOpen(false); }}
+                    className="mt-1 text-xs text-indigo-400 hover:text-indigo-300 font-medium"
+                  >
+                    Restaurar esta versão
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FieldHistoryMenu;
@@ -0,0 +1,174 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ProductContent, ProductVariation } from '../types';
+import { ListingField } from '../hooks/useListingStore';
+import { regenerateProductFields } from '../services/geminiService';
+import { getFriendlyErrorMessage } from '../services/errorMessages';
+import { isAbortError } from '../services/abort';
+import { diffWords } from '../services/textDiff';
+import { variationKey } from '../services/variationMatrix';
+import RefreshIcon from './icons/RefreshIcon';
+
+interface FieldRegeneratorProps {
+  content: ProductContent;
+  /** The fields rewritten together, e.g. ['videoScript'] or ['weight', 'dimensions']. */
+  fields: ListingField[];
+  onAccept: (patch: Partial<ProductContent>) => void;
+}
+
+// Labels for the fields that are regenerated as part of a group.
+const FIELD_LABELS: Partial<Record<ListingField, string>> = {
+  category: 'Categoria',
+  brand: 'Marca',
+  weight: 'Peso (kg)',
+  dimensions: 'Dimensões (cm)',
+};
+
+const SUGGESTED_INSTRUCTIONS = ['mais curto', 'mais persuasivo', 'tom mais formal'];
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '';
+  if (typeof value !== 'object') return String(value);
+  if (Array.isArray(value)) {
+    return value.map(formatValue).join(value.every(item => typeof item !== 'object') ? ', ' : '\n');
+  }
+  return Object.values(value).map(formatValue).filter(Boolean).join('\n');
+};
+
+const isSameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+// The model never sees the variation photos and may drop the SKUs, so both are carried
+// over from the current variation with the same color and size.
+const keepVariationReferences = (proposed: ProductVariation[], current: ProductVariation[]): ProductVariation[] => {
+  const currentByKey = new Map(current.map(variation => [variationKey(variation), variation]));
+  return proposed.map(variation => {
+    const previous = currentByKey.get(variationKey(variation));
+    return previous ? { ...variation, sku: previous.sku ?? variation.sku, imageId: previous.imageId } : variation;
+  });
+};
+
+const FieldRegenerator: React.FC<FieldRegeneratorProps> = ({ content, fields, onAccept }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [instruction, setInstruction] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [proposal, setProposal] = useState<Partial<ProductContent> | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const controller = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controller.current?.abort(), []);
+
+  const close = () => {
+    controller.current?.abort();
+    setIsOpen(false);
+    setProposal(null);
+    setError(null);
+  };
+
+  const handleGenerate = async () => {
+    controller.current?.abort();
+    const current = new AbortController();
+    controller.current = current;
+    setIsLoading(true);
+    setProposal(null);
+    setError(null);
+    try {
+      const regenerated = await regenerateProductFields(content, fields, instruction, current.signal);
+      setProposal(regenerated.variations
+        ? { ...regenerated, variations: keepVariationReferences(regenerated.variations, content.variations) }
+        : regenerated);
+    } catch (err) {
+      if (isAbortError(err)) return;
+      setError(getFriendlyErrorMessage(err));
+    } finally {
+      if (controller.current === current) {
+        controller.current = null;
+        setIsLoading(false);
+      }
+    }
+  };
+
+  const handleAccept = () => {
+    if (proposal) onAccept(proposal);
+    close();
+  };
+
+  const hasChanges = proposal !== null && fields.some(field => !isSameValue(content[field], proposal[field]));
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => (isOpen ? close() : setIsOpen(true))}
+        className="p-1 text-gray-400 hover:text-white transition opacity-50 group-hover:opacity-100"
+        title="Regenerar com IA"
+      >
+        <RefreshIcon className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 top-8 z-20 w-[28rem] max-w-[85vw] bg-gray-900 border border-gray-700 rounded-lg shadow-2xl p-3 space-y-3 animate-fade-in">
+          <div>
+            <label className="block text-xs font-medium text-gray-400 mb-1">Instrução (opcional)</label>
+            <input
+              type="text"
+              value={instruction}
+              onChange={(e) => setInstruction(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter' && !isLoading) handleGenerate(); }}
+              placeholder='Ex: "mais curto", "foco em durabilidade"'
+              className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition text-sm"
+            />
+            <div className="flex flex-wrap gap-1 mt-2">
+              {SUGGESTED_INSTRUCTIONS.map(suggestion => (
+                <button key={suggestion} onClick={() => setInstruction(suggestion)} className="px-2 py-0.5 text-xs bg-gray-800 text-gray-300 rounded-full hover:bg-gray-700 transition">
+                  {suggestion}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex gap-2">
+            <button
+              onClick={handleGenerate}
+              disabled={isLoading}
+              className="px-3 py-1.5 bg-indigo-600 text-white text-sm font-semibold rounded-lg hover:bg-indigo-700 disabled:bg-indigo-400 disabled:cursor-not-allowed transition"
+            >
+              {isLoading ? 'Gerando...' : proposal ? 'Gerar outra versão' : 'Regenerar'}
+            </button>
+            <button onClick={close} className="px-3 py-1.5 bg-gray-700 text-white text-sm font-semibold rounded-lg hover:bg-gray-600 transition">
+              {isLoading ? 'Cancelar' : 'Fechar'}
+            </button>
+          </div>
+
+          {error && <p className="text-sm text-red-400">{error}</p>}
+
+          {proposal && (
+            <div className="space-y-3">
+              {fields.map(field => (
+                <div key={field}>
+                  {fields.length > 1 && <p className="text-xs font-semibold text-gray-400 mb-1">{FIELD_LABELS[field] ?? field}</p>}
+                  <p className="text-sm text-gray-300 whitespace-pre-line max-h-60 overflow-y-auto bg-gray-800/60 border border-gray-700 rounded-md p-2">
+                    {diffWords(formatValue(content[field]), formatValue(proposal[field])).map((part, index) => (
+                      <span
+                        key={index}
+                        className={part.type === 'added' ? 'bg-green-700/50 text-green-100' : part.type === 'removed' ? 'bg-red-800/50 text-red-200 line-through' : ''}
+                      >
+                        {part.text}
+                      </span>
+                    ))}
+                  </p>
+                </div>
+              ))}
+              {hasChanges ? (
+                <div className="flex gap-2">
+                  <button onClick={handleAccept} className="px-3 py-1.5 bg-green-600 text-white text-sm font-semibold rounded-lg hover:bg-green-700 transition">Aceitar</button>
+                  <button onClick={() => setProposal(null)} className="px-3 py-1.5 bg-gray-700 text-white text-sm font-semibold rounded-lg hover:bg-gray-600 transition">Rejeitar</button>
+                </div>
+              ) : (
+                <p className="text-xs text-gray-500">A IA retornou o mesmo conteúdo. Tente outra instrução.</p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FieldRegenerator;
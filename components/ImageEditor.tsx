@@ -3,6 +3,34 @@ import React, { useRef, useEffect, useState, useCallback } from 'react';
 import TextIcon from './icons/TextIcon';
 import UploadIcon from './icons/UploadIcon';
 import DownloadIcon from './icons/DownloadIcon';
+import UndoIcon from './icons/UndoIcon';
+import RedoIcon from './icons/RedoIcon';
+import EyeIcon from './icons/EyeIcon';
+import EyeOffIcon from './icons/EyeOffIcon';
+import LockIcon from './icons/LockIcon';
+import TrashIcon from './icons/TrashIcon';
+import { useUndoableState } from '../hooks/useUndoableState';
+import {
+  FONT_FAMILIES,
+  HandleId,
+  LAYER_KIND_LABELS,
+  Layer,
+  LayerOrderMove,
+  Point,
+  STICKERS,
+  TextLayer,
+  createPictureLayer,
+  createShapeLayer,
+  createTextLayer,
+  fitTextBox,
+  handlePositions,
+  hitTestHandles,
+  hitTestLayers,
+  reorderLayers,
+  renderLayers,
+  resizeLayer,
+  rotateLayer,
+} from '../services/imageLayers';
 
 interface ImageEditorProps {
   imageSrc: string;
@@ -10,248 +38,313 @@ interface ImageEditorProps {
   slogan?: string;
 }
 
-interface TextObject {
-  id: number;
-  text: string;
-  x: number;
-  y: number;
-  color: string;
-  size: number;
-  isDragging: boolean;
-  offsetX: number;
-  offsetY: number;
-}
+type DragState =
+  | { mode: 'move'; start: Point; startLayers: Layer[]; ids: Set<string> }
+  | { mode: 'resize'; handle: Exclude<HandleId, 'rotate'>; startLayer: Layer }
+  | { mode: 'rotate'; startLayer: Layer };
 
-interface LogoObject {
-  image: HTMLImageElement;
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-  isDragging: boolean;
-  offsetX: number;
-  offsetY: number;
-}
+const MAX_DIMENSION = 768;
+// Handle sizes in screen pixels, converted to canvas pixels when the canvas is scaled down.
+const HANDLE_RADIUS = 7;
+const ROTATE_HANDLE_OFFSET = 24;
+
+const HANDLE_CURSORS: Record<HandleId, string> = { nw: 'nwse-resize', se: 'nwse-resize', ne: 'nesw-resize', sw: 'nesw-resize', rotate: 'grab' };
 
-const TEMPLATES = [
-    { name: 'None', src: null },
-    { name: 'Sale', src: 'data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iNTEyIiBoZWlnaHQ9IjUxMiIgdmlld0JveD0iMCAwIDUxMiA1MTIiIHhtbG5zPSJodHRwOi8vd3d3LnczLm9yZy8yMDAwL3N2ZyI+PHBhdGggZmlsbD0iI0ZGMzU1NSIgZD0iTTUgNWg1MDJ2MTIwSDV6Ii8+PHRleHQgeD0iNTAlIiB5PSI4MCIgZmlsbD0id2hpdGUiIGZvbnQtc2l6ZT0iNzIiIGZvbnQtZmFtaWx5PSJJbXBhY3QsIHNhbnMtc2VyaWYiIHRleHQtYW5jaG9yPSJtaWRkbGUiIHN0cm9rZT0iYmxhY2siIHN0cm9rZS13aWR0aD0iMiIgcGFpbnQtb3JkZXI9InN0cm9rZSBmaWxsIj5MSVFV SURBw4fDg08hPC90ZXh0Pjwvc3ZnPg==' },
-    { name: 'Frame', src: 'data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iNTEyIiBoZWlnaHQ9IjUxMiIgdmlld0JveD0iMCAwIDUxMiA1MTIiIHhtbG5zPSJodHRwOi8vd3d3LnczLm9yZy8yMDAwL3N2ZyI+PHJlY3Qgd2lkdGg9IjQ5MiIgaGVpZ2h0PSI0OTIiIHg9IjEwIiB5PSIxMCIgZmlsbD0ibm9uZSIgc3Ryb2tlPSJ3aGl0ZSIgc3Ryb2tlLXdpZHRoPSIyMCIvPjwvc3ZnPg==' },
-    { name: 'Corner', src: 'data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iNTEyIiBoZWlnaHQ9IjUxMiIgdmlld0JveD0iMCAwIDUxMiA1MTIiIHhtbG5zPSJodHRwOi8vd3d3LnczLm9yZy8yMDAwL3N2ZyI+PHBhdGggZmlsbD0iIzRGNkFGRiIgZD0iTTUxMiA1MTJWMGwxNDQgMTQ0eiIvPjxjaXJjbGUgY3g9IjQ0MCIgY3k9IjcwIiByPSI0MCIgZmlsbD0iI0ZBN0MyRiIvPjwvc3ZnPg==' },
+const ORDER_MOVES: { move: LayerOrderMove; label: string }[] = [
+  { move: 'front', label: 'Para a frente' },
+  { move: 'forward', label: 'Avançar' },
+  { move: 'backward', label: 'Recuar' },
+  { move: 'back', label: 'Para trás' },
 ];
 
+const inputClass = 'w-full p-2 bg-gray-900 border border-gray-700 rounded-md focus:ring-2 focus:ring-indigo-500 outline-none';
+const smallButtonClass = 'px-2 py-1 bg-gray-700 text-white text-xs font-semibold rounded-md hover:bg-gray-600 disabled:opacity-40 disabled:cursor-not-allowed transition';
+
+const loadImageElement = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Não foi possível carregar a imagem.'));
+    img.src = src;
+  });
+
 const ImageEditor: React.FC<ImageEditorProps> = ({ imageSrc, onClose, slogan }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const logoInputRef = useRef<HTMLInputElement>(null);
-  const [baseImage, setBaseImage] = useState<HTMLImageElement | null>(null);
   const [canvasSize, setCanvasSize] = useState({ width: 512, height: 512 });
-  const [texts, setTexts] = useState<TextObject[]>([]);
-  const [logo, setLogo] = useState<LogoObject | null>(null);
-  const [activeTemplate, setActiveTemplate] = useState<HTMLImageElement | null>(null);
-  const [selectedTextId, setSelectedTextId] = useState<number | null>(null);
+  const history = useUndoableState<Layer[]>([]);
+  const layers = history.value;
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [cursor, setCursor] = useState('default');
+  const dragRef = useRef<DragState | null>(null);
+  const imageCache = useRef(new Map<string, HTMLImageElement>());
+  const [, setLoadedImageCount] = useState(0);
+
+  const selectedLayers = layers.filter(layer => selectedIds.has(layer.id));
+  const singleLayer = selectedLayers.length === 1 ? selectedLayers[0] : null;
+
+  // Images are loaded once per source; the canvas redraws as each one arrives.
+  const getImage = useCallback((src: string): HTMLImageElement | null => {
+    let image = imageCache.current.get(src);
+    if (!image) {
+      image = new Image();
+      image.crossOrigin = 'anonymous';
+      image.onload = () => setLoadedImageCount(count => count + 1);
+      image.src = src;
+      imageCache.current.set(src, image);
+    }
+    return image.complete && image.naturalWidth > 0 ? image : null;
+  }, []);
 
-  // Effect to load the base image and set canvas size
+  // The product photo becomes the bottom layer, locked so that clicks reach the layers above it.
   useEffect(() => {
-    const img = new Image();
-    img.crossOrigin = 'anonymous';
-    img.src = imageSrc;
-    img.onload = () => {
-      const MAX_DIMENSION = 768;
+    let isCurrent = true;
+    loadImageElement(imageSrc).then(img => {
+      if (!isCurrent) return;
       let { width, height } = img;
-
       if (width > MAX_DIMENSION || height > MAX_DIMENSION) {
-        if (width > height) {
-          height = (height * MAX_DIMENSION) / width;
-          width = MAX_DIMENSION;
-        } else {
-          width = (width * MAX_DIMENSION) / height;
-          height = MAX_DIMENSION;
-        }
+        const scale = MAX_DIMENSION / Math.max(width, height);
+        width *= scale;
+        height *= scale;
       }
-      setCanvasSize({ width: Math.round(width), height: Math.round(height) });
-      setBaseImage(img);
-    };
-    img.onerror = () => {
+      const size = { width: Math.round(width), height: Math.round(height) };
+      imageCache.current.set(imageSrc, img);
+      const base = { ...createPictureLayer('image', 'Foto do produto', imageSrc, img, size), locked: true };
+      const initialLayers: Layer[] = slogan ? [base, createTextLayer(slogan, size)] : [base];
+      setCanvasSize(size);
+      history.reset(initialLayers);
+      setSelectedIds(new Set(slogan ? [initialLayers[1].id] : []));
+    }).catch(() => {
       console.error("Failed to load image for editor.");
-    }
+    });
+    return () => { isCurrent = false; };
   }, [imageSrc]);
 
-  // Effect to add initial text if a slogan is provided
-  useEffect(() => {
-    // Only add initial text if a slogan is provided and there's no text yet.
-    if (slogan && baseImage && texts.length === 0) {
-      const newText: TextObject = {
-        id: Date.now(),
-        text: slogan,
-        x: canvasSize.width / 2,
-        y: canvasSize.height / 2,
-        color: '#FFFFFF',
-        size: 40,
-        isDragging: false,
-        offsetX: 0,
-        offsetY: 0,
-      };
-      setTexts([newText]);
-      setSelectedTextId(newText.id);
-    }
-  }, [slogan, baseImage, canvasSize]);
-
+  // Converts screen distances to canvas pixels, since the canvas is shown scaled to fit.
+  const screenToCanvasScale = () => {
+    const canvas = canvasRef.current;
+    if (!canvas) return 1;
+    const rect = canvas.getBoundingClientRect();
+    return rect.width > 0 ? canvas.width / rect.width : 1;
+  };
 
-  const drawCanvas = useCallback(() => {
+  useEffect(() => {
     const canvas = canvasRef.current;
     const ctx = canvas?.getContext('2d');
-    if (!ctx || !canvas || !baseImage) return;
-
-    // Clear canvas before drawing
+    if (!ctx || !canvas) return;
     ctx.clearRect(0, 0, canvas.width, canvas.height);
-
-    // Draw base image
-    ctx.drawImage(baseImage, 0, 0, canvas.width, canvas.height);
-    
-    // Draw template overlay
-    if (activeTemplate) {
-      ctx.drawImage(activeTemplate, 0, 0, canvas.width, canvas.height);
-    }
-
-    // Draw text objects
-    texts.forEach(t => {
-      ctx.font = `${t.size}px Arial`;
-      ctx.fillStyle = t.color;
-      ctx.textAlign = 'center';
-      ctx.textBaseline = 'middle';
-      ctx.fillText(t.text, t.x, t.y);
+    renderLayers(ctx, layers, getImage);
+
+    // Selection overlay; it is only drawn here, never in the downloaded image.
+    const scale = screenToCanvasScale();
+    selectedLayers.forEach(layer => {
+      const handles = handlePositions(layer, ROTATE_HANDLE_OFFSET * scale);
+      const corners = [handles.nw, handles.ne, handles.se, handles.sw];
+      ctx.save();
+      ctx.lineWidth = 1.5 * scale;
+      ctx.setLineDash([6 * scale, 4 * scale]);
+      ctx.strokeStyle = layer.locked ? '#9CA3AF' : '#818CF8';
+      ctx.beginPath();
+      corners.forEach((corner, index) => (index === 0 ? ctx.moveTo(corner.x, corner.y) : ctx.lineTo(corner.x, corner.y)));
+      ctx.closePath();
+      ctx.stroke();
+      if (layer === singleLayer && !layer.locked) {
+        ctx.setLineDash([]);
+        const topCenter = { x: (handles.nw.x + handles.ne.x) / 2, y: (handles.nw.y + handles.ne.y) / 2 };
+        ctx.beginPath();
+        ctx.moveTo(topCenter.x, topCenter.y);
+        ctx.lineTo(handles.rotate.x, handles.rotate.y);
+        ctx.stroke();
+        ctx.fillStyle = '#FFFFFF';
+        [...corners, handles.rotate].forEach(handle => {
+          ctx.beginPath();
+          ctx.arc(handle.x, handle.y, (HANDLE_RADIUS - 2) * scale, 0, Math.PI * 2);
+          ctx.fill();
+          ctx.stroke();
+        });
+      }
+      ctx.restore();
     });
+  });
 
-    // Draw logo
-    if (logo) {
-      ctx.drawImage(logo.image, logo.x, logo.y, logo.width, logo.height);
-    }
-  }, [baseImage, texts, logo, activeTemplate]);
-
-  // Effect to redraw canvas whenever its contents change
-  useEffect(() => {
-    if (baseImage) {
-        drawCanvas();
-    }
-  }, [drawCanvas, canvasSize, baseImage]);
-
-
-  const addText = () => {
-    const newText: TextObject = {
-      id: Date.now(),
-      text: slogan || 'Seu Texto Aqui',
-      x: canvasSize.width / 2,
-      y: canvasSize.height / 2,
-      color: '#FFFFFF',
-      size: 40,
-      isDragging: false,
-      offsetX: 0,
-      offsetY: 0,
+  const toCanvasPoint = (e: React.MouseEvent<HTMLCanvasElement>): Point => {
+    const canvas = canvasRef.current!;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: (e.clientX - rect.left) * (canvas.width / rect.width),
+      y: (e.clientY - rect.top) * (canvas.height / rect.height),
     };
-    setTexts(prev => [...prev, newText]);
-    setSelectedTextId(newText.id);
   };
 
-  const handleLogoUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      const reader = new FileReader();
-      reader.onload = (event) => {
-        const img = new Image();
-        img.onload = () => {
-          const aspectRatio = img.width / img.height;
-          const newWidth = canvasSize.width * 0.25; // 25% of canvas width
-          setLogo({
-            image: img,
-            x: 20,
-            y: 20,
-            width: newWidth,
-            height: newWidth / aspectRatio,
-            isDragging: false,
-            offsetX: 0,
-            offsetY: 0,
-          });
-        };
-        img.src = event.target?.result as string;
-      };
-      reader.readAsDataURL(e.target.files[0]);
-    }
+  const findHandle = (point: Point): HandleId | null => {
+    if (!singleLayer || singleLayer.locked || singleLayer.hidden) return null;
+    const scale = screenToCanvasScale();
+    return hitTestHandles(singleLayer, point, HANDLE_RADIUS * scale, ROTATE_HANDLE_OFFSET * scale);
   };
 
-  const handleTemplateChange = (templateSrc: string | null) => {
-    if (!templateSrc) {
-        setActiveTemplate(null);
-        return;
-    }
-    const img = new Image();
-    img.src = templateSrc;
-    img.onload = () => {
-        setActiveTemplate(img);
+  const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const point = toCanvasPoint(e);
+    const handle = findHandle(point);
+    if (handle && singleLayer) {
+      dragRef.current = handle === 'rotate'
+        ? { mode: 'rotate', startLayer: singleLayer }
+        : { mode: 'resize', handle, startLayer: singleLayer };
+      return;
     }
-  };
 
-  const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-    const rect = canvas.getBoundingClientRect();
-    const scaleX = canvas.width / rect.width;
-    const scaleY = canvas.height / rect.height;
-    const x = (e.clientX - rect.left) * scaleX;
-    const y = (e.clientY - rect.top) * scaleY;
-
-    let foundText = false;
-    setTexts(texts.map(t => {
-        const textWidth = canvas.getContext('2d')!.measureText(t.text).width;
-        if (x > t.x - textWidth / 2 && x < t.x + textWidth / 2 && y > t.y - t.size / 2 && y < t.y + t.size / 2) {
-            setSelectedTextId(t.id);
-            foundText = true;
-            return { ...t, isDragging: true, offsetX: x - t.x, offsetY: y - t.y };
-        }
-        return t;
-    }));
-
-    if (!foundText && logo && x > logo.x && x < logo.x + logo.width && y > logo.y && y < logo.y + logo.height) {
-        setLogo({ ...logo, isDragging: true, offsetX: x - logo.x, offsetY: y - logo.y });
-        setSelectedTextId(null);
+    const hit = hitTestLayers(layers, point);
+    const isToggle = e.shiftKey || e.ctrlKey || e.metaKey;
+    if (!hit) {
+      if (!isToggle) setSelectedIds(new Set());
+      return;
+    }
+    let selection = selectedIds;
+    if (isToggle) {
+      selection = new Set(selectedIds);
+      if (selection.has(hit.id)) selection.delete(hit.id);
+      else selection.add(hit.id);
+    } else if (!selectedIds.has(hit.id)) {
+      selection = new Set([hit.id]);
+    }
+    setSelectedIds(selection);
+    if (selection.has(hit.id)) {
+      dragRef.current = { mode: 'move', start: point, startLayers: layers, ids: selection };
     }
   };
 
   const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-    const rect = canvas.getBoundingClientRect();
-    const scaleX = canvas.width / rect.width;
-    const scaleY = canvas.height / rect.height;
-    const x = (e.clientX - rect.left) * scaleX;
-    const y = (e.clientY - rect.top) * scaleY;
-
-    setTexts(texts.map(t => t.isDragging ? { ...t, x: x - t.offsetX, y: y - t.offsetY } : t));
-    if (logo?.isDragging) {
-        setLogo({ ...logo, x: x - logo.offsetX, y: y - logo.offsetY });
+    const point = toCanvasPoint(e);
+    const drag = dragRef.current;
+    if (!drag) {
+      const handle = findHandle(point);
+      setCursor(handle ? HANDLE_CURSORS[handle] : hitTestLayers(layers, point) ? 'move' : 'default');
+      return;
+    }
+    if (drag.mode === 'move') {
+      const dx = point.x - drag.start.x;
+      const dy = point.y - drag.start.y;
+      history.set(drag.startLayers.map(layer => (drag.ids.has(layer.id) && !layer.locked ? { ...layer, x: layer.x + dx, y: layer.y + dy } : layer)), true);
+      return;
     }
+    const changed = drag.mode === 'resize'
+      ? resizeLayer(drag.startLayer, drag.handle, point, e.shiftKey)
+      : rotateLayer(drag.startLayer, point, e.shiftKey);
+    history.set(layers.map(layer => (layer.id === changed.id ? changed : layer)), true);
   };
 
   const handleMouseUp = () => {
-    setTexts(texts.map(t => ({ ...t, isDragging: false })));
-    if (logo) {
-        setLogo({ ...logo, isDragging: false });
-    }
+    if (!dragRef.current) return;
+    dragRef.current = null;
+    history.commit();
   };
-  
-  const handleDownload = () => {
-    const canvas = canvasRef.current;
-    if (canvas) {
-        const link = document.createElement('a');
-        link.download = 'product-image.png';
-        link.href = canvas.toDataURL('image/png');
-        link.click();
+
+  const addLayer = (layer: Layer) => {
+    history.set([...layers, layer]);
+    setSelectedIds(new Set([layer.id]));
+  };
+
+  const updateSelected = (change: (layer: Layer) => Layer, transient = false) => {
+    history.set(layers.map(layer => (selectedIds.has(layer.id) ? change(layer) : layer)), transient);
+  };
+
+  const updateLayer = (id: string, patch: Partial<Layer>) => {
+    history.set(layers.map(layer => (layer.id === id ? ({ ...layer, ...patch } as Layer) : layer)));
+  };
+
+  // The text box is measured again and stays centered where it was.
+  const updateText = (patch: Partial<TextLayer>, transient = false) => {
+    updateSelected(layer => (layer.kind === 'text' ? fitTextBox({ ...layer, ...patch }) : layer), transient);
+  };
+
+  const removeSelected = () => {
+    const removable = new Set(selectedLayers.filter(layer => !layer.locked).map(layer => layer.id));
+    if (removable.size === 0) return;
+    history.set(layers.filter(layer => !removable.has(layer.id)));
+    setSelectedIds(new Set([...selectedIds].filter(id => !removable.has(id))));
+  };
+
+  const toggleLayerSelection = (id: string, isToggle: boolean) => {
+    if (!isToggle) {
+      setSelectedIds(new Set([id]));
+      return;
     }
+    const next = new Set(selectedIds);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setSelectedIds(next);
+  };
+
+  // Shortcuts run in the capture phase so that undo here does not also undo the listing.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT' || target.isContentEditable)) return;
+      const key = e.key.toLowerCase();
+      if ((e.ctrlKey || e.metaKey) && (key === 'z' || key === 'y')) {
+        e.preventDefault();
+        e.stopPropagation();
+        if (key === 'z' && !e.shiftKey) history.undo();
+        else history.redo();
+      } else if ((e.ctrlKey || e.metaKey) && key === 'a') {
+        e.preventDefault();
+        setSelectedIds(new Set(layers.filter(layer => !layer.locked && !layer.hidden).map(layer => layer.id)));
+      } else if (key === 'delete' || key === 'backspace') {
+        e.preventDefault();
+        removeSelected();
+      } else if (key === 'escape') {
+        setSelectedIds(new Set());
+      } else if (key.startsWith('arrow') && selectedLayers.some(layer => !layer.locked)) {
+        e.preventDefault();
+        const step = e.shiftKey ? 10 : 1;
+        const dx = key === 'arrowleft' ? -step : key === 'arrowright' ? step : 0;
+        const dy = key === 'arrowup' ? -step : key === 'arrowdown' ? step : 0;
+        updateSelected(layer => (layer.locked ? layer : { ...layer, x: layer.x + dx, y: layer.y + dy }));
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  });
+
+  const handleLogoUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      const src = event.target?.result as string;
+      loadImageElement(src).then(img => {
+        imageCache.current.set(src, img);
+        const maxSize = { width: canvasSize.width * 0.25, height: canvasSize.height * 0.25 };
+        const logo = createPictureLayer('image', file.name, src, img, canvasSize, maxSize);
+        addLayer({ ...logo, x: 20 + logo.width / 2, y: 20 + logo.height / 2 });
+      }).catch(err => console.error("Failed to load logo for editor.", err));
+    };
+    reader.readAsDataURL(file);
   };
 
-  const updateSelectedText = (prop: keyof TextObject, value: any) => {
-    setTexts(texts.map(t => t.id === selectedTextId ? { ...t, [prop]: value } : t));
-  }
+  const addSticker = (sticker: { name: string; src: string }) => {
+    loadImageElement(sticker.src).then(img => {
+      imageCache.current.set(sticker.src, img);
+      addLayer(createPictureLayer('sticker', sticker.name, sticker.src, img, canvasSize));
+    }).catch(err => console.error("Failed to load sticker for editor.", err));
+  };
+
+  const handleDownload = () => {
+    // Drawn again without the selection overlay.
+    const canvas = document.createElement('canvas');
+    canvas.width = canvasSize.width;
+    canvas.height = canvasSize.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    renderLayers(ctx, layers, getImage);
+    const link = document.createElement('a');
+    link.download = 'product-image.png';
+    link.href = canvas.toDataURL('image/png');
+    link.click();
+  };
 
-  const selectedText = texts.find(t => t.id === selectedTextId);
+  const opacity = selectedLayers.length > 0 ? Math.round(Math.max(...selectedLayers.map(layer => layer.opacity)) * 100) : 100;
 
   return (
     <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4" onClick={onClose} style={{ backdropFilter: 'blur(8px)' }}>
@@ -259,40 +352,120 @@ const ImageEditor: React.FC<ImageEditorProps> = ({ imageSrc, onClose, slogan })
         {/* Controls */}
         <div className="w-full md:w-80 bg-gray-900 p-4 rounded-lg space-y-4 flex-shrink-0 flex flex-col">
           <div className="flex-grow space-y-4 overflow-y-auto">
-            <h3 className="text-xl font-bold">Editor de Imagem</h3>
-            
+            <div className="flex items-center justify-between">
+                <h3 className="text-xl font-bold">Editor de Imagem</h3>
+                <div className="flex gap-1">
+                    <button onClick={history.undo} disabled={!history.canUndo} className="p-2 text-gray-400 rounded-lg hover:bg-gray-700 hover:text-white disabled:opacity-30 disabled:hover:bg-transparent transition" title="Desfazer (Ctrl+Z)" aria-label="Desfazer">
+                        <UndoIcon className="w-4 h-4" />
+                    </button>
+                    <button onClick={history.redo} disabled={!history.canRedo} className="p-2 text-gray-400 rounded-lg hover:bg-gray-700 hover:text-white disabled:opacity-30 disabled:hover:bg-transparent transition" title="Refazer (Ctrl+Shift+Z)" aria-label="Refazer">
+                        <RedoIcon className="w-4 h-4" />
+                    </button>
+                </div>
+            </div>
+
             <div className="space-y-2">
-                <button onClick={addText} className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-indigo-600 text-white text-sm font-semibold rounded-lg hover:bg-indigo-700 transition"> <TextIcon className="w-4 h-4" /> Adicionar Texto</button>
+                <button onClick={() => addLayer(createTextLayer(slogan || 'Seu Texto Aqui', canvasSize))} className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-indigo-600 text-white text-sm font-semibold rounded-lg hover:bg-indigo-700 transition"> <TextIcon className="w-4 h-4" /> Adicionar Texto</button>
                 <button onClick={() => logoInputRef.current?.click()} className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-purple-600 text-white text-sm font-semibold rounded-lg hover:bg-purple-700 transition"> <UploadIcon className="w-4 h-4" /> Adicionar Logo</button>
                 <input type="file" ref={logoInputRef} onChange={handleLogoUpload} className="hidden" accept="image/*" />
+                <div className="grid grid-cols-2 gap-2">
+                    <button onClick={() => addLayer(createShapeLayer('rect', canvasSize))} className={smallButtonClass}>+ Retângulo</button>
+                    <button onClick={() => addLayer(createShapeLayer('ellipse', canvasSize))} className={smallButtonClass}>+ Elipse</button>
+                </div>
             </div>
 
             <div>
-                <label className="block text-sm font-medium text-gray-400 mb-2">Templates</label>
-                <div className="grid grid-cols-4 sm:grid-cols-2 md:grid-cols-2 gap-2">
-                    {TEMPLATES.map(t => (
-                        <button key={t.name} onClick={() => handleTemplateChange(t.src)} className="aspect-square bg-gray-700 rounded-md hover:ring-2 ring-indigo-500 transition flex items-center justify-center text-xs p-1">
-                            {t.src ? <img src={t.src} alt={t.name} className="object-contain max-h-full" /> : <span>Nenhum</span>}
+                <label className="block text-sm font-medium text-gray-400 mb-2">Adesivos</label>
+                <div className="grid grid-cols-3 gap-2">
+                    {STICKERS.map(sticker => (
+                        <button key={sticker.name} onClick={() => addSticker(sticker)} title={sticker.name} className="aspect-square bg-gray-700 rounded-md hover:ring-2 ring-indigo-500 transition flex items-center justify-center p-1">
+                            <img src={sticker.src} alt={sticker.name} className="object-contain max-h-full" />
                         </button>
                     ))}
                 </div>
             </div>
 
-            {selectedText && (
+            <div>
+                <label className="block text-sm font-medium text-gray-400 mb-2">Camadas</label>
+                <ul className="space-y-1">
+                    {[...layers].reverse().map(layer => (
+                        <li
+                            key={layer.id}
+                            onClick={(e) => toggleLayerSelection(layer.id, e.shiftKey || e.ctrlKey || e.metaKey)}
+                            className={`flex items-center gap-2 px-2 py-1 rounded-md text-sm cursor-pointer ${selectedIds.has(layer.id) ? 'bg-indigo-900/50 ring-1 ring-indigo-500' : 'bg-gray-800 hover:bg-gray-700'} ${layer.hidden ? 'opacity-50' : ''}`}
+                        >
+                            <span className="flex-grow truncate" title={layer.name}>
+                                <span className="text-xs text-gray-500">{LAYER_KIND_LABELS[layer.kind]}</span> {layer.name}
+                            </span>
+                            <button onClick={(e) => { e.stopPropagation(); updateLayer(layer.id, { hidden: !layer.hidden }); }} className="p-1 text-gray-400 hover:text-white transition" title={layer.hidden ? 'Mostrar' : 'Ocultar'}>
+                                {layer.hidden ? <EyeOffIcon className="w-4 h-4" /> : <EyeIcon className="w-4 h-4" />}
+                            </button>
+                            <button onClick={(e) => { e.stopPropagation(); updateLayer(layer.id, { locked: !layer.locked }); }} className={`p-1 transition ${layer.locked ? 'text-yellow-300' : 'text-gray-600 hover:text-gray-300'}`} title={layer.locked ? 'Desbloquear' : 'Bloquear'}>
+                                <LockIcon className="w-4 h-4" />
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+                <p className="mt-1 text-xs text-gray-500">Shift+clique seleciona várias. Camadas bloqueadas não se movem no canvas.</p>
+            </div>
+
+            {selectedLayers.length > 0 && (
                 <div className="bg-gray-800 p-3 rounded-lg space-y-3">
-                    <h4 className="font-semibold">Editar Texto</h4>
-                    <input type="text" value={selectedText.text} onChange={e => updateSelectedText('text', e.target.value)} className="w-full p-2 bg-gray-900 border border-gray-700 rounded-md focus:ring-2 focus:ring-indigo-500 outline-none" />
-                    <div className="flex items-center gap-2">
-                        <label className="text-sm">Cor:</label>
-                        <input type="color" value={selectedText.color} onChange={e => updateSelectedText('color', e.target.value)} className="w-8 h-8 p-0 border-none rounded bg-gray-700 cursor-pointer" />
-                        <label className="text-sm">Tam:</label>
-                        <input type="number" value={selectedText.size} onChange={e => updateSelectedText('size', Number(e.target.value))} className="w-full p-2 bg-gray-900 border border-gray-700 rounded-md focus:ring-2 focus:ring-indigo-500 outline-none" />
+                    <h4 className="font-semibold">{singleLayer ? singleLayer.name : `${selectedLayers.length} camadas`}</h4>
+
+                    {singleLayer?.kind === 'text' && (
+                        <>
+                            <textarea value={singleLayer.text} onChange={e => updateText({ text: e.target.value, name: e.target.value.split('\n')[0] || 'Texto' }, true)} onBlur={history.commit} rows={2} className={inputClass} />
+                            <div className="flex items-center gap-2">
+                                <label className="text-sm">Cor:</label>
+                                <input type="color" value={singleLayer.color} onChange={e => updateText({ color: e.target.value }, true)} onBlur={history.commit} className="w-8 h-8 p-0 border-none rounded bg-gray-700 cursor-pointer flex-shrink-0" />
+                                <label className="text-sm">Tam:</label>
+                                <input type="number" min="4" value={singleLayer.fontSize} onChange={e => updateText({ fontSize: Math.max(4, Number(e.target.value) || 4) }, true)} onBlur={history.commit} className={inputClass} />
+                            </div>
+                            <div className="flex items-center gap-2">
+                                <select value={singleLayer.fontFamily} onChange={e => updateText({ fontFamily: e.target.value })} className={inputClass}>
+                                    {FONT_FAMILIES.map(font => <option key={font} value={font}>{font}</option>)}
+                                </select>
+                                <label className="flex items-center gap-1 text-sm">
+                                    <input type="checkbox" checked={singleLayer.bold} onChange={e => updateText({ bold: e.target.checked })} /> Negrito
+                                </label>
+                            </div>
+                        </>
+                    )}
+
+                    {singleLayer?.kind === 'shape' && (
+                        <div className="flex items-center gap-2">
+                            <label className="text-sm">Preenchimento:</label>
+                            <input type="color" value={singleLayer.fill} onChange={e => updateSelected(layer => (layer.kind === 'shape' ? { ...layer, fill: e.target.value } : layer), true)} onBlur={history.commit} className="w-8 h-8 p-0 border-none rounded bg-gray-700 cursor-pointer" />
+                        </div>
+                    )}
+
+                    <label className="block text-sm">
+                        Opacidade: {opacity}%
+                        <input
+                            type="range"
+                            min="0"
+                            max="100"
+                            value={opacity}
+                            onChange={e => updateSelected(layer => ({ ...layer, opacity: Number(e.target.value) / 100 }), true)}
+                            onPointerUp={history.commit}
+                            onBlur={history.commit}
+                            className="w-full"
+                        />
+                    </label>
+
+                    <div className="grid grid-cols-2 gap-2">
+                        {ORDER_MOVES.map(({ move, label }) => (
+                            <button key={move} onClick={() => history.set(reorderLayers(layers, selectedIds, move))} className={smallButtonClass}>{label}</button>
+                        ))}
                     </div>
-                    <button onClick={() => { setTexts(texts.filter(t => t.id !== selectedTextId)); setSelectedTextId(null); }} className="w-full text-sm text-red-400 hover:text-red-300">Remover Texto</button>
+                    <button onClick={removeSelected} disabled={selectedLayers.every(layer => layer.locked)} className="w-full flex items-center justify-center gap-1 text-sm text-red-400 hover:text-red-300 disabled:opacity-40 disabled:cursor-not-allowed">
+                        <TrashIcon className="w-4 h-4" /> Remover
+                    </button>
                 </div>
             )}
             </div>
-            
+
             <div className="flex-shrink-0 pt-4 border-t border-gray-700">
                 <button onClick={handleDownload} className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-green-600 text-white text-sm font-semibold rounded-lg hover:bg-green-700 transition"> <DownloadIcon className="w-4 h-4" /> Baixar Imagem</button>
             </div>
@@ -304,7 +477,8 @@ const ImageEditor: React.FC<ImageEditorProps> = ({ imageSrc, onClose, slogan })
               ref={canvasRef}
               width={canvasSize.width}
               height={canvasSize.height}
-              className="max-w-full max-h-full object-contain cursor-grab"
+              className="max-w-full max-h-full object-contain"
+              style={{ cursor }}
               onMouseDown={handleMouseDown}
               onMouseMove={handleMouseMove}
               onMouseUp={handleMouseUp}
@@ -0,0 +1,53 @@
+import React, { useMemo, useState } from 'react';
+import { MarketplaceId, ProductContent } from '../types';
+import { MARKETPLACE_PROFILES, findMarketplaceWarnings, getMarketplaceProfile } from '../services/marketplaceProfiles';
+
+interface MarketplaceWarningsProps {
+  content: ProductContent;
+  /** Number of images the listing would be exported with. */
+  imageCount: number;
+  onMarketplaceChange: (marketplace: MarketplaceId) => void;
+}
+
+// Rechecked on every edit, so the warnings disappear as soon as a field fits the rules.
+const MarketplaceWarnings: React.FC<MarketplaceWarningsProps> = ({ content, imageCount, onMarketplaceChange }) => {
+  const [isExpanded, setIsExpanded] = useState(true);
+  const profile = getMarketplaceProfile(content.marketplace);
+  const warnings = useMemo(() => findMarketplaceWarnings(content, profile, imageCount), [content, profile, imageCount]);
+
+  return (
+    <div className={`p-3 rounded-lg border text-sm ${warnings.length > 0 ? 'bg-yellow-900/20 border-yellow-700/60' : 'bg-gray-900/50 border-gray-700'}`}>
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <label htmlFor="listing-marketplace" className="text-gray-400">Marketplace de destino:</label>
+          <select
+            id="listing-marketplace"
+            value={profile.id}
+            onChange={(e) => onMarketplaceChange(e.target.value as MarketplaceId)}
+            className="px-2 py-1 bg-gray-900 border border-gray-700 rounded-md focus:ring-2 focus:ring-indigo-500 outline-none text-sm"
+          >
+            {Object.values(MARKETPLACE_PROFILES).map(option => <option key={option.id} value={option.id}>{option.name}</option>)}
+          </select>
+        </div>
+        {warnings.length > 0 ? (
+          <button onClick={() => setIsExpanded(prev => !prev)} className="text-yellow-300 hover:text-yellow-200 font-medium transition">
+            {warnings.length} {warnings.length === 1 ? 'alerta' : 'alertas'} {isExpanded ? '(ocultar)' : '(mostrar)'}
+          </button>
+        ) : (
+          <span className="text-green-400">Sem alertas para {profile.name}</span>
+        )}
+      </div>
+      {warnings.length > 0 && isExpanded && (
+        <ul className="mt-2 space-y-1">
+          {warnings.map((warning, index) => (
+            <li key={index} className="text-yellow-200">
+              <span className="font-semibold">{warning.field}:</span> {warning.message}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default MarketplaceWarnings;
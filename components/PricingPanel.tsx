@@ -0,0 +1,200 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ProductContent, ProductCosts } from '../types';
+import { formatPrice } from '../services/locales';
+import {
+  PriceBreakdown,
+  PricingSettings,
+  breakEvenPrice,
+  calculatePriceBreakdown,
+  getUnitCost,
+  loadPricingSettings,
+  savePricingSettings,
+  suggestListingPrices,
+} from '../services/pricing';
+
+interface PricingPanelProps {
+  content: ProductContent;
+  onChange: (patch: Partial<ProductContent>) => void;
+  /** Writes the suggested prices back, as a single undo step. */
+  onApplySuggestion: (patch: Partial<ProductContent>) => void;
+}
+
+const inputClass = 'w-full px-2 py-1 bg-gray-900 border border-gray-700 rounded-md focus:ring-2 focus:ring-indigo-500 outline-none text-sm';
+
+const parseAmount = (value: string) => {
+  const amount = Number(value.replace(',', '.'));
+  return Number.isFinite(amount) && amount >= 0 ? amount : 0;
+};
+
+const percentFormatter = new Intl.NumberFormat('pt-BR', { style: 'percent', maximumFractionDigits: 1 });
+
+const NumberInput: React.FC<{ label: string; value: number; onChange: (value: number) => void }> = ({ label, value, onChange }) => (
+  <label className="block">
+    <span className="block text-xs text-gray-400 mb-1">{label}</span>
+    <input type="number" min="0" step="0.01" value={value} onChange={(e) => onChange(parseAmount(e.target.value))} className={inputClass} />
+  </label>
+);
+
+interface PriceRow {
+  key: string;
+  label: string;
+  breakdown: PriceBreakdown;
+  breakEven: number | null;
+  /** Set on variation rows, whose unit cost can be overridden. */
+  variationIndex?: number;
+}
+
+// Everything is recalculated on each keystroke; only the costs are stored with the listing.
+const PricingPanel: React.FC<PricingPanelProps> = ({ content, onChange, onApplySuggestion }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [settings, setSettings] = useState(loadPricingSettings);
+  const costs: ProductCosts = content.costs ?? { unitCost: 0, packagingCost: 0 };
+  const format = (value: number | null) => (value === null ? 'N/A' : formatPrice(value, content.currency, content.locale));
+
+  useEffect(() => {
+    savePricingSettings(settings);
+  }, [settings]);
+
+  const updateSetting = <K extends keyof PricingSettings>(key: K, value: PricingSettings[K]) => {
+    setSettings(prev => ({ ...prev, [key]: value }));
+  };
+
+  const updateVariationCost = (index: number, value: string) => {
+    const variations = [...content.variations];
+    variations[index] = { ...variations[index], unitCost: value === '' ? undefined : parseAmount(value) };
+    onChange({ variations });
+  };
+
+  const rows = useMemo((): PriceRow[] => {
+    const row = (key: string, label: string, price: number, cost: number, variationIndex?: number): PriceRow => ({
+      key, label, variationIndex, breakdown: calculatePriceBreakdown(price, cost, settings), breakEven: breakEvenPrice(cost, settings),
+    });
+    const productCost = getUnitCost(content);
+    const salePrice = content.promotionalPrice || content.price;
+    const result = [row('price', 'Preço cheio', content.price || 0, productCost)];
+    if (content.promotionalPrice) result.push(row('promotionalPrice', 'Preço promocional', content.promotionalPrice, productCost));
+    content.variations.forEach((variation, index) => {
+      const label = [variation.color, variation.size].filter(Boolean).join(' / ') || `Variação ${index + 1}`;
+      result.push(row(`variation-${index}`, label, variation.price ?? salePrice ?? 0, getUnitCost(content, variation), index));
+    });
+    return result;
+  }, [content, settings]);
+
+  const suggestion = useMemo(() => suggestListingPrices(content, settings), [content, settings]);
+  const saleRow = rows.find(row => row.key === 'promotionalPrice') ?? rows[0];
+  const marginColor = (margin: number) =>
+    margin < 0 ? 'text-red-400' : margin < settings.targetMargin / 100 ? 'text-yellow-300' : 'text-green-400';
+
+  return (
+    <div className="bg-gray-900/50 p-4 rounded-lg border border-gray-700 text-sm">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="text-sm font-semibold text-gray-300 uppercase tracking-wider">Custos e Margem</h3>
+        <button onClick={() => setIsExpanded(prev => !prev)} className="text-indigo-400 hover:text-indigo-300 font-medium transition">
+          {content.costs ? (
+            <>Margem no preço de venda: <span className={marginColor(saleRow.breakdown.margin)}>{percentFormatter.format(saleRow.breakdown.margin)}</span> </>
+          ) : 'Informe os custos para calcular a margem '}
+          {isExpanded ? '(ocultar)' : '(mostrar)'}
+        </button>
+      </div>
+      {isExpanded && (
+        <div className="mt-4 space-y-4">
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+            <NumberInput label={`Custo unitário (${content.currency ?? 'BRL'})`} value={costs.unitCost} onChange={(unitCost) => onChange({ costs: { ...costs, unitCost } })} />
+            <NumberInput label={`Embalagem (${content.currency ?? 'BRL'})`} value={costs.packagingCost} onChange={(packagingCost) => onChange({ costs: { ...costs, packagingCost } })} />
+            <NumberInput label="Imposto (%)" value={settings.taxRate} onChange={(value) => updateSetting('taxRate', value)} />
+            <NumberInput label="Margem alvo (%)" value={settings.targetMargin} onChange={(value) => updateSetting('targetMargin', value)} />
+          </div>
+          <fieldset className="p-3 border border-gray-700 rounded-lg">
+            <legend className="px-1 text-xs text-gray-400">Taxas da Shopee (valem para todos os anúncios)</legend>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+              <NumberInput label="Comissão (%)" value={settings.commissionRate} onChange={(value) => updateSetting('commissionRate', value)} />
+              <NumberInput label="Taxa de transação (%)" value={settings.transactionFeeRate} onChange={(value) => updateSetting('transactionFeeRate', value)} />
+              <NumberInput label="Taxa fixa por item" value={settings.fixedFee} onChange={(value) => updateSetting('fixedFee', value)} />
+              <NumberInput label="Teto da comissão (0 = sem teto)" value={settings.commissionCap} onChange={(value) => updateSetting('commissionCap', value)} />
+            </div>
+            <div className="mt-3 flex flex-wrap items-center gap-3">
+              <label className="flex items-center gap-2 text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={settings.freeShippingProgram}
+                  onChange={(e) => updateSetting('freeShippingProgram', e.target.checked)}
+                  className="rounded bg-gray-900 border-gray-600 text-indigo-600 focus:ring-indigo-500"
+                />
+                Programa de Frete Grátis
+              </label>
+              {settings.freeShippingProgram && (
+                <div className="w-40">
+                  <NumberInput label="Adicional de comissão (%)" value={settings.freeShippingSurchargeRate} onChange={(value) => updateSetting('freeShippingSurchargeRate', value)} />
+                </div>
+              )}
+            </div>
+          </fieldset>
+          <div className="overflow-x-auto">
+            <table className="w-full text-left">
+              <thead className="text-xs text-gray-400 uppercase bg-gray-800/50">
+                <tr>
+                  <th className="px-2 py-2"></th>
+                  <th className="px-2 py-2">Preço</th>
+                  <th className="px-2 py-2">Custo unit.</th>
+                  <th className="px-2 py-2">Taxas</th>
+                  <th className="px-2 py-2">Imposto</th>
+                  <th className="px-2 py-2">Lucro</th>
+                  <th className="px-2 py-2">Margem</th>
+                  <th className="px-2 py-2">Markup</th>
+                  <th className="px-2 py-2">Equilíbrio</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(({ key, label, breakdown, breakEven, variationIndex }) => (
+                  <tr key={key} className="border-b border-gray-800">
+                    <td className="px-2 py-2 text-gray-300">{label}</td>
+                    <td className="px-2 py-2 text-gray-200">{format(breakdown.price)}</td>
+                    <td className="px-2 py-2 text-gray-400">
+                      {variationIndex === undefined ? format(breakdown.cost) : (
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          placeholder={String(costs.unitCost)}
+                          title="Custo unitário desta variação; vazio usa o do produto"
+                          value={content.variations[variationIndex].unitCost ?? ''}
+                          onChange={(e) => updateVariationCost(variationIndex, e.target.value)}
+                          className={`${inputClass} w-24`}
+                        />
+                      )}
+                    </td>
+                    <td className="px-2 py-2 text-gray-400">{format(breakdown.fees)}</td>
+                    <td className="px-2 py-2 text-gray-400">{format(breakdown.tax)}</td>
+                    <td className={`px-2 py-2 ${marginColor(breakdown.margin)}`}>{format(breakdown.profit)}</td>
+                    <td className={`px-2 py-2 font-semibold ${marginColor(breakdown.margin)}`}>{percentFormatter.format(breakdown.margin)}</td>
+                    <td className="px-2 py-2 text-gray-400">{breakdown.markup === null ? 'N/A' : `${breakdown.markup.toFixed(2)}x`}</td>
+                    <td className="px-2 py-2 text-gray-400">{format(breakEven)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {suggestion ? (
+            <div className="flex flex-wrap items-center justify-between gap-3 p-3 bg-indigo-900/20 border border-indigo-700/50 rounded-lg">
+              <p className="text-gray-300">
+                Para {settings.targetMargin}% de margem: preço {format(suggestion.price ?? content.price)}
+                {suggestion.promotionalPrice !== undefined && <>, promocional {format(suggestion.promotionalPrice)}</>}
+                {suggestion.variations && <> e novos preços nas variações com preço ou custo próprio</>}.
+              </p>
+              <button
+                onClick={() => onApplySuggestion(suggestion)}
+                className="px-3 py-1.5 bg-indigo-600 text-white text-xs font-semibold rounded-md hover:bg-indigo-700 transition"
+              >
+                Aplicar preços sugeridos
+              </button>
+            </div>
+          ) : (
+            <p className="text-red-400">Com essas taxas e impostos, nenhum preço alcança {settings.targetMargin}% de margem.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PricingPanel;
@@ -2,90 +2,48 @@ import React, { useState, useRef, useCallback, useEffect } from 'react';
 import UploadIcon from './icons/UploadIcon';
 import SparklesIcon from './icons/SparklesIcon';
 import { GenerationStep } from '../App';
+import { resizeImage } from '../services/imageUtils';
+import BatchPanel from './BatchPanel';
+import { BatchQueueStore } from '../hooks/useBatchQueue';
+import { PipelineInput } from '../services/productPipeline';
+import { loadBrandProfiles, loadSelectedBrandProfileId, saveSelectedBrandProfileId } from '../services/brandProfiles';
+import { DEFAULT_LOCALE, LISTING_LOCALES } from '../services/locales';
+import { MARKETPLACE_PROFILES, loadSelectedMarketplace, saveSelectedMarketplace } from '../services/marketplaceProfiles';
+import { ListingLocale, MarketplaceId } from '../types';
 
 interface ProductInputProps {
-  onGenerate: (image: File | null, title: string, imagePrompt?: string) => void;
+  onGenerate: (input: PipelineInput) => void;
   generationStep: GenerationStep;
+  onCancel: () => void;
+  onOpenLibraryEntry: (id: string) => void;
+  batch: BatchQueueStore;
 }
 
-// Utility function to resize images client-side for performance.
-const resizeImage = (file: File, maxDimension: number): Promise<File> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.readAsDataURL(file);
-    reader.onload = (event) => {
-      if (!event.target?.result) {
-          return reject(new Error("Failed to read file."));
-      }
-      const img = new Image();
-      img.src = event.target.result as string;
-      img.onload = () => {
-        const { width, height } = img;
+type InputMode = 'upload' | 'generate' | 'batch';
 
-        // If the image is already small enough, no need to resize.
-        if (width <= maxDimension && height <= maxDimension) {
-          return resolve(file);
-        }
-
-        let newWidth, newHeight;
-
-        if (width > height) {
-          newWidth = maxDimension;
-          newHeight = (height * maxDimension) / width;
-        } else {
-          newHeight = maxDimension;
-          newWidth = (width * maxDimension) / height;
-        }
-
-        const canvas = document.createElement('canvas');
-        canvas.width = newWidth;
-        canvas.height = newHeight;
-        const ctx = canvas.getContext('2d');
-
-        if (!ctx) {
-          return reject(new Error('Could not get canvas context'));
-        }
+const selectClass = 'px-3 py-1.5 bg-gray-900 border border-gray-700 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition text-sm disabled:opacity-50';
 
-        ctx.drawImage(img, 0, 0, newWidth, newHeight);
-
-        // Convert canvas to blob, then to file.
-        canvas.toBlob((blob) => {
-          if (!blob) {
-            return reject(new Error('Canvas to Blob conversion failed'));
-          }
-          // Preserve the original file name, but use a more common type for web.
-          const outputType = 'image/jpeg';
-          const resizedFile = new File([blob], file.name, {
-            type: outputType,
-            lastModified: Date.now(),
-          });
-          resolve(resizedFile);
-        }, 'image/jpeg', 0.9); // Use JPEG with 90% quality for good compression.
-      };
-      img.onerror = (err) => reject(err);
-    };
-    reader.onerror = (err) => reject(err);
-  });
-};
-
-
-const ProductInput: React.FC<ProductInputProps> = ({ onGenerate, generationStep }) => {
+const ProductInput: React.FC<ProductInputProps> = ({ onGenerate, generationStep, onCancel, onOpenLibraryEntry, batch }) => {
   const [imageFile, setImageFile] = useState<File | null>(null);
   const [imagePreview, setImagePreview] = useState<string | null>(null);
   const [title, setTitle] = useState<string>('');
   const [isDragging, setIsDragging] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const [mode, setMode] = useState<'upload' | 'generate'>('upload');
+  const [mode, setMode] = useState<InputMode>('upload');
   const [imagePrompt, setImagePrompt] = useState('');
   const [imageUrl, setImageUrl] = useState('');
   const [isUrlLoading, setIsUrlLoading] = useState(false);
-
+  const [brandProfiles] = useState(loadBrandProfiles);
+  const [brandProfileId, setBrandProfileId] = useState(loadSelectedBrandProfileId);
+  const brandProfile = brandProfiles.find(profile => profile.id === brandProfileId) ?? null;
+  const [locale, setLocale] = useState<ListingLocale>(DEFAULT_LOCALE);
+  const [marketplace, setMarketplace] = useState<MarketplaceId>(loadSelectedMarketplace);
 
   const isLoading = generationStep === 'base_image' || generationStep === 'content' || generationStep === 'images';
 
-  const switchMode = useCallback((newMode: 'upload' | 'generate') => {
+  const switchMode = useCallback((newMode: InputMode) => {
     if (isLoading) return; // Prevent switching while loading.
-    if (newMode === 'generate') {
+    if (newMode !== 'upload') {
       setImageFile(null);
       setImagePreview(null);
       setImageUrl('');
@@ -112,13 +70,13 @@ const ProductInput: React.FC<ProductInputProps> = ({ onGenerate, generationStep
         reader.readAsDataURL(resizedFile);
         
         // --- AUTOMATIC GENERATION TRIGGER ---
-        onGenerate(resizedFile, title, undefined);
+        onGenerate({ image: resizedFile, keywords: title, brandProfile, locale, marketplace });
 
     } catch (error) {
         console.error("Error processing image:", error);
         alert("Houve um erro ao processar a imagem. Por favor, tente um arquivo ou URL diferente.");
     }
-  }, [onGenerate, title, mode]);
+  }, [onGenerate, title, mode, brandProfile, locale, marketplace]);
 
 
   const handleFileChange = useCallback(async (files: FileList | null) => {
@@ -199,20 +157,83 @@ const ProductInput: React.FC<ProductInputProps> = ({ onGenerate, generationStep
                     <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
                 </svg>
                 <p className="text-lg font-semibold">{getGenerationStatusText()}</p>
+                <button
+                  onClick={onCancel}
+                  className="mt-4 px-4 py-2 bg-gray-700 text-white text-sm font-semibold rounded-lg hover:bg-red-600 transition"
+                >
+                  Cancelar
+                </button>
             </div>
         )}
 
       <h2 className="text-xl sm:text-2xl font-bold mb-4 text-gray-100">1. Envie seu Produto</h2>
-      
+
+      <div className="flex flex-wrap items-center justify-center gap-x-6 gap-y-2 mb-4">
+        <div className="flex items-center gap-2">
+          <label htmlFor="listingLocale" className="text-sm font-medium text-gray-400">Idioma:</label>
+          <select
+            id="listingLocale"
+            value={locale}
+            onChange={(e) => setLocale(e.target.value as ListingLocale)}
+            disabled={isLoading}
+            className={selectClass}
+          >
+            {LISTING_LOCALES.map(definition => <option key={definition.id} value={definition.id}>{definition.name}</option>)}
+          </select>
+        </div>
+        <div className="flex items-center gap-2">
+          <label htmlFor="marketplace" className="text-sm font-medium text-gray-400">Marketplace:</label>
+          <select
+            id="marketplace"
+            value={marketplace}
+            onChange={(e) => {
+              setMarketplace(e.target.value as MarketplaceId);
+              saveSelectedMarketplace(e.target.value as MarketplaceId);
+            }}
+            disabled={isLoading}
+            className={selectClass}
+          >
+            {Object.values(MARKETPLACE_PROFILES).map(profile => <option key={profile.id} value={profile.id}>{profile.name}</option>)}
+          </select>
+        </div>
+        {brandProfiles.length > 0 && (
+          <div className="flex items-center gap-2">
+            <label htmlFor="brandProfile" className="text-sm font-medium text-gray-400">Perfil de marca:</label>
+            <select
+              id="brandProfile"
+              value={brandProfile?.id ?? ''}
+              onChange={(e) => {
+                setBrandProfileId(e.target.value || null);
+                saveSelectedBrandProfileId(e.target.value || null);
+              }}
+              disabled={isLoading}
+              className={selectClass}
+            >
+              <option value="">Nenhum (tom padrão)</option>
+              {brandProfiles.map(profile => <option key={profile.id} value={profile.id}>{profile.name}</option>)}
+            </select>
+          </div>
+        )}
+      </div>
+
       <div className="flex bg-gray-900 border border-gray-700 rounded-lg p-1 max-w-sm mx-auto mb-6">
-        <button onClick={() => switchMode('upload')} className={`w-1/2 py-2 text-sm font-semibold rounded-md transition ${mode === 'upload' ? 'bg-indigo-600 text-white' : 'text-gray-400 hover:bg-gray-700'}`}>
+        <button onClick={() => switchMode('upload')} className={`w-1/3 py-2 text-sm font-semibold rounded-md transition ${mode === 'upload' ? 'bg-indigo-600 text-white' : 'text-gray-400 hover:bg-gray-700'}`}>
           Enviar Imagem
         </button>
-        <button onClick={() => switchMode('generate')} className={`w-1/2 py-2 text-sm font-semibold rounded-md transition ${mode === 'generate' ? 'bg-indigo-600 text-white' : 'text-gray-400 hover:bg-gray-700'}`}>
+        <button onClick={() => switchMode('generate')} className={`w-1/3 py-2 text-sm font-semibold rounded-md transition ${mode === 'generate' ? 'bg-indigo-600 text-white' : 'text-gray-400 hover:bg-gray-700'}`}>
           Gerar com IA
         </button>
+        <button onClick={() => switchMode('batch')} className={`w-1/3 py-2 text-sm font-semibold rounded-md transition ${mode === 'batch' ? 'bg-indigo-600 text-white' : 'text-gray-400 hover:bg-gray-700'}`}>
+          Lote
+        </button>
+      </div>
+
+      {/* Kept mounted while hidden so the batch keywords survive switching tabs. */}
+      <div className={mode === 'batch' ? '' : 'hidden'}>
+        <BatchPanel batch={batch} onOpenEntry={onOpenLibraryEntry} brandProfile={brandProfile} locale={locale} marketplace={marketplace} />
       </div>
 
+      {mode !== 'batch' && (
       <div className="space-y-6">
         {mode === 'upload' ? (
           <div className="animate-fade-in">
@@ -302,7 +323,7 @@ const ProductInput: React.FC<ProductInputProps> = ({ onGenerate, generationStep
                         alert('Por favor, descreva a imagem que você deseja criar.');
                         return;
                     }
-                    onGenerate(null, title, imagePrompt);
+                    onGenerate({ image: null, keywords: title, imagePrompt, brandProfile, locale, marketplace });
                 }}
                 disabled={isLoading}
                 className="w-full flex items-center justify-center gap-2 px-6 py-3 bg-indigo-600 text-white font-semibold rounded-lg hover:bg-indigo-700 disabled:bg-indigo-400 disabled:cursor-not-allowed transition-colors duration-300 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-indigo-500"
@@ -328,6 +349,7 @@ const ProductInput: React.FC<ProductInputProps> = ({ onGenerate, generationStep
           />
         </div>
       </div>
+      )}
     </section>
   );
 };
@@ -0,0 +1,163 @@
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { LibraryEntry } from '../types';
+import { listLibraryEntries, deleteLibraryEntry } from '../services/libraryService';
+import TrashIcon from './icons/TrashIcon';
+import ImageIcon from './icons/ImageIcon';
+
+interface ProductLibraryProps {
+  onOpenEntry: (id: string) => void;
+  onBackToApp: () => void;
+}
+
+type DateFilter = 'all' | '7d' | '30d';
+type SortOrder = 'recent' | 'oldest' | 'name';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const normalize = (text: string) => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+const ProductLibrary: React.FC<ProductLibraryProps> = ({ onOpenEntry, onBackToApp }) => {
+  const [entries, setEntries] = useState<LibraryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+  const [category, setCategory] = useState('');
+  const [dateFilter, setDateFilter] = useState<DateFilter>('all');
+  const [sortOrder, setSortOrder] = useState<SortOrder>('recent');
+
+  const loadEntries = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setEntries(await listLibraryEntries());
+      setError(null);
+    } catch (err) {
+      console.error("Failed to load the product library:", err);
+      setError('Não foi possível abrir a biblioteca. O armazenamento do navegador pode estar desativado.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadEntries();
+  }, [loadEntries]);
+
+  const categories = useMemo(
+    () => [...new Set(entries.map(e => e.content.category).filter(Boolean))].sort(),
+    [entries]
+  );
+
+  const filteredEntries = useMemo(() => {
+    const query = normalize(search.trim());
+    const now = Date.now();
+    const result = entries.filter(entry => {
+      if (category && entry.content.category !== category) return false;
+      if (dateFilter === '7d' && now - entry.createdAt > 7 * DAY_MS) return false;
+      if (dateFilter === '30d' && now - entry.createdAt > 30 * DAY_MS) return false;
+      if (!query) return true;
+      const haystack = normalize([
+        entry.content.name,
+        entry.content.description,
+        entry.content.sku || '',
+        entry.content.brand || '',
+        entry.keywords,
+        ...entry.content.keywords,
+      ].join(' '));
+      return haystack.includes(query);
+    });
+
+    return result.sort((a, b) => {
+      if (sortOrder === 'oldest') return a.createdAt - b.createdAt;
+      if (sortOrder === 'name') return a.content.name.localeCompare(b.content.name, 'pt-BR');
+      return b.updatedAt - a.updatedAt;
+    });
+  }, [entries, search, category, dateFilter, sortOrder]);
+
+  const handleDelete = async (entry: LibraryEntry) => {
+    if (!confirm(`Excluir "${entry.content.name}" da biblioteca?`)) return;
+    try {
+      await deleteLibraryEntry(entry.id);
+      setEntries(prev => prev.filter(e => e.id !== entry.id));
+    } catch (err) {
+      console.error("Failed to delete library entry:", err);
+      alert('Não foi possível excluir o produto.');
+    }
+  };
+
+  const selectClassName = 'px-3 py-2 bg-gray-900 border border-gray-700 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition text-sm';
+
+  return (
+    <section className="w-full max-w-6xl mx-auto p-4 sm:p-6 bg-gray-800/50 rounded-2xl border border-gray-700 backdrop-blur-sm animate-fade-in">
+      <div className="flex flex-wrap justify-between items-center gap-3 mb-6">
+        <h2 className="text-xl sm:text-2xl font-bold text-gray-100">Biblioteca de Produtos</h2>
+        <button onClick={onBackToApp} className="text-sm text-indigo-400 hover:underline">Voltar para a aplicação</button>
+      </div>
+
+      <div className="flex flex-col md:flex-row gap-2 mb-6">
+        <input
+          type="search"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Buscar por nome, SKU, marca ou palavra-chave"
+          className="flex-grow px-4 py-2 bg-gray-900 border border-gray-700 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition"
+        />
+        <select value={category} onChange={(e) => setCategory(e.target.value)} className={selectClassName}>
+          <option value="">Todas as categorias</option>
+          {categories.map(c => <option key={c} value={c}>{c}</option>)}
+        </select>
+        <select value={dateFilter} onChange={(e) => setDateFilter(e.target.value as DateFilter)} className={selectClassName}>
+          <option value="all">Qualquer data</option>
+          <option value="7d">Últimos 7 dias</option>
+          <option value="30d">Últimos 30 dias</option>
+        </select>
+        <select value={sortOrder} onChange={(e) => setSortOrder(e.target.value as SortOrder)} className={selectClassName}>
+          <option value="recent">Mais recentes</option>
+          <option value="oldest">Mais antigos</option>
+          <option value="name">Nome (A-Z)</option>
+        </select>
+      </div>
+
+      {isLoading ? (
+        <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-4">
+          {Array.from({ length: 4 }, (_, i) => <div key={i} className="aspect-square bg-gray-700 rounded-lg animate-pulse"></div>)}
+        </div>
+      ) : error ? (
+        <div className="text-center text-red-400 bg-red-900/50 p-4 rounded-lg">{error}</div>
+      ) : filteredEntries.length === 0 ? (
+        <div className="text-center text-gray-500 py-12">
+          {entries.length === 0 ? 'Nenhum produto salvo ainda. Cada geração é salva aqui automaticamente.' : 'Nenhum produto encontrado com esses filtros.'}
+        </div>
+      ) : (
+        <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-4">
+          {filteredEntries.map(entry => (
+            <div key={entry.id} className="group relative bg-gray-900/50 rounded-lg border border-gray-700 hover:border-indigo-500 transition overflow-hidden">
+              <button onClick={() => onOpenEntry(entry.id)} className="block w-full text-left">
+                {entry.thumbnail ? (
+                  <img src={entry.thumbnail} alt={entry.content.name} className="aspect-square w-full object-cover" />
+                ) : (
+                  <div className="aspect-square w-full bg-gray-800 flex items-center justify-center text-gray-600">
+                    <ImageIcon className="w-10 h-10" />
+                  </div>
+                )}
+                <div className="p-3">
+                  <h3 className="text-sm font-semibold text-gray-200 line-clamp-2">{entry.content.name}</h3>
+                  <p className="text-xs text-gray-500 mt-1">{entry.content.category}</p>
+                  <p className="text-xs text-gray-600 mt-1">{new Date(entry.updatedAt).toLocaleString('pt-BR')}</p>
+                </div>
+              </button>
+              <button
+                onClick={() => handleDelete(entry)}
+                className="absolute top-2 right-2 p-2 bg-gray-900/80 rounded-full text-gray-400 hover:text-red-400 transition opacity-0 group-hover:opacity-100"
+                aria-label="Excluir produto"
+              >
+                <TrashIcon className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default ProductLibrary;
@@ -1,12 +1,31 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { ProductContent, ProductVariation, GeneratedProductImage } from '../types';
+import { ListingStore, ListingField } from '../hooks/useListingStore';
 import CopyIcon from './icons/CopyIcon';
 import CheckIcon from './icons/CheckIcon';
 import TrashIcon from './icons/TrashIcon';
 import { GenerationStep } from '../App';
 import ImageEditor from './ImageEditor';
+import ExportDialog from './ExportDialog';
+import TranslateDialog from './TranslateDialog';
+import FieldHistoryMenu from './FieldHistoryMenu';
+import FieldRegenerator from './FieldRegenerator';
+import VariantPicker from './VariantPicker';
+import MarketplaceWarnings from './MarketplaceWarnings';
+import CompliancePanel from './CompliancePanel';
+import SeoPanel from './SeoPanel';
+import PricingPanel from './PricingPanel';
+import ShippingPanel from './ShippingPanel';
+import VariationMatrixBuilder from './VariationMatrixBuilder';
+import SkuEditor from './SkuEditor';
 import ImageIcon from './icons/ImageIcon';
 import LinkIcon from './icons/LinkIcon';
+import DownloadIcon from './icons/DownloadIcon';
+import UndoIcon from './icons/UndoIcon';
+import RedoIcon from './icons/RedoIcon';
+import { formatPrice } from '../services/locales';
+import { findDuplicateVariations, variationKey } from '../services/variationMatrix';
+import { useVariationImages } from '../hooks/useVariationImages';
 
 // Tab Icons
 import GridIcon from './icons/GridIcon';
@@ -16,14 +35,25 @@ import CubeIcon from './icons/CubeIcon';
 
 // New Icons for Info Cards
 import SparklesIcon from './icons/SparklesIcon';
+import RefreshIcon from './icons/RefreshIcon';
 
 
 interface ProductOutputProps {
-  content: ProductContent | null;
+  listing: ListingStore;
   generationStep: GenerationStep;
   error: string | null;
   generatedImage: GeneratedProductImage;
   generatedMockups: string[];
+  /** Recolored product photos, by the `imageId` of the variations showing them. */
+  variationImages: Record<string, string>;
+  /** Stores a new variation photo with the listing images. */
+  onVariationImage: (imageId: string, image: string) => void;
+  /** The fields received so far while the content is streaming. */
+  partialContent?: Partial<ProductContent> | null;
+  /** Library entry the listing is saved as, if any. */
+  entryId: string | null;
+  /** Receives the listing translated into another language, to be saved as a new product. */
+  onTranslated: (content: ProductContent) => void;
 }
 
 type TabName = 'overview' | 'images' | 'marketing' | 'seo' | 'data';
@@ -46,17 +76,21 @@ const InfoCard: React.FC<{
   copyText?: string;
   children: React.ReactNode;
   className?: string;
-}> = ({ title, copyText, children, className = '' }) => {
+  actions?: React.ReactNode;
+}> = ({ title, copyText, children, className = '', actions }) => {
   const { copied, copy } = useCopyToClipboard(copyText || '');
   return (
     <div className={`relative bg-gray-900/50 p-4 rounded-lg border border-gray-700 hover:border-indigo-500 transition-all duration-300 group ${className}`}>
         <div className="flex justify-between items-center mb-2">
             <h3 className="text-sm font-semibold text-gray-300 uppercase tracking-wider">{title}</h3>
-            {copyText && (
-                <button onClick={copy} className="p-1 text-gray-400 hover:text-white transition opacity-50 group-hover:opacity-100">
-                    {copied ? <CheckIcon className="w-5 h-5 text-green-500" /> : <CopyIcon className="w-5 h-5" />}
-                </button>
-            )}
+            <div className="flex items-center gap-1">
+                {actions}
+                {copyText && (
+                    <button onClick={copy} className="p-1 text-gray-400 hover:text-white transition opacity-50 group-hover:opacity-100">
+                        {copied ? <CheckIcon className="w-5 h-5 text-green-500" /> : <CopyIcon className="w-5 h-5" />}
+                    </button>
+                )}
+            </div>
         </div>
         <div>{children}</div>
     </div>
@@ -91,6 +125,64 @@ const SkeletonLoader: React.FC<{ className?: string }> = ({ className = 'h-4' })
   <div className={`bg-gray-700 rounded animate-pulse ${className}`}></div>
 );
 
+// A read-only card that shows a skeleton until its field has fully arrived.
+const StreamingCard: React.FC<{ title: string; value: unknown; skeletonClassName?: string; children: React.ReactNode }> = ({ title, value, skeletonClassName = 'h-6 w-full', children }) => (
+  <InfoCard title={title}>
+    {value === undefined ? <SkeletonLoader className={skeletonClassName} /> : <div className="animate-fade-in">{children}</div>}
+  </InfoCard>
+);
+
+// Fills the overview card by card while the content streams in; editing starts once it is complete.
+const StreamingPreview: React.FC<{ partial: Partial<ProductContent> }> = ({ partial }) => (
+  <div className="space-y-6 mt-6">
+    <StreamingCard title="Nome do Produto" value={partial.name}>
+      <p className="text-lg font-semibold text-gray-100">{partial.name}</p>
+    </StreamingCard>
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+      <StreamingCard title={`Preço Competitivo (${partial.currency ?? 'BRL'})`} value={partial.price}>
+        <p className="text-gray-200">{formatPrice(partial.price, partial.currency, partial.locale)}</p>
+      </StreamingCard>
+      <StreamingCard title={`Preço Promocional (${partial.currency ?? 'BRL'})`} value={partial.promotionalPrice}>
+        <p className="text-gray-200">{formatPrice(partial.promotionalPrice, partial.currency, partial.locale)}</p>
+      </StreamingCard>
+    </div>
+    <StreamingCard title="Descrição Persuasiva" value={partial.description} skeletonClassName="h-40 w-full">
+      <p className="text-gray-300 whitespace-pre-line">{partial.description}</p>
+    </StreamingCard>
+    <StreamingCard title="Slogan Promocional" value={partial.promotionalSlogan}>
+      <p className="text-lg italic text-indigo-300">"{partial.promotionalSlogan}"</p>
+    </StreamingCard>
+    <StreamingCard title="Palavras-chave" value={partial.keywords}>
+      <div className="flex flex-wrap gap-2">
+        {(partial.keywords ?? []).map((tag, index) => (
+          <span key={index} className="px-3 py-1 bg-indigo-600/50 text-indigo-200 text-sm font-medium rounded-full">{tag}</span>
+        ))}
+      </div>
+    </StreamingCard>
+    <StreamingCard title="Hashtags" value={partial.hashtags}>
+      <div className="flex flex-wrap gap-2">
+        {(partial.hashtags ?? []).map((tag, index) => (
+          <span key={index} className="px-3 py-1 bg-cyan-600/50 text-cyan-200 text-sm font-medium rounded-full">#{tag.replace(/#/g, '')}</span>
+        ))}
+      </div>
+    </StreamingCard>
+    <StreamingCard title="Post para Redes Sociais (Instagram/Facebook)" value={partial.socialMediaPost} skeletonClassName="h-24 w-full">
+      <p className="text-gray-300 whitespace-pre-line">{partial.socialMediaPost}</p>
+    </StreamingCard>
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+      <StreamingCard title="Meta Title" value={partial.metaTitle}>
+        <p className="text-gray-300">{partial.metaTitle}</p>
+      </StreamingCard>
+      <StreamingCard title="URL Amigável (Slug)" value={partial.slug}>
+        <p className="text-gray-300 font-mono text-sm">{partial.slug}</p>
+      </StreamingCard>
+    </div>
+    <StreamingCard title="Meta Description" value={partial.metaDescription}>
+      <p className="text-gray-400">{partial.metaDescription}</p>
+    </StreamingCard>
+  </div>
+);
+
 const ImageResult: React.FC<{
   title: string;
   imageSrc: string | null;
@@ -141,21 +233,53 @@ const ImageResult: React.FC<{
 };
 
 
-const ProductOutput: React.FC<ProductOutputProps> = ({ content: initialContent, generationStep, error, generatedImage, generatedMockups }) => {
-  const [content, setContent] = useState<ProductContent | null>(initialContent);
-  const [variations, setVariations] = useState<ProductVariation[]>([]);
+const ProductOutput: React.FC<ProductOutputProps> = ({ listing, generationStep, error, generatedImage, generatedMockups, variationImages: variationPhotos, onVariationImage, partialContent, entryId, onTranslated }) => {
+  const { content, fieldHistory, updateField, updateFields, restoreRevision, undo, redo, canUndo, canRedo } = listing;
+  const variations = content?.variations || [];
   const [editorConfig, setEditorConfig] = useState<{isOpen: boolean; image: string | null; defaultText?: string}>({isOpen: false, image: null});
   const [activeTab, setActiveTab] = useState<TabName>('overview');
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [isTranslateOpen, setIsTranslateOpen] = useState(false);
+  const variationImages = useVariationImages(content, generatedImage, variationPhotos, entryId, onVariationImage, (newVariations) => updateFields({ variations: newVariations }, 'ai'));
   
+  // Ctrl+Z / Ctrl+Shift+Z (or Ctrl+Y) undo and redo listing edits while no text field has focus.
   useEffect(() => {
-    setContent(initialContent);
-    setVariations(initialContent?.variations || []);
-  }, [initialContent]);
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  const handleContentChange = <K extends ListingField>(field: K, value: ProductContent[K]) => {
+    updateField(field, value);
+  };
 
-  const handleContentChange = (field: keyof ProductContent, value: any) => {
-    if (content) {
-      setContent({ ...content, [field]: value });
-    }
+  const setVariations = (newVariations: ProductVariation[]) => {
+    updateField('variations', newVariations);
+  };
+
+  // Shows the revision log of a field once it has been edited at least once.
+  const historyFor = (field: ListingField) => {
+    const revisions = fieldHistory[field];
+    if (!content || !revisions || revisions.length < 2) return null;
+    return <FieldHistoryMenu revisions={revisions} currentValue={content[field]} onRestore={(revision) => restoreRevision(field, revision)} />;
+  };
+
+  // Rewrites a field or group with the AI; accepting the proposal is a single undo step.
+  const regenerateFor = (fields: ListingField[]) => {
+    if (!content) return null;
+    return <FieldRegenerator content={content} fields={fields} onAccept={(patch) => updateFields(patch, 'ai')} />;
   };
 
   const handleVariationChange = (index: number, field: keyof ProductVariation, value: string) => {
@@ -168,6 +292,8 @@ const ProductOutput: React.FC<ProductOutputProps> = ({ content: initialContent,
     } else {
         (updatedVariation as any)[field] = value;
     }
+    // The photo was recolored for the previous color.
+    if (field === 'color') delete updatedVariation.imageId;
     
     newVariations[index] = updatedVariation;
     setVariations(newVariations);
@@ -180,6 +306,10 @@ const ProductOutput: React.FC<ProductOutputProps> = ({ content: initialContent,
   const removeVariation = (index: number) => {
     setVariations(variations.filter((_, i) => i !== index));
   };
+
+  const duplicateVariations = useMemo(() => findDuplicateVariations(variations), [variations]);
+
+  const exportImages = useMemo(() => ({ main: generatedImage, mockups: generatedMockups, variations: variationPhotos }), [generatedImage, generatedMockups, variationPhotos]);
   
   const TABS: { id: TabName; label: string; icon: React.FC<React.SVGProps<SVGSVGElement>> }[] = [
     { id: 'overview', label: 'Visão Geral', icon: GridIcon },
@@ -207,6 +337,10 @@ const ProductOutput: React.FC<ProductOutputProps> = ({ content: initialContent,
     const isLoading = generationStep === 'content' || generationStep === 'images';
     const areImagesLoading = generationStep === 'images';
 
+    if (isLoading && !content && partialContent && Object.keys(partialContent).length > 0) {
+      return <StreamingPreview partial={partialContent} />;
+    }
+
     if (isLoading && !content) {
       return (
         <div className="space-y-6 mt-6">
@@ -224,36 +358,47 @@ const ProductOutput: React.FC<ProductOutputProps> = ({ content: initialContent,
       return <div className="text-center text-red-400 bg-red-900/50 p-4 rounded-lg mt-6">{error}</div>;
     }
 
+    if (generationStep === 'cancelled' && !content) {
+      return <div className="text-center text-yellow-300 bg-yellow-900/40 p-4 rounded-lg mt-6">A geração foi cancelada antes de o conteúdo ficar pronto.</div>;
+    }
+
     if (!content) {
       return <div className="text-center text-gray-500 mt-6">O conteúdo gerado aparecerá aqui.</div>;
     }
-    
-    // Helper to format currency
-    const formatCurrency = (value: number | undefined) => {
-        if (value === undefined || value === null) return 'N/A';
-        return `R$ ${value.toFixed(2).replace('.', ',')}`;
-    }
 
     return (
       <div className="mt-6 space-y-8">
+        <MarketplaceWarnings
+          content={content}
+          imageCount={(generatedImage ? 1 : 0) + generatedMockups.length}
+          onMarketplaceChange={(marketplace) => updateField('marketplace', marketplace)}
+        />
+        <CompliancePanel content={content} onApply={(patch) => updateFields(patch, 'ai')} />
+        {generationStep === 'cancelled' && (
+          <div className="text-sm text-yellow-200 bg-yellow-900/40 border border-yellow-700 p-3 rounded-lg">
+            A geração foi cancelada. Os resultados que já estavam prontos foram mantidos.
+          </div>
+        )}
         {activeTab === 'overview' && (
           <div className="space-y-6 animate-fade-in">
-             <InfoCard title="Nome do Produto" copyText={content.name}>
+            <VariantPicker content={content} onApply={(patch) => updateFields(patch, 'ai')} />
+             <InfoCard title="Nome do Produto" copyText={content.name} actions={<>{regenerateFor(['name'])}{historyFor('name')}</>}>
                 <EditableField label="" value={content.name} onValueChange={(v) => handleContentChange('name', v)} />
             </InfoCard>
             <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
-                <InfoCard title="Preço Competitivo (R$)" copyText={String(content.price || '')}>
+                <InfoCard title={`Preço Competitivo (${content.currency ?? 'BRL'})`} copyText={String(content.price || '')} actions={<>{regenerateFor(['price'])}{historyFor('price')}</>}>
                      <EditableField label="" value={String(content.price || '')} type="number" onValueChange={(v) => handleContentChange('price', parseFloat(v))} />
                 </InfoCard>
                 {/* FIX: Corrected typo from 'promocionalPrice' to 'promotionalPrice' to match the 'ProductContent' type. */}
-                <InfoCard title="Preço Promocional (R$)" copyText={String(content.promotionalPrice || '')}>
+                <InfoCard title={`Preço Promocional (${content.currency ?? 'BRL'})`} copyText={String(content.promotionalPrice || '')} actions={<>{regenerateFor(['promotionalPrice'])}{historyFor('promotionalPrice')}</>}>
                     <EditableField label="" value={String(content.promotionalPrice || '')} type="number" onValueChange={(v) => handleContentChange('promotionalPrice', parseFloat(v))}/>
                 </InfoCard>
             </div>
-             <InfoCard title="Descrição Persuasiva" copyText={content.description}>
+            <PricingPanel content={content} onChange={(patch) => updateFields(patch)} onApplySuggestion={(patch) => updateFields(patch)} />
+             <InfoCard title="Descrição Persuasiva" copyText={content.description} actions={<>{regenerateFor(['description'])}{historyFor('description')}</>}>
                 <EditableField label="" value={content.description} isTextarea onValueChange={(v) => handleContentChange('description', v)} />
             </InfoCard>
-             <InfoCard title="Slogan Promocional" copyText={content.promotionalSlogan || ''}>
+             <InfoCard title="Slogan Promocional" copyText={content.promotionalSlogan || ''} actions={regenerateFor(['promotionalSlogan'])}>
                 <p className="text-lg italic text-indigo-300">"{content.promotionalSlogan}"</p>
             </InfoCard>
           </div>
@@ -291,21 +436,25 @@ const ProductOutput: React.FC<ProductOutputProps> = ({ content: initialContent,
                                     <SkeletonLoader className="aspect-square w-full" />
                                 </>
                             ) : (
-                                generatedMockups.map((mockupSrc, index) => (
-                                    <ImageResult 
-                                        key={index}
-                                        title={`Mockup ${index + 1}`} 
-                                        imageSrc={mockupSrc} 
-                                        isLoading={false} 
-                                        onEditClick={(src) => setEditorConfig({isOpen: true, image: src, defaultText: ''})} 
-                                    />
-                                ))
+                                <>
+                                    {generatedMockups.map((mockupSrc, index) => (
+                                        <ImageResult 
+                                            key={index}
+                                            title={`Mockup ${index + 1}`} 
+                                            imageSrc={mockupSrc} 
+                                            isLoading={false} 
+                                            onEditClick={(src) => setEditorConfig({isOpen: true, image: src, defaultText: ''})} 
+                                        />
+                                    ))}
+                                    {/* Mockups arrive one at a time; hold a spot for the next one. */}
+                                    {areImagesLoading && <SkeletonLoader className="aspect-square w-full" />}
+                                </>
                             )}
                         </div>
                     </InfoCard>
                 )}
 
-                 <InfoCard title="Sugestões de Texto para Imagem">
+                 <InfoCard title="Sugestões de Texto para Imagem" actions={regenerateFor(['imageTextSuggestions'])}>
                     {content.imageTextSuggestions && content.imageTextSuggestions.length > 0 ? (
                         <ul className="grid grid-cols-1 sm:grid-cols-2 gap-3">
                         {content.imageTextSuggestions.map((suggestion, index) => {
@@ -330,14 +479,14 @@ const ProductOutput: React.FC<ProductOutputProps> = ({ content: initialContent,
         {activeTab === 'marketing' && (
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 animate-fade-in">
                  <div className="space-y-8 lg:col-span-2">
-                    <InfoCard title="Post para Redes Sociais (Instagram/Facebook)" copyText={content.socialMediaPost}>
+                    <InfoCard title="Post para Redes Sociais (Instagram/Facebook)" copyText={content.socialMediaPost} actions={regenerateFor(['socialMediaPost'])}>
                         <div className="bg-gray-800 p-4 rounded-lg border border-gray-700">
                              <p className="text-gray-300 whitespace-pre-line">{content.socialMediaPost}</p>
                         </div>
                     </InfoCard>
                 </div>
                 
-                 <InfoCard title="Roteiro para Vídeo (Reels/TikTok)">
+                 <InfoCard title="Roteiro para Vídeo (Reels/TikTok)" actions={regenerateFor(['videoScript'])}>
                     {content.videoScript && content.videoScript.scenes.length > 0 ? (
                         <div className="space-y-4">
                             <h5 className="font-bold text-center text-indigo-300 text-lg">"{content.videoScript.title}"</h5>
@@ -357,7 +506,7 @@ const ProductOutput: React.FC<ProductOutputProps> = ({ content: initialContent,
                  </InfoCard>
 
                  <div className="space-y-8">
-                     <InfoCard title="Hashtags">
+                     <InfoCard title="Hashtags" actions={regenerateFor(['hashtags'])}>
                         {content.hashtags && content.hashtags.length > 0 ? (
                              <div className="flex flex-wrap gap-2">
                               {content.hashtags.map((tag, index) => (
@@ -369,7 +518,7 @@ const ProductOutput: React.FC<ProductOutputProps> = ({ content: initialContent,
                         ) : <p className="text-sm text-gray-500">Nenhuma hashtag foi gerada.</p>}
                     </InfoCard>
 
-                     <InfoCard title="Cupom de Desconto">
+                     <InfoCard title="Cupom de Desconto" actions={regenerateFor(['coupon'])}>
                         {content.coupon ? (
                             <div className="space-y-3">
                                 <div className="text-center p-3 border-2 border-dashed border-green-500 rounded-lg">
@@ -385,35 +534,35 @@ const ProductOutput: React.FC<ProductOutputProps> = ({ content: initialContent,
         
         {activeTab === 'seo' && (
             <div className="space-y-6 animate-fade-in">
+                 <SeoPanel content={content} image={generatedImage} />
                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                    <InfoCard title="Meta Title" copyText={content.metaTitle}>
-                        <p className="text-gray-300">{content.metaTitle}</p>
+                    <InfoCard title="Meta Title" actions={<>{regenerateFor(['metaTitle'])}{historyFor('metaTitle')}</>}>
+                        <EditableField label="" value={content.metaTitle} onValueChange={(v) => handleContentChange('metaTitle', v)} />
                     </InfoCard>
-                     <InfoCard title="URL Amigável (Slug)" copyText={content.slug}>
-                        <p className="text-gray-300 font-mono text-sm">{content.slug}</p>
+                     <InfoCard title="URL Amigável (Slug)" actions={<>{regenerateFor(['slug'])}{historyFor('slug')}</>}>
+                        <EditableField label="" value={content.slug} onValueChange={(v) => handleContentChange('slug', v)} />
                     </InfoCard>
                  </div>
-                 <InfoCard title="Meta Description" copyText={content.metaDescription}>
-                    <p className="text-gray-400">{content.metaDescription}</p>
+                 <InfoCard title="Meta Description" actions={<>{regenerateFor(['metaDescription'])}{historyFor('metaDescription')}</>}>
+                    <EditableField label="" value={content.metaDescription} onValueChange={(v) => handleContentChange('metaDescription', v)} />
                 </InfoCard>
-                <InfoCard title="Texto Alternativo (Alt)" copyText={content.imageAltText}>
-                    <p className="text-gray-400">{content.imageAltText}</p>
+                <InfoCard title="Texto Alternativo (Alt)" actions={<>{regenerateFor(['imageAltText'])}{historyFor('imageAltText')}</>}>
+                    <EditableField label="" value={content.imageAltText} onValueChange={(v) => handleContentChange('imageAltText', v)} />
                 </InfoCard>
-                 <InfoCard title="Palavras-chave">
-                    <div className="flex flex-wrap gap-2">
-                        {content.keywords.map((tag, index) => (
-                        <span key={index} className="px-3 py-1 bg-indigo-600/50 text-indigo-200 text-sm font-medium rounded-full">
-                            {tag}
-                        </span>
-                        ))}
-                    </div>
+                 <InfoCard title="Palavras-chave" actions={<>{regenerateFor(['keywords'])}{historyFor('keywords')}</>}>
+                    {/* The first keyword is the primary one the SEO checks look for. */}
+                    <EditableField
+                        label=""
+                        value={content.keywords.join(', ')}
+                        onValueChange={(v) => handleContentChange('keywords', v.split(',').map(keyword => keyword.trimStart()))}
+                    />
                  </InfoCard>
             </div>
         )}
 
         {activeTab === 'data' && (
             <div className="space-y-6 animate-fade-in">
-                 <InfoCard title="Dados do Produto">
+                 <InfoCard title="Dados do Produto" actions={regenerateFor(['category', 'brand'])}>
                     <div className="overflow-x-auto">
                         <table className="w-full text-sm">
                             <tbody>
@@ -426,33 +575,74 @@ const ProductOutput: React.FC<ProductOutputProps> = ({ content: initialContent,
                                     <td className="py-2 text-gray-200">{content.brand || 'N/A'}</td>
                                 </tr>
                                 <tr>
-                                    <td className="py-2 pr-4 font-medium text-gray-400">SKU Sugerido</td>
-                                    <td className="py-2 text-gray-200">{content.sku || 'N/A'}</td>
+                                    <td className="py-2 pr-4 font-medium text-gray-400 align-top">SKU</td>
+                                    <td className="py-2 text-gray-200">
+                                        <SkuEditor content={content} entryId={entryId} onChange={(patch) => updateFields(patch)} />
+                                    </td>
                                 </tr>
                             </tbody>
                         </table>
                     </div>
                  </InfoCard>
 
-                 <InfoCard title="Variações do Produto">
+                 <InfoCard title="Variações do Produto" actions={<>{regenerateFor(['variations'])}{historyFor('variations')}</>}>
+                    <VariationMatrixBuilder content={content} entryId={entryId} onApply={(newVariations) => updateFields({ variations: newVariations })} />
+                    {duplicateVariations.size > 0 && (
+                        <p className="mb-3 text-sm text-red-300">Há combinações de cor e tamanho repetidas, destacadas abaixo. Cada combinação deve aparecer uma só vez.</p>
+                    )}
+                    <div className="flex flex-wrap items-center gap-3 mb-3 text-sm">
+                        <button
+                            onClick={variationImages.generateMissing}
+                            disabled={!generatedImage || variationImages.missingColors.length === 0 || variationImages.pendingKeys.size > 0}
+                            className="px-3 py-1 bg-gray-700 text-white text-xs font-semibold rounded-md hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition"
+                        >
+                            {variationImages.pendingKeys.size > 0 ? 'Gerando imagens...' : `Gerar imagens por cor${variationImages.missingColors.length > 0 ? ` (${variationImages.missingColors.length})` : ''}`}
+                        </button>
+                        <span className="text-xs text-gray-500">
+                            {generatedImage ? 'A foto refinada é recolorida para cada cor, mantendo o formato do produto.' : 'Gere a foto refinada do produto para criar as imagens de cada cor.'}
+                        </span>
+                    </div>
+                    {variationImages.error && <p className="mb-3 text-sm text-red-400">{variationImages.error}</p>}
                     <div className="overflow-x-auto">
                         <table className="w-full text-sm text-left">
                             <thead className="text-xs text-gray-400 uppercase bg-gray-800/50">
                                 <tr>
+                                    <th className="px-4 py-2">Foto</th>
                                     <th className="px-4 py-2">Cor</th>
                                     <th className="px-4 py-2">Tamanho</th>
                                     <th className="px-4 py-2">Estoque</th>
                                     <th className="px-4 py-2">Preço</th>
+                                    <th className="px-4 py-2">SKU</th>
                                     <th className="px-4 py-2 w-10"></th>
                                 </tr>
                             </thead>
                             <tbody>
                                 {variations.map((variation, index) => (
-                                     <tr key={index} className="border-b border-gray-800">
+                                     <tr key={index} className={`border-b border-gray-800 ${duplicateVariations.has(index) ? 'bg-red-900/30' : ''}`}>
+                                        <td className="p-1">
+                                            <div className="flex items-center gap-1">
+                                                {variationImages.pendingKeys.has(variationKey(variation)) ? (
+                                                    <div className="w-10 h-10 rounded-md bg-gray-700 animate-pulse" title="Gerando imagem..." />
+                                                ) : variation.imageId && variationPhotos[variation.imageId] ? (
+                                                    <img src={variationPhotos[variation.imageId]} alt={variation.color} className="w-10 h-10 rounded-md object-cover border border-gray-700" />
+                                                ) : (
+                                                    <div className="w-10 h-10 rounded-md border border-dashed border-gray-700" />
+                                                )}
+                                                <button
+                                                    onClick={() => variationImages.regenerate(variation)}
+                                                    disabled={!generatedImage || !variation.color?.trim() || variationImages.pendingKeys.has(variationKey(variation))}
+                                                    className="p-1 text-gray-500 hover:text-indigo-300 disabled:opacity-30 disabled:hover:text-gray-500 transition"
+                                                    title={variation.imageId && variationPhotos[variation.imageId] ? 'Gerar a imagem desta cor novamente' : 'Gerar a imagem desta cor'}
+                                                >
+                                                    <RefreshIcon className="w-4 h-4" />
+                                                </button>
+                                            </div>
+                                        </td>
                                         <td className="p-1"><input type="text" placeholder="Cor" value={variation.color || ''} onChange={(e) => handleVariationChange(index, 'color', e.target.value)} className="w-full p-2 bg-gray-900 border border-gray-700 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition" /></td>
                                         <td className="p-1"><input type="text" placeholder="Tamanho" value={variation.size || ''} onChange={(e) => handleVariationChange(index, 'size', e.target.value)} className="w-full p-2 bg-gray-900 border border-gray-700 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition" /></td>
                                         <td className="p-1"><input type="number" placeholder="Estoque" value={variation.stock ?? ''} onChange={(e) => handleVariationChange(index, 'stock', e.target.value)} className="w-full p-2 bg-gray-900 border border-gray-700 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition" /></td>
                                         <td className="p-1"><input type="number" step="0.01" placeholder="Preço" value={variation.price ?? ''} onChange={(e) => handleVariationChange(index, 'price', e.target.value)} className="w-full p-2 bg-gray-900 border border-gray-700 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition" /></td>
+                                        <td className="p-1"><input type="text" placeholder="SKU" value={variation.sku || ''} onChange={(e) => handleVariationChange(index, 'sku', e.target.value)} className="w-full p-2 bg-gray-900 border border-gray-700 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition font-mono text-xs" /></td>
                                         <td className="p-1 text-center">
                                             <button onClick={() => removeVariation(index)} className="text-gray-500 hover:text-red-400 transition p-2">
                                                 <TrashIcon className="w-4 h-4" />
@@ -468,21 +658,8 @@ const ProductOutput: React.FC<ProductOutputProps> = ({ content: initialContent,
                     </button>
                  </InfoCard>
                 
-                 <InfoCard title="Logística">
-                    <div className="overflow-x-auto">
-                       <table className="w-full text-sm">
-                            <tbody>
-                                <tr className="border-b border-gray-800">
-                                    <td className="py-2 pr-4 font-medium text-gray-400 w-1/3">Peso (kg)</td>
-                                    <td className="py-2 text-gray-200">{content.weight || 'N/A'}</td>
-                                </tr>
-                                <tr>
-                                    <td className="py-2 pr-4 font-medium text-gray-400">Dimensões (cm)</td>
-                                    <td className="py-2 text-gray-200">{content.dimensions || 'N/A'}</td>
-                                </tr>
-                            </tbody>
-                        </table>
-                    </div>
+                 <InfoCard title="Logística" actions={regenerateFor(['weight', 'dimensions'])}>
+                    <ShippingPanel content={content} onChange={(patch) => updateFields(patch)} />
                 </InfoCard>
             </div>
         )}
@@ -493,7 +670,44 @@ const ProductOutput: React.FC<ProductOutputProps> = ({ content: initialContent,
 
   return (
     <section id="output-section" className="w-full max-w-4xl p-4 sm:p-6 bg-gray-800/50 rounded-2xl border border-gray-700 backdrop-blur-sm">
-      <h2 className="text-xl sm:text-2xl font-bold text-gray-100">2. Revise e Exporte o Conteúdo Gerado</h2>
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h2 className="text-xl sm:text-2xl font-bold text-gray-100">2. Revise e Exporte o Conteúdo Gerado</h2>
+        {content && !error && (
+          <div className="flex items-center gap-2">
+            <button
+              onClick={undo}
+              disabled={!canUndo}
+              className="p-2 text-gray-400 rounded-lg hover:bg-gray-700 hover:text-white disabled:opacity-30 disabled:hover:bg-transparent transition"
+              title="Desfazer (Ctrl+Z)"
+              aria-label="Desfazer"
+            >
+              <UndoIcon className="w-5 h-5" />
+            </button>
+            <button
+              onClick={redo}
+              disabled={!canRedo}
+              className="p-2 text-gray-400 rounded-lg hover:bg-gray-700 hover:text-white disabled:opacity-30 disabled:hover:bg-transparent transition"
+              title="Refazer (Ctrl+Shift+Z)"
+              aria-label="Refazer"
+            >
+              <RedoIcon className="w-5 h-5" />
+            </button>
+            <button
+              onClick={() => setIsTranslateOpen(true)}
+              className="px-4 py-2 bg-gray-700 text-white text-sm font-semibold rounded-lg hover:bg-gray-600 transition"
+            >
+              Traduzir
+            </button>
+            <button
+              onClick={() => setIsExportOpen(true)}
+              className="flex items-center gap-2 px-4 py-2 bg-orange-600 text-white text-sm font-semibold rounded-lg hover:bg-orange-700 transition"
+            >
+              <DownloadIcon className="w-4 h-4" />
+              Exportar Anúncio
+            </button>
+          </div>
+        )}
+      </div>
       
       {content && !error && (
         <div className="border-b border-gray-700 mt-4">
@@ -512,6 +726,22 @@ const ProductOutput: React.FC<ProductOutputProps> = ({ content: initialContent,
           slogan={editorConfig.defaultText}
         />
       )}
+
+      {isExportOpen && content && (
+        <ExportDialog
+          content={content}
+          images={exportImages}
+          onClose={() => setIsExportOpen(false)}
+        />
+      )}
+
+      {isTranslateOpen && content && (
+        <TranslateDialog
+          content={content}
+          onClose={() => setIsTranslateOpen(false)}
+          onTranslated={onTranslated}
+        />
+      )}
     </section>
   );
 };
@@ -0,0 +1,319 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import CheckIcon from './icons/CheckIcon';
+import HistoryIcon from './icons/HistoryIcon';
+import {
+  PROMPT_TEMPLATES,
+  PLACEHOLDER_DESCRIPTIONS,
+  PromptContext,
+  PromptPlaceholder,
+  StoredPromptTemplate,
+  activatePromptTemplateVersion,
+  fillPlaceholders,
+  findUnknownPlaceholders,
+  getActiveTemplateText,
+  getStoredPromptTemplate,
+  renderPromptTemplate,
+  savePromptTemplateVersion,
+} from '../services/promptTemplates';
+import { BrandProfile, ProductContent } from '../types';
+import { createEmptyBrandProfile, describeBrandVoice, loadBrandProfiles } from '../services/brandProfiles';
+import { MARKETPLACE_PROFILES, describeMarketplaceRules, marketplacePromptContext } from '../services/marketplaceProfiles';
+import { BASE_CURRENCY, getLocaleDefinition } from '../services/locales';
+import { scanListingCompliance } from '../services/compliance';
+import { generateProductContent, regenerateProductFields, rewriteComplianceSpan, testImagePrompt, testRepairPrompt, translateProductContent } from '../services/geminiService';
+import { getFriendlyErrorMessage } from '../services/errorMessages';
+import { isAbortError } from '../services/abort';
+
+const inputClass = 'w-full px-3 py-2 bg-gray-900 border border-gray-700 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition text-sm';
+
+const GROUPS = Array.from(new Set(PROMPT_TEMPLATES.map(template => template.group)));
+
+type TestResult = { kind: 'text'; value: string } | { kind: 'image'; value: string };
+
+// Used to preview and test the brand template when no profile has been saved yet.
+const SAMPLE_BRAND_PROFILE: BrandProfile = {
+  ...createEmptyBrandProfile(),
+  name: 'Loja de Exemplo',
+  tone: 'jovem, descontraído e direto',
+  targetAudience: 'jovens de 18 a 30 anos',
+  preferredTerms: ['estilo', 'conforto'],
+  avoidedTerms: ['barato'],
+};
+
+// Previews and tests of the locale and marketplace templates use these targets.
+const SAMPLE_LOCALE = 'es';
+const SAMPLE_MARKETPLACE = MARKETPLACE_PROFILES.shopee;
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('pt-BR', { day: '2-digit', month: '2-digit', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const PromptTemplateManager: React.FC = () => {
+  const [selectedId, setSelectedId] = useState(PROMPT_TEMPLATES[0].id);
+  const [stored, setStored] = useState<StoredPromptTemplate>(() => getStoredPromptTemplate(PROMPT_TEMPLATES[0].id));
+  const [draft, setDraft] = useState(() => getActiveTemplateText(PROMPT_TEMPLATES[0].id));
+  const [sample, setSample] = useState<PromptContext>({
+    category: 'Moda Feminina > Camisetas',
+    keywords: 'algodão, básica, confortável',
+    description: 'Camiseta feminina básica em algodão penteado, macia e resistente.',
+    instruction: 'mais curto',
+    color: 'Azul-marinho',
+  });
+  const [simulateApparel, setSimulateApparel] = useState(false);
+  const [sampleImage, setSampleImage] = useState<File | null>(null);
+  const [testResult, setTestResult] = useState<TestResult | null>(null);
+  const [testError, setTestError] = useState<string | null>(null);
+  const [isTesting, setIsTesting] = useState(false);
+  const [saveStatus, setSaveStatus] = useState<'idle' | 'saved'>('idle');
+  const testController = useRef<AbortController | null>(null);
+
+  const definition = PROMPT_TEMPLATES.find(template => template.id === selectedId)!;
+  const activeText = getActiveTemplateText(selectedId);
+  const isImageTemplate = definition.group === 'Imagens' || definition.group === 'Mockups';
+  const isRegenerationTemplate = selectedId.startsWith('content.regenerate');
+  const unknownPlaceholders = useMemo(() => findUnknownPlaceholders(selectedId, draft), [selectedId, draft]);
+
+  useEffect(() => {
+    setStored(getStoredPromptTemplate(selectedId));
+    setDraft(getActiveTemplateText(selectedId));
+    setTestResult(null);
+    setTestError(null);
+  }, [selectedId]);
+
+  useEffect(() => () => testController.current?.abort(), []);
+
+  const sampleBrandProfile = useMemo(() => loadBrandProfiles()[0] ?? SAMPLE_BRAND_PROFILE, []);
+
+  const previewContext: PromptContext = {
+    ...sample,
+    brandVoice: describeBrandVoice(sampleBrandProfile),
+    language: getLocaleDefinition(SAMPLE_LOCALE).language,
+    ...marketplacePromptContext(SAMPLE_MARKETPLACE),
+    marketplaceRules: describeMarketplaceRules(SAMPLE_MARKETPLACE),
+    modelInstruction: simulateApparel ? renderPromptTemplate('mockups.apparel', sample) : '',
+  };
+
+  // The apparel instruction is only a fragment, so it is previewed inside the first mockup prompt.
+  const renderedDraft = selectedId === 'mockups.apparel'
+    ? renderPromptTemplate('mockups.lifestyle', { ...sample, modelInstruction: fillPlaceholders(draft, sample).trim() })
+    : fillPlaceholders(draft, previewContext).trim();
+
+  // The templates that work on an existing listing are tested on one made of the sample fields.
+  const sampleListing: ProductContent = {
+    name: '',
+    category: sample.category ?? '',
+    description: sample.description ?? '',
+    keywords: (sample.keywords ?? '').split(',').map(keyword => keyword.trim()).filter(Boolean),
+    price: 0,
+    variations: [],
+  };
+
+  const handleSave = () => {
+    setStored(savePromptTemplateVersion(selectedId, draft));
+    setSaveStatus('saved');
+    setTimeout(() => setSaveStatus('idle'), 2500);
+  };
+
+  const handleActivate = (versionId: string | null) => {
+    const updated = activatePromptTemplateVersion(selectedId, versionId);
+    setStored(updated);
+    setDraft(getActiveTemplateText(selectedId));
+  };
+
+  const insertPlaceholder = (placeholder: PromptPlaceholder) => {
+    setDraft(prev => `${prev}${prev.endsWith(' ') || prev === '' ? '' : ' '}{{${placeholder}}}`);
+  };
+
+  const handleTest = async () => {
+    testController.current?.abort();
+    const controller = new AbortController();
+    testController.current = controller;
+    setIsTesting(true);
+    setTestResult(null);
+    setTestError(null);
+    try {
+      if (isImageTemplate) {
+        if (!sampleImage) {
+          setTestError('Escolha uma foto de produto para testar prompts de imagem.');
+          return;
+        }
+        const task = definition.group === 'Mockups' ? 'mockups' : 'productRefinement';
+        const image = await testImagePrompt(sampleImage, renderedDraft, task, controller.signal);
+        setTestResult({ kind: 'image', value: image });
+      } else if (isRegenerationTemplate) {
+        // Rewrites the sample description, using the sample fields as the current listing.
+        const fields = await regenerateProductFields(sampleListing, ['description'], sample.instruction ?? '', controller.signal, { [selectedId]: draft });
+        setTestResult({ kind: 'text', value: JSON.stringify(fields, null, 2) });
+      } else if (selectedId === 'content.repair') {
+        const repaired = await testRepairPrompt(sampleListing, { [selectedId]: draft }, controller.signal);
+        setTestResult({ kind: 'text', value: JSON.stringify(repaired, null, 2) });
+      } else if (selectedId === 'content.compliance') {
+        // An invitation to talk outside the marketplace breaks a rule of every category.
+        const listing = { ...sampleListing, description: `${sampleListing.description} Dúvidas? Chama no WhatsApp!`.trim() };
+        const [violation] = scanListingCompliance(listing);
+        const replacement = await rewriteComplianceSpan(listing, violation, controller.signal, { [selectedId]: draft });
+        setTestResult({ kind: 'text', value: `${violation.source.text.slice(violation.start, violation.end)} → ${replacement}` });
+      } else if (selectedId === 'content.translate') {
+        const translated = await translateProductContent(sampleListing, SAMPLE_LOCALE, BASE_CURRENCY, controller.signal, { [selectedId]: draft });
+        setTestResult({ kind: 'text', value: JSON.stringify(translated, null, 2) });
+      } else {
+        const content = await generateProductContent(sampleImage, sample.keywords ?? '', {
+          signal: controller.signal,
+          templateOverrides: { [selectedId]: draft },
+          brandProfile: selectedId === 'content.brand' ? sampleBrandProfile : null,
+          locale: selectedId === 'content.locale' ? SAMPLE_LOCALE : undefined,
+          marketplace: selectedId === 'content.marketplace' ? SAMPLE_MARKETPLACE.id : undefined,
+        });
+        setTestResult({ kind: 'text', value: JSON.stringify(content, null, 2) });
+      }
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.error("Prompt test failed:", err);
+      setTestError(getFriendlyErrorMessage(err));
+    } finally {
+      if (testController.current === controller) {
+        testController.current = null;
+        setIsTesting(false);
+      }
+    }
+  };
+
+  const versions = [...stored.versions].reverse();
+
+  return (
+    <div className="space-y-4 mt-8 pt-6 border-t border-gray-700">
+      <div>
+        <h3 className="text-lg font-semibold">Modelos de Prompt</h3>
+        <p className="text-sm text-gray-400">Edite os textos enviados à IA. Cada alteração salva vira uma nova versão, que pode ser desfeita a qualquer momento.</p>
+      </div>
+
+      <select value={selectedId} onChange={(e) => setSelectedId(e.target.value)} className={inputClass}>
+        {GROUPS.map(group => (
+          <optgroup key={group} label={group}>
+            {PROMPT_TEMPLATES.filter(template => template.group === group).map(template => (
+              <option key={template.id} value={template.id}>{template.name}</option>
+            ))}
+          </optgroup>
+        ))}
+      </select>
+
+      <div>
+        <textarea value={draft} onChange={(e) => setDraft(e.target.value)} rows={8} className={`${inputClass} font-mono`} />
+        <div className="flex flex-wrap items-center gap-2 mt-2">
+          <span className="text-xs text-gray-500">Inserir:</span>
+          {definition.placeholders.map(placeholder => (
+            <button
+              key={placeholder}
+              type="button"
+              onClick={() => insertPlaceholder(placeholder)}
+              title={PLACEHOLDER_DESCRIPTIONS[placeholder]}
+              className="px-2 py-0.5 text-xs font-mono bg-gray-700 text-indigo-200 rounded-md hover:bg-gray-600 transition"
+            >
+              {`{{${placeholder}}}`}
+            </button>
+          ))}
+        </div>
+        {unknownPlaceholders.length > 0 && (
+          <p className="text-xs text-yellow-400 mt-2">
+            Marcadores não reconhecidos neste prompt: {unknownPlaceholders.map(name => `{{${name}}}`).join(', ')}. Eles serão enviados como texto literal.
+          </p>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={handleSave}
+          disabled={draft === activeText || !draft.trim()}
+          className={`flex items-center gap-2 px-4 py-2 text-white text-sm font-semibold rounded-lg transition disabled:opacity-50 disabled:cursor-not-allowed ${saveStatus === 'saved' ? 'bg-green-600' : 'bg-indigo-600 hover:bg-indigo-700'}`}
+        >
+          {saveStatus === 'saved' ? <><CheckIcon className="w-4 h-4" /> Versão Salva!</> : 'Salvar Nova Versão'}
+        </button>
+        <button
+          onClick={() => setDraft(activeText)}
+          disabled={draft === activeText}
+          className="px-4 py-2 bg-gray-700 text-white text-sm font-semibold rounded-lg hover:bg-gray-600 transition disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Descartar Alterações
+        </button>
+      </div>
+
+      <div className="p-4 bg-gray-900/50 border border-gray-700 rounded-lg space-y-2">
+        <h4 className="flex items-center gap-2 text-sm font-semibold text-gray-200"><HistoryIcon className="w-4 h-4" /> Histórico de versões</h4>
+        <ul className="space-y-1 max-h-48 overflow-y-auto text-sm">
+          {versions.map((version, index) => (
+            <li key={version.id} className="flex items-center justify-between gap-2 py-1">
+              <span className="text-gray-300 truncate">
+                Versão {stored.versions.length - index} <span className="text-gray-500">· {formatDate(version.createdAt)}</span>
+              </span>
+              {stored.activeVersionId === version.id ? (
+                <span className="text-xs font-semibold text-green-400">Em uso</span>
+              ) : (
+                <button onClick={() => handleActivate(version.id)} className="text-xs font-semibold text-indigo-300 hover:text-white transition">Restaurar</button>
+              )}
+            </li>
+          ))}
+          <li className="flex items-center justify-between gap-2 py-1">
+            <span className="text-gray-300">Padrão original</span>
+            {stored.activeVersionId === null ? (
+              <span className="text-xs font-semibold text-green-400">Em uso</span>
+            ) : (
+              <button onClick={() => handleActivate(null)} className="text-xs font-semibold text-indigo-300 hover:text-white transition">Restaurar</button>
+            )}
+          </li>
+        </ul>
+      </div>
+
+      <div className="p-4 bg-gray-900/50 border border-gray-700 rounded-lg space-y-3">
+        <h4 className="text-sm font-semibold text-gray-200">Testar este prompt</h4>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <input type="text" value={sample.category ?? ''} onChange={(e) => setSample(prev => ({ ...prev, category: e.target.value }))} placeholder="Categoria de exemplo" className={inputClass} />
+          <input type="text" value={sample.keywords ?? ''} onChange={(e) => setSample(prev => ({ ...prev, keywords: e.target.value }))} placeholder="Palavras-chave de exemplo" className={inputClass} />
+          <textarea value={sample.description ?? ''} onChange={(e) => setSample(prev => ({ ...prev, description: e.target.value }))} placeholder="Descrição de exemplo" rows={2} className={`${inputClass} sm:col-span-2`} />
+          {definition.placeholders.includes('color') && (
+            <input type="text" value={sample.color ?? ''} onChange={(e) => setSample(prev => ({ ...prev, color: e.target.value }))} placeholder="Cor de exemplo" className={inputClass} />
+          )}
+          {isRegenerationTemplate && (
+            <input type="text" value={sample.instruction ?? ''} onChange={(e) => setSample(prev => ({ ...prev, instruction: e.target.value }))} placeholder="Instrução de exemplo" className={`${inputClass} sm:col-span-2`} />
+          )}
+        </div>
+        <div className="flex flex-wrap items-center gap-4 text-sm text-gray-400">
+          <label className="flex items-center gap-2">
+            Foto de exemplo {isImageTemplate ? '(obrigatória)' : '(opcional)'}:
+            <input type="file" accept="image/*" onChange={(e) => setSampleImage(e.target.files?.[0] ?? null)} className="text-xs" />
+          </label>
+          {definition.placeholders.includes('modelInstruction') && (
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={simulateApparel} onChange={(e) => setSimulateApparel(e.target.checked)} className="accent-indigo-500" />
+              Simular produto de vestuário
+            </label>
+          )}
+        </div>
+        <div>
+          <p className="text-xs text-gray-500 mb-1">Texto final enviado à IA:</p>
+          <pre className="whitespace-pre-wrap text-xs text-gray-300 bg-gray-900 border border-gray-700 rounded-lg p-3 max-h-48 overflow-y-auto">{renderedDraft}</pre>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={handleTest}
+            disabled={isTesting}
+            className="px-4 py-2 bg-indigo-600 text-white text-sm font-semibold rounded-lg hover:bg-indigo-700 disabled:bg-indigo-400 disabled:cursor-not-allowed transition"
+          >
+            {isTesting ? 'Testando...' : 'Executar Teste'}
+          </button>
+          {isTesting && (
+            <button onClick={() => testController.current?.abort()} className="px-4 py-2 bg-gray-700 text-white text-sm font-semibold rounded-lg hover:bg-gray-600 transition">Cancelar</button>
+          )}
+        </div>
+        <p className="text-xs text-gray-500">O teste usa o rascunho acima sem salvá-lo e consome cota da API do provedor configurado.</p>
+        {testError && <p className="text-sm text-red-400">{testError}</p>}
+        {testResult?.kind === 'text' && (
+          <pre className="whitespace-pre-wrap text-xs text-gray-300 bg-gray-900 border border-gray-700 rounded-lg p-3 max-h-80 overflow-y-auto">{testResult.value}</pre>
+        )}
+        {testResult?.kind === 'image' && (
+          <img src={testResult.value} alt="Resultado do teste" className="max-w-xs w-full rounded-lg border border-gray-700" />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PromptTemplateManager;
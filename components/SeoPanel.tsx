@@ -0,0 +1,92 @@
+import React, { useMemo } from 'react';
+import { GeneratedProductImage, ProductContent } from '../types';
+import { SERP_DESCRIPTION, SERP_TITLE, SeoCheckStatus, scoreListingSeo, truncateToWidth } from '../services/seoScoring';
+import { formatPrice } from '../services/locales';
+import ImageIcon from './icons/ImageIcon';
+
+interface SeoPanelProps {
+  content: ProductContent;
+  image: GeneratedProductImage;
+}
+
+const STATUS_STYLES: Record<SeoCheckStatus, { dot: string; text: string }> = {
+  good: { dot: 'bg-green-500', text: 'text-green-300' },
+  warning: { dot: 'bg-yellow-500', text: 'text-yellow-300' },
+  bad: { dot: 'bg-red-500', text: 'text-red-300' },
+};
+
+const scoreColor = (score: number) => (score >= 80 ? 'text-green-400' : score >= 50 ? 'text-yellow-400' : 'text-red-400');
+
+// Google's desktop result, cut at the same pixel widths the checks use.
+const GoogleSnippet: React.FC<{ content: ProductContent }> = ({ content }) => (
+  <div className="bg-white rounded-lg p-4" style={{ fontFamily: 'Arial, sans-serif' }}>
+    <p className="text-sm text-[#202124]">sualoja.com.br</p>
+    <p className="text-xs text-[#4d5156] mb-1 truncate">https://sualoja.com.br › produtos › {content.slug || 'slug'}</p>
+    <p className="text-xl leading-snug text-[#1a0dab] hover:underline cursor-pointer">
+      {truncateToWidth(content.metaTitle || content.name, SERP_TITLE.font, SERP_TITLE.maxWidth)}
+    </p>
+    <p className="text-sm leading-snug text-[#4d5156] mt-1">
+      {truncateToWidth(content.metaDescription ?? '', SERP_DESCRIPTION.font, SERP_DESCRIPTION.maxWidth)}
+    </p>
+  </div>
+);
+
+// A Shopee search result card: the name gets two lines, the rest is cut.
+const ShopeeCard: React.FC<{ content: ProductContent; image: GeneratedProductImage }> = ({ content, image }) => {
+  const hasDiscount = typeof content.promotionalPrice === 'number' && content.promotionalPrice > 0 && content.promotionalPrice < content.price;
+  const discount = hasDiscount ? Math.round((1 - content.promotionalPrice! / content.price) * 100) : 0;
+  return (
+    <div className="w-48 bg-white rounded-sm shadow overflow-hidden text-[#222]">
+      <div className="relative aspect-square bg-gray-100 flex items-center justify-center">
+        {image ? <img src={image} alt={content.imageAltText} className="w-full h-full object-cover" /> : <ImageIcon className="w-10 h-10 text-gray-300" />}
+        {hasDiscount && <span className="absolute top-0 right-0 bg-[#ffd839] text-[#ee4d2d] text-xs font-semibold px-1">-{discount}%</span>}
+      </div>
+      <div className="p-2 space-y-1">
+        <p className="text-xs leading-4 h-8 line-clamp-2">{content.name}</p>
+        <div className="flex items-baseline justify-between gap-1">
+          <span className="text-[#ee4d2d] text-sm">{formatPrice(hasDiscount ? content.promotionalPrice : content.price, content.currency, content.locale)}</span>
+          {hasDiscount && <span className="text-[10px] text-gray-400 line-through truncate">{formatPrice(content.price, content.currency, content.locale)}</span>}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// Scored again on every edit, so the checks and previews follow the fields as they are typed.
+const SeoPanel: React.FC<SeoPanelProps> = ({ content, image }) => {
+  const report = useMemo(() => scoreListingSeo(content), [content]);
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      <div className="bg-gray-900/50 p-4 rounded-lg border border-gray-700 space-y-3">
+        <div className="flex items-baseline justify-between">
+          <h3 className="text-sm font-semibold text-gray-300 uppercase tracking-wider">Pontuação de SEO</h3>
+          <span className={`text-3xl font-bold ${scoreColor(report.score)}`}>{report.score}<span className="text-base text-gray-500">/100</span></span>
+        </div>
+        <ul className="space-y-2 text-sm">
+          {report.checks.map(check => (
+            <li key={check.id} className="flex gap-2">
+              <span className={`mt-1.5 w-2 h-2 rounded-full flex-shrink-0 ${STATUS_STYLES[check.status].dot}`}></span>
+              <div>
+                <span className={`font-semibold ${STATUS_STYLES[check.status].text}`}>{check.label}:</span>{' '}
+                <span className="text-gray-400">{check.message}</span>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </div>
+      <div className="space-y-4">
+        <div>
+          <h3 className="text-sm font-semibold text-gray-300 uppercase tracking-wider mb-2">Prévia no Google</h3>
+          <GoogleSnippet content={content} />
+        </div>
+        <div>
+          <h3 className="text-sm font-semibold text-gray-300 uppercase tracking-wider mb-2">Prévia na busca da Shopee</h3>
+          <ShopeeCard content={content} image={image} />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SeoPanel;
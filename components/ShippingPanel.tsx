@@ -0,0 +1,100 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { PackageDimensions, ProductContent } from '../types';
+import { formatPrice } from '../services/locales';
+import { SHIPPING_REGIONS, estimateShipping, loadShippingCarriers, saveShippingCarriers } from '../services/shipping';
+import ShippingRateEditor from './ShippingRateEditor';
+
+interface ShippingPanelProps {
+  content: ProductContent;
+  onChange: (patch: Partial<ProductContent>) => void;
+}
+
+const inputClass = 'w-full px-2 py-1 bg-gray-900 border border-gray-700 rounded-md focus:ring-2 focus:ring-indigo-500 outline-none text-sm';
+
+const DIMENSION_FIELDS: { key: keyof PackageDimensions; label: string }[] = [
+  { key: 'length', label: 'Comprimento (cm)' },
+  { key: 'width', label: 'Largura (cm)' },
+  { key: 'height', label: 'Altura (cm)' },
+];
+
+// An empty weight is cleared; an empty side is kept as 0, which leaves the dimensions incomplete.
+const parseMeasure = (value: string): number | undefined => {
+  if (value.trim() === '') return undefined;
+  const measure = Number(value.replace(',', '.'));
+  return Number.isFinite(measure) && measure >= 0 ? measure : undefined;
+};
+
+const formatWeight = (weight: number | null) =>
+  weight === null ? 'N/A' : `${weight.toLocaleString('pt-BR', { maximumFractionDigits: 2 })} kg`;
+
+// Weight and package size of the listing, with the freight each configured carrier would charge.
+const ShippingPanel: React.FC<ShippingPanelProps> = ({ content, onChange }) => {
+  const [carriers, setCarriers] = useState(loadShippingCarriers);
+  const [isEditingRates, setIsEditingRates] = useState(false);
+  const estimates = useMemo(() => carriers.map(carrier => estimateShipping(content, carrier)), [carriers, content]);
+
+  useEffect(() => {
+    saveShippingCarriers(carriers);
+  }, [carriers]);
+
+  const updateDimension = (key: keyof PackageDimensions, value: string) => {
+    const dimensions = { length: 0, width: 0, height: 0, ...content.dimensions, [key]: parseMeasure(value) ?? 0 };
+    onChange({ dimensions });
+  };
+
+  return (
+    <div className="space-y-4 text-sm">
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+        <label className="block">
+          <span className="block text-xs text-gray-400 mb-1">Peso (kg)</span>
+          <input type="number" min="0" step="0.01" value={content.weight ?? ''} onChange={(e) => onChange({ weight: parseMeasure(e.target.value) })} className={inputClass} />
+        </label>
+        {DIMENSION_FIELDS.map(({ key, label }) => (
+          <label key={key} className="block">
+            <span className="block text-xs text-gray-400 mb-1">{label}</span>
+            <input type="number" min="0" step="0.1" value={content.dimensions?.[key] || ''} onChange={(e) => updateDimension(key, e.target.value)} className={inputClass} />
+          </label>
+        ))}
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-left">
+          <thead className="text-xs text-gray-400 uppercase bg-gray-800/50">
+            <tr>
+              <th className="px-2 py-2">Transportadora</th>
+              <th className="px-2 py-2">Peso cúbico</th>
+              <th className="px-2 py-2">Peso cobrado</th>
+              {SHIPPING_REGIONS.map(region => <th key={region.id} className="px-2 py-2">{region.name}</th>)}
+            </tr>
+          </thead>
+          <tbody>
+            {estimates.map(({ carrier, volumetricWeight, chargeableWeight, prices, problems }) => (
+              <React.Fragment key={carrier.id}>
+                <tr className={problems.length > 0 ? '' : 'border-b border-gray-800'}>
+                  <td className="px-2 py-2 text-gray-300">{carrier.name}</td>
+                  <td className="px-2 py-2 text-gray-400">{formatWeight(volumetricWeight)}</td>
+                  <td className="px-2 py-2 text-gray-400">{formatWeight(chargeableWeight)}</td>
+                  {SHIPPING_REGIONS.map(region => (
+                    <td key={region.id} className="px-2 py-2 text-gray-200">{prices ? formatPrice(prices[region.id]) : '—'}</td>
+                  ))}
+                </tr>
+                {problems.length > 0 && (
+                  <tr className="border-b border-gray-800">
+                    <td colSpan={3 + SHIPPING_REGIONS.length} className="px-2 pb-2 text-yellow-300">{problems.join(' ')}</td>
+                  </tr>
+                )}
+              </React.Fragment>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <div>
+        <button onClick={() => setIsEditingRates(prev => !prev)} className="text-indigo-400 hover:text-indigo-300 font-medium transition">
+          Tabelas de frete {isEditingRates ? '(ocultar)' : '(mostrar)'}
+        </button>
+        {isEditingRates && <ShippingRateEditor carriers={carriers} onChange={setCarriers} />}
+      </div>
+    </div>
+  );
+};
+
+export default ShippingPanel;
@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { DEFAULT_SHIPPING_CARRIERS, SHIPPING_REGIONS, ShippingBand, ShippingCarrier, ShippingRegion } from '../services/shipping';
+import TrashIcon from './icons/TrashIcon';
+
+interface ShippingRateEditorProps {
+  carriers: ShippingCarrier[];
+  onChange: (carriers: ShippingCarrier[]) => void;
+}
+
+const inputClass = 'w-full px-2 py-1 bg-gray-900 border border-gray-700 rounded-md focus:ring-2 focus:ring-indigo-500 outline-none text-sm';
+
+const parseAmount = (value: string) => {
+  const amount = Number(value.replace(',', '.'));
+  return Number.isFinite(amount) && amount >= 0 ? amount : 0;
+};
+
+const LIMIT_FIELDS: { key: 'maxWeight' | 'maxSide' | 'maxSumOfSides' | 'volumetricDivisor'; label: string }[] = [
+  { key: 'maxWeight', label: 'Peso máximo (kg)' },
+  { key: 'maxSide', label: 'Maior lado (cm)' },
+  { key: 'maxSumOfSides', label: 'Soma dos lados (cm)' },
+  { key: 'volumetricDivisor', label: 'Divisor do peso cúbico' },
+];
+
+// Edits the limits and weight bands of one carrier at a time; every change is saved by the parent.
+const ShippingRateEditor: React.FC<ShippingRateEditorProps> = ({ carriers, onChange }) => {
+  const [carrierId, setCarrierId] = useState(carriers[0]?.id);
+  const carrier = carriers.find(candidate => candidate.id === carrierId) ?? carriers[0];
+  if (!carrier) return null;
+
+  const updateCarrier = (patch: Partial<ShippingCarrier>) => {
+    onChange(carriers.map(candidate => (candidate.id === carrier.id ? { ...candidate, ...patch } : candidate)));
+  };
+
+  const updateBand = (index: number, patch: Partial<ShippingBand>) => {
+    updateCarrier({ bands: carrier.bands.map((band, i) => (i === index ? { ...band, ...patch } : band)) });
+  };
+
+  const updatePrice = (index: number, region: ShippingRegion, value: string) => {
+    updateBand(index, { prices: { ...carrier.bands[index].prices, [region]: parseAmount(value) } });
+  };
+
+  const addBand = () => {
+    const last = carrier.bands[carrier.bands.length - 1];
+    const prices = last?.prices ?? { local: 0, state: 0, region: 0, national: 0 };
+    updateCarrier({ bands: [...carrier.bands, { maxWeight: (last?.maxWeight ?? 0) + 1, prices: { ...prices } }] });
+  };
+
+  const defaults = DEFAULT_SHIPPING_CARRIERS.find(candidate => candidate.id === carrier.id);
+
+  return (
+    <div className="mt-3 p-3 border border-gray-700 rounded-lg space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <select value={carrier.id} onChange={(e) => setCarrierId(e.target.value)} className="px-2 py-1 bg-gray-900 border border-gray-700 rounded-md focus:ring-2 focus:ring-indigo-500 outline-none text-sm">
+          {carriers.map(option => <option key={option.id} value={option.id}>{option.name}</option>)}
+        </select>
+        {defaults && (
+          <button onClick={() => updateCarrier(defaults)} className="text-xs text-gray-400 hover:text-white transition">
+            Restaurar valores de referência
+          </button>
+        )}
+      </div>
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+        {LIMIT_FIELDS.map(({ key, label }) => (
+          <label key={key} className="block">
+            <span className="block text-xs text-gray-400 mb-1">{label}</span>
+            <input type="number" min="0" value={carrier[key]} onChange={(e) => updateCarrier({ [key]: parseAmount(e.target.value) })} className={inputClass} />
+          </label>
+        ))}
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-left text-sm">
+          <thead className="text-xs text-gray-400 uppercase bg-gray-800/50">
+            <tr>
+              <th className="px-2 py-2">Até (kg)</th>
+              {SHIPPING_REGIONS.map(region => <th key={region.id} className="px-2 py-2">{region.name} (R$)</th>)}
+              <th className="px-2 py-2 w-10"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {carrier.bands.map((band, index) => (
+              <tr key={index} className="border-b border-gray-800">
+                <td className="p-1"><input type="number" min="0" step="0.1" value={band.maxWeight} onChange={(e) => updateBand(index, { maxWeight: parseAmount(e.target.value) })} className={inputClass} /></td>
+                {SHIPPING_REGIONS.map(region => (
+                  <td key={region.id} className="p-1">
+                    <input type="number" min="0" step="0.01" value={band.prices[region.id]} onChange={(e) => updatePrice(index, region.id, e.target.value)} className={inputClass} />
+                  </td>
+                ))}
+                <td className="p-1 text-center">
+                  <button onClick={() => updateCarrier({ bands: carrier.bands.filter((_, i) => i !== index) })} className="text-gray-500 hover:text-red-400 transition p-2">
+                    <TrashIcon className="w-4 h-4" />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <button onClick={addBand} className="text-sm text-indigo-400 hover:text-indigo-300 font-medium transition">+ Adicionar faixa</button>
+    </div>
+  );
+};
+
+export default ShippingRateEditor;
@@ -0,0 +1,78 @@
+import React, { useEffect, useState } from 'react';
+import { ProductContent } from '../types';
+import { SkuConflict, assignListingSkus, findSkuConflicts } from '../services/skuScheme';
+
+interface SkuEditorProps {
+  content: ProductContent;
+  /** Library entry of the listing, whose SKUs do not count as taken. */
+  entryId: string | null;
+  onChange: (patch: Partial<ProductContent>) => void;
+}
+
+// Waits for typing to pause before reading the whole catalog again.
+const CONFLICT_CHECK_DELAY_MS = 400;
+
+const SkuEditor: React.FC<SkuEditorProps> = ({ content, entryId, onChange }) => {
+  const [conflicts, setConflicts] = useState<SkuConflict[]>([]);
+  const [isAssigning, setIsAssigning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const skuKey = [content.sku, ...content.variations.map(variation => variation.sku)].join('|');
+
+  useEffect(() => {
+    let isCurrent = true;
+    const timer = setTimeout(() => {
+      findSkuConflicts(content, entryId)
+        .then(found => { if (isCurrent) setConflicts(found); })
+        .catch(err => console.error("Failed to check SKU conflicts", err));
+    }, CONFLICT_CHECK_DELAY_MS);
+    return () => {
+      isCurrent = false;
+      clearTimeout(timer);
+    };
+  }, [skuKey, entryId]);
+
+  const handleGenerate = async () => {
+    setIsAssigning(true);
+    setError(null);
+    try {
+      const { sku, variations } = await assignListingSkus(content, entryId);
+      onChange({ sku, variations });
+    } catch (err) {
+      console.error(err);
+      setError('Não foi possível consultar os SKUs do catálogo.');
+    } finally {
+      setIsAssigning(false);
+    }
+  };
+
+  return (
+    <div className="space-y-1">
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={content.sku || ''}
+          onChange={(e) => onChange({ sku: e.target.value.toUpperCase() })}
+          placeholder="Sem SKU"
+          className={`w-full px-2 py-1 bg-gray-900 border rounded-md focus:ring-2 focus:ring-indigo-500 outline-none font-mono text-sm ${conflicts.length > 0 ? 'border-red-600' : 'border-gray-700'}`}
+        />
+        <button
+          onClick={handleGenerate}
+          disabled={isAssigning}
+          title="Gera o SKU do produto e das variações com o padrão do painel de admin"
+          className="px-3 py-1 bg-gray-700 text-white text-xs font-semibold rounded-md hover:bg-gray-600 disabled:opacity-50 disabled:cursor-wait transition whitespace-nowrap"
+        >
+          {isAssigning ? 'Gerando...' : 'Gerar SKU'}
+        </button>
+      </div>
+      {conflicts.map(conflict => (
+        <p key={conflict.sku} className="text-xs text-red-300">
+          <span className="font-mono">{conflict.sku}</span>{' '}
+          {conflict.listingName === null ? 'aparece mais de uma vez neste anúncio.' : `já é usado por "${conflict.listingName}".`}
+        </p>
+      ))}
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default SkuEditor;
@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import CheckIcon from './icons/CheckIcon';
+import { SKU_TOKENS, SkuScheme, loadSkuScheme, saveSkuScheme } from '../services/skuScheme';
+
+const inputClass = 'w-full px-3 py-2 bg-gray-900 border border-gray-700 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition text-sm';
+
+type CodeTable = 'brandCodes' | 'categoryCodes' | 'colorCodes';
+
+const CODE_TABLES: { key: CodeTable; label: string; placeholder: string }[] = [
+  { key: 'brandCodes', label: 'Marcas', placeholder: 'Velora = VEL' },
+  { key: 'categoryCodes', label: 'Categorias', placeholder: 'Tênis Esportivos = TEN' },
+  { key: 'colorCodes', label: 'Cores', placeholder: 'Preto = PRT' },
+];
+
+// The code tables are edited as one "Nome = CÓDIGO" pair per line.
+const formatCodes = (codes: Record<string, string>) =>
+  Object.keys(codes).map(name => `${name} = ${codes[name]}`).join('\n');
+
+const parseCodes = (text: string): Record<string, string> => {
+  const codes: Record<string, string> = {};
+  text.split('\n').forEach(line => {
+    const [name, code] = line.split('=').map(part => part.trim());
+    if (name && code) codes[name] = code.toUpperCase();
+  });
+  return codes;
+};
+
+type Draft = Omit<SkuScheme, CodeTable | 'sequenceDigits'> & Record<CodeTable, string> & { sequenceDigits: string };
+
+const toDraft = (scheme: SkuScheme): Draft => ({
+  ...scheme,
+  sequenceDigits: String(scheme.sequenceDigits),
+  brandCodes: formatCodes(scheme.brandCodes),
+  categoryCodes: formatCodes(scheme.categoryCodes),
+  colorCodes: formatCodes(scheme.colorCodes),
+});
+
+const SkuSchemeManager: React.FC = () => {
+  const [draft, setDraft] = useState<Draft>(() => toDraft(loadSkuScheme()));
+  const [error, setError] = useState<string | null>(null);
+  const [saveStatus, setSaveStatus] = useState<'idle' | 'saved'>('idle');
+
+  const updateDraft = (patch: Partial<Draft>) => setDraft(prev => ({ ...prev, ...patch }));
+
+  const handleSave = () => {
+    const sequenceDigits = Number(draft.sequenceDigits);
+    if (!draft.productPattern.trim() || !draft.variationPattern.trim()) {
+      setError('Defina o padrão do produto e o das variações.');
+      return;
+    }
+    if (!Number.isInteger(sequenceDigits) || sequenceDigits < 1 || sequenceDigits > 8) {
+      setError('A sequência deve ter de 1 a 8 dígitos.');
+      return;
+    }
+    const scheme: SkuScheme = {
+      productPattern: draft.productPattern.trim(),
+      variationPattern: draft.variationPattern.trim(),
+      sequenceDigits,
+      brandCodes: parseCodes(draft.brandCodes),
+      categoryCodes: parseCodes(draft.categoryCodes),
+      colorCodes: parseCodes(draft.colorCodes),
+    };
+    saveSkuScheme(scheme);
+    setDraft(toDraft(scheme));
+    setError(null);
+    setSaveStatus('saved');
+    setTimeout(() => setSaveStatus('idle'), 2500);
+  };
+
+  return (
+    <div className="space-y-4 mt-8 pt-6 border-t border-gray-700">
+      <div>
+        <h3 className="text-lg font-semibold">Padrão de SKU</h3>
+        <p className="text-sm text-gray-400">Os SKUs são montados com este padrão, sem passar pela IA, e nunca repetem um SKU já salvo na biblioteca.</p>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-5 gap-3">
+        <div className="sm:col-span-2">
+          <label htmlFor="sku-product-pattern" className="block text-xs font-medium text-gray-400 mb-1">Padrão do produto</label>
+          <input id="sku-product-pattern" type="text" value={draft.productPattern} onChange={(e) => updateDraft({ productPattern: e.target.value })} className={`${inputClass} font-mono`} />
+        </div>
+        <div className="sm:col-span-2">
+          <label htmlFor="sku-variation-pattern" className="block text-xs font-medium text-gray-400 mb-1">Padrão das variações</label>
+          <input id="sku-variation-pattern" type="text" value={draft.variationPattern} onChange={(e) => updateDraft({ variationPattern: e.target.value })} className={`${inputClass} font-mono`} />
+        </div>
+        <div>
+          <label htmlFor="sku-sequence-digits" className="block text-xs font-medium text-gray-400 mb-1">Dígitos da sequência</label>
+          <input id="sku-sequence-digits" type="number" min="1" max="8" value={draft.sequenceDigits} onChange={(e) => updateDraft({ sequenceDigits: e.target.value })} className={inputClass} />
+        </div>
+      </div>
+      <ul className="text-xs text-gray-500 space-y-0.5">
+        {Object.keys(SKU_TOKENS).map(token => (
+          <li key={token}><span className="font-mono text-gray-400">{`{${token}}`}</span> — {SKU_TOKENS[token]}</li>
+        ))}
+      </ul>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        {CODE_TABLES.map(({ key, label, placeholder }) => (
+          <div key={key}>
+            <label htmlFor={`sku-${key}`} className="block text-xs font-medium text-gray-400 mb-1">Códigos de {label.toLowerCase()}</label>
+            <textarea id={`sku-${key}`} value={draft[key]} onChange={(e) => updateDraft({ [key]: e.target.value })} placeholder={placeholder} rows={6} className={`${inputClass} font-mono`} />
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-gray-500">Um "Nome = CÓDIGO" por linha. Nomes sem código usam as três primeiras letras.</p>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+      <button
+        onClick={handleSave}
+        className={`flex items-center gap-2 px-4 py-2 text-white text-sm font-semibold rounded-lg transition ${saveStatus === 'saved' ? 'bg-green-600' : 'bg-indigo-600 hover:bg-indigo-700'}`}
+      >
+        {saveStatus === 'saved' ? <><CheckIcon className="w-4 h-4" /> Padrão Salvo!</> : 'Salvar Padrão'}
+      </button>
+    </div>
+  );
+};
+
+export default SkuSchemeManager;
@@ -0,0 +1,172 @@
+import React, { useState } from 'react';
+import CheckIcon from './icons/CheckIcon';
+import { AIProviderSettings, GenerationTask, TaskSettings, TaskSettingsMap } from '../types';
+import { PROVIDER_NAMES } from '../services/providers';
+import {
+  GENERATION_TASKS,
+  KNOWN_MODELS,
+  DEFAULT_TASK_SETTINGS,
+  RETRIES_RANGE,
+  TEMPERATURE_RANGE,
+  TIMEOUT_RANGE_MS,
+  getTaskService,
+  loadTaskSettings,
+  saveTaskSettings,
+  validateTaskSettings,
+} from '../services/taskSettings';
+
+interface TaskSettingsEditorProps {
+  /** The provider routing being edited, so each task shows the models of the service that will run it. */
+  providerSettings: AIProviderSettings;
+}
+
+const inputClass = 'w-full px-3 py-2 bg-gray-900 border border-gray-700 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition text-sm';
+
+const TaskSettingsEditor: React.FC<TaskSettingsEditorProps> = ({ providerSettings }) => {
+  const [settings, setSettings] = useState<TaskSettingsMap>(loadTaskSettings);
+  const [errors, setErrors] = useState<Partial<Record<GenerationTask, string[]>>>({});
+  const [saveStatus, setSaveStatus] = useState<'idle' | 'saved' | 'error'>('idle');
+
+  const updateTask = (task: GenerationTask, patch: Partial<TaskSettings>) => {
+    setSettings(prev => ({ ...prev, [task]: { ...prev[task], ...patch } }));
+  };
+
+  const handleSave = () => {
+    const nextErrors: Partial<Record<GenerationTask, string[]>> = {};
+    GENERATION_TASKS.forEach(({ id }) => {
+      const taskErrors = validateTaskSettings(id, settings[id], getTaskService(id, providerSettings));
+      if (taskErrors.length > 0) nextErrors[id] = taskErrors;
+    });
+    setErrors(nextErrors);
+    if (Object.keys(nextErrors).length > 0) {
+      setSaveStatus('error');
+      setTimeout(() => setSaveStatus('idle'), 3000);
+      return;
+    }
+    try {
+      saveTaskSettings(settings);
+      setSaveStatus('saved');
+      setTimeout(() => setSaveStatus('idle'), 2500);
+    } catch (err) {
+      console.error("Failed to save task settings:", err);
+      setSaveStatus('error');
+      setTimeout(() => setSaveStatus('idle'), 3000);
+    }
+  };
+
+  const handleReset = () => {
+    setSettings(DEFAULT_TASK_SETTINGS);
+    setErrors({});
+  };
+
+  return (
+    <div className="space-y-4 mt-8 pt-6 border-t border-gray-700">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-semibold">Modelos e Parâmetros por Tarefa</h3>
+          <p className="text-sm text-gray-400">Ajuste custo e qualidade de cada etapa da geração. As mudanças valem a partir da próxima geração.</p>
+        </div>
+        <button onClick={handleReset} className="flex-shrink-0 text-sm text-gray-400 hover:text-white transition">Restaurar padrões</button>
+      </div>
+
+      {GENERATION_TASKS.map(task => {
+        const service = getTaskService(task.id, providerSettings);
+        const taskSettings = settings[task.id];
+        const knownModels = KNOWN_MODELS[service][task.kind];
+        const taskErrors = errors[task.id];
+        return (
+          <div key={task.id} className={`p-4 bg-gray-900/50 border rounded-lg space-y-3 ${taskErrors ? 'border-red-700' : 'border-gray-700'}`}>
+            <div className="flex items-center justify-between">
+              <h4 className="text-sm font-semibold text-gray-200">{task.name}</h4>
+              <span className="text-xs text-gray-500">{PROVIDER_NAMES[service]}</span>
+            </div>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+              <div className="col-span-2 sm:col-span-1">
+                <label htmlFor={`${task.id}-model`} className="block text-xs font-medium text-gray-400 mb-1">Modelo</label>
+                {service === 'gemini' ? (
+                  <select
+                    id={`${task.id}-model`}
+                    value={taskSettings.models[service] ?? ''}
+                    onChange={(e) => updateTask(task.id, { models: { ...taskSettings.models, [service]: e.target.value } })}
+                    className={inputClass}
+                  >
+                    <option value="">Padrão do provedor</option>
+                    {knownModels.map(model => <option key={model} value={model}>{model}</option>)}
+                  </select>
+                ) : (
+                  <>
+                    <input
+                      id={`${task.id}-model`}
+                      type="text"
+                      list={`${task.id}-models`}
+                      value={taskSettings.models[service] ?? ''}
+                      onChange={(e) => updateTask(task.id, { models: { ...taskSettings.models, [service]: e.target.value } })}
+                      placeholder="Padrão do provedor"
+                      className={`${inputClass} font-mono`}
+                    />
+                    <datalist id={`${task.id}-models`}>
+                      {knownModels.map(model => <option key={model} value={model} />)}
+                    </datalist>
+                  </>
+                )}
+              </div>
+              <div>
+                <label htmlFor={`${task.id}-temperature`} className="block text-xs font-medium text-gray-400 mb-1">Temperatura</label>
+                <input
+                  id={`${task.id}-temperature`}
+                  type="number"
+                  min={TEMPERATURE_RANGE.min}
+                  max={TEMPERATURE_RANGE.max}
+                  step={0.1}
+                  value={taskSettings.temperature}
+                  onChange={(e) => updateTask(task.id, { temperature: Number(e.target.value) })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label htmlFor={`${task.id}-retries`} className="block text-xs font-medium text-gray-400 mb-1">Novas tentativas</label>
+                <input
+                  id={`${task.id}-retries`}
+                  type="number"
+                  min={RETRIES_RANGE.min}
+                  max={RETRIES_RANGE.max}
+                  step={1}
+                  value={taskSettings.retries}
+                  onChange={(e) => updateTask(task.id, { retries: Number(e.target.value) })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label htmlFor={`${task.id}-timeout`} className="block text-xs font-medium text-gray-400 mb-1">Tempo limite (s)</label>
+                <input
+                  id={`${task.id}-timeout`}
+                  type="number"
+                  min={TIMEOUT_RANGE_MS.min / 1000}
+                  max={TIMEOUT_RANGE_MS.max / 1000}
+                  step={5}
+                  value={taskSettings.timeoutMs / 1000}
+                  onChange={(e) => updateTask(task.id, { timeoutMs: Number(e.target.value) * 1000 })}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+            {taskErrors && (
+              <ul className="text-xs text-red-400 space-y-1">
+                {taskErrors.map(message => <li key={message}>{message}</li>)}
+              </ul>
+            )}
+          </div>
+        );
+      })}
+
+      <button
+        onClick={handleSave}
+        className={`w-full flex items-center justify-center gap-2 px-6 py-3 text-white font-semibold rounded-lg transition-colors duration-300 ${saveStatus === 'saved' ? 'bg-green-600' : saveStatus === 'error' ? 'bg-red-600 hover:bg-red-700' : 'bg-indigo-600 hover:bg-indigo-700'}`}
+      >
+        {saveStatus === 'saved' ? <><CheckIcon className="w-5 h-5" /> Configurações Salvas!</> : saveStatus === 'error' ? 'Corrija os campos destacados' : 'Salvar Configurações de Tarefas'}
+      </button>
+    </div>
+  );
+};
+
+export default TaskSettingsEditor;
@@ -0,0 +1,124 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ListingLocale, ProductContent } from '../types';
+import { translateProductContent } from '../services/geminiService';
+import { getFriendlyErrorMessage } from '../services/errorMessages';
+import { isAbortError } from '../services/abort';
+import { BASE_CURRENCY, DEFAULT_LOCALE, LISTING_LOCALES, loadCurrencySettings, saveCurrencySettings } from '../services/locales';
+
+interface TranslateDialogProps {
+  content: ProductContent;
+  onClose: () => void;
+  /** Receives the translated copy; the original listing is left untouched. */
+  onTranslated: (content: ProductContent) => void;
+}
+
+const inputClass = 'w-full px-3 py-2 bg-gray-900 border border-gray-700 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition text-sm';
+
+const TranslateDialog: React.FC<TranslateDialogProps> = ({ content, onClose, onTranslated }) => {
+  const [currencySettings, setCurrencySettings] = useState(loadCurrencySettings);
+  const targets = LISTING_LOCALES.filter(definition => definition.id !== (content.locale ?? DEFAULT_LOCALE));
+  const [locale, setLocale] = useState<ListingLocale>(targets[0].id);
+  const [currency, setCurrency] = useState(currencySettings.localeCurrency[targets[0].id]);
+  const [isTranslating, setIsTranslating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const controller = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controller.current?.abort(), []);
+
+  const handleLocaleChange = (next: ListingLocale) => {
+    setLocale(next);
+    setCurrency(currencySettings.localeCurrency[next]);
+  };
+
+  const handleRateChange = (rate: number) => {
+    setCurrencySettings(prev => ({ ...prev, rates: { ...prev.rates, [currency]: rate } }));
+  };
+
+  const handleTranslate = async () => {
+    const rate = currencySettings.rates[currency];
+    if (!(rate > 0)) {
+      setError('Informe uma taxa de câmbio maior que zero.');
+      return;
+    }
+    // The rate typed here becomes the saved one, so the next translation starts from it.
+    saveCurrencySettings(currencySettings);
+    const current = new AbortController();
+    controller.current = current;
+    setIsTranslating(true);
+    setError(null);
+    try {
+      onTranslated(await translateProductContent(content, locale, currency, current.signal));
+      onClose();
+    } catch (err) {
+      if (isAbortError(err)) return;
+      setError(getFriendlyErrorMessage(err));
+    } finally {
+      if (controller.current === current) {
+        controller.current = null;
+        setIsTranslating(false);
+      }
+    }
+  };
+
+  const sourceCurrency = content.currency ?? BASE_CURRENCY;
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4" onClick={onClose} style={{ backdropFilter: 'blur(8px)' }}>
+      <div className="bg-gray-800 rounded-lg shadow-2xl p-6 max-w-md w-full space-y-4" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-center">
+          <h3 className="text-xl font-bold">Traduzir Anúncio</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-white text-2xl font-bold transition-colors">&times;</button>
+        </div>
+        <p className="text-sm text-gray-400">Todos os textos são traduzidos, inclusive o roteiro de vídeo, o cupom e as variantes. A tradução é salva como um novo produto na biblioteca, com as mesmas imagens.</p>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div className="col-span-2">
+            <label htmlFor="translate-locale" className="block text-xs font-medium text-gray-400 mb-1">Idioma</label>
+            <select id="translate-locale" value={locale} onChange={(e) => handleLocaleChange(e.target.value as ListingLocale)} disabled={isTranslating} className={inputClass}>
+              {targets.map(definition => <option key={definition.id} value={definition.id}>{definition.name}</option>)}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="translate-currency" className="block text-xs font-medium text-gray-400 mb-1">Moeda</label>
+            <select id="translate-currency" value={currency} onChange={(e) => setCurrency(e.target.value)} disabled={isTranslating} className={inputClass}>
+              {Object.keys(currencySettings.rates).map(code => <option key={code} value={code}>{code}</option>)}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="translate-rate" className="block text-xs font-medium text-gray-400 mb-1">1 {BASE_CURRENCY} vale ({currency})</label>
+            <input
+              id="translate-rate"
+              type="number"
+              min={0}
+              step="any"
+              value={currencySettings.rates[currency] ?? ''}
+              onChange={(e) => handleRateChange(Number(e.target.value))}
+              disabled={isTranslating || currency === BASE_CURRENCY}
+              className={inputClass}
+            />
+          </div>
+        </div>
+        {sourceCurrency !== currency && (
+          <p className="text-xs text-gray-500">Os preços serão convertidos de {sourceCurrency} para {currency}.</p>
+        )}
+
+        {error && <p className="text-sm text-red-400">{error}</p>}
+
+        <div className="flex gap-2">
+          <button
+            onClick={handleTranslate}
+            disabled={isTranslating}
+            className="flex-grow px-4 py-2 bg-indigo-600 text-white text-sm font-semibold rounded-lg hover:bg-indigo-700 disabled:bg-indigo-400 disabled:cursor-not-allowed transition"
+          >
+            {isTranslating ? 'Traduzindo...' : 'Traduzir'}
+          </button>
+          {isTranslating && (
+            <button onClick={() => controller.current?.abort()} className="px-4 py-2 bg-gray-700 text-white text-sm font-semibold rounded-lg hover:bg-gray-600 transition">Cancelar</button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TranslateDialog;
@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import { CopyVariantField, CopyVariants, ProductContent, VariantChoice } from '../types';
+import CheckIcon from './icons/CheckIcon';
+
+interface VariantPickerProps {
+  content: ProductContent;
+  onApply: (patch: Partial<ProductContent>) => void;
+}
+
+const VARIANT_FIELDS: { id: CopyVariantField; label: string; canMerge: boolean }[] = [
+  { id: 'name', label: 'Título', canMerge: false },
+  { id: 'description', label: 'Descrição', canMerge: true },
+  { id: 'promotionalSlogan', label: 'Slogan', canMerge: false },
+];
+
+const splitSentences = (text: string): string[] =>
+  (text.match(/[^.!?\n]+[.!?]*/g) ?? []).map(sentence => sentence.trim()).filter(Boolean);
+
+type PickedSentence = { variant: number; sentence: number };
+
+/**
+ * Shows the alternative titles, descriptions and slogans side by side. A click puts a
+ * variant in the listing; for the description, sentences from several variants can be
+ * merged. The choice is recorded in `variantSelection`.
+ */
+const VariantPicker: React.FC<VariantPickerProps> = ({ content, onApply }) => {
+  const variants: CopyVariants = content.copyVariants ?? {};
+  const available = VARIANT_FIELDS.filter(field => (variants[field.id]?.length ?? 0) > 1);
+  const [activeField, setActiveField] = useState<CopyVariantField>(available[0]?.id ?? 'name');
+  const [picked, setPicked] = useState<PickedSentence[]>([]);
+
+  if (available.length === 0) return null;
+
+  const field = available.find(f => f.id === activeField) ?? available[0];
+  const options = variants[field.id] ?? [];
+  const currentValue = content[field.id];
+
+  const apply = (value: string, choice: Omit<VariantChoice, 'selectedAt'>) => {
+    onApply({
+      [field.id]: value,
+      variantSelection: { ...content.variantSelection, [field.id]: { ...choice, selectedAt: Date.now() } },
+    });
+    setPicked([]);
+  };
+
+  const togglePicked = (variant: number, sentence: number) => {
+    setPicked(prev => prev.some(p => p.variant === variant && p.sentence === sentence)
+      ? prev.filter(p => !(p.variant === variant && p.sentence === sentence))
+      : [...prev, { variant, sentence }]);
+  };
+
+  const mergePicked = () => {
+    const text = picked.map(p => splitSentences(options[p.variant])[p.sentence]).join(' ');
+    apply(text, { sources: Array.from(new Set(picked.map(p => p.variant))), merged: true });
+  };
+
+  const switchField = (id: CopyVariantField) => {
+    setActiveField(id);
+    setPicked([]);
+  };
+
+  return (
+    <div className="bg-gray-900/50 p-4 rounded-lg border border-gray-700 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h3 className="text-sm font-semibold text-gray-300 uppercase tracking-wider">Compare as Variantes</h3>
+        <div className="flex gap-1 bg-gray-800 p-1 rounded-lg">
+          {available.map(({ id, label }) => (
+            <button
+              key={id}
+              onClick={() => switchField(id)}
+              className={`px-3 py-1 text-xs font-semibold rounded-md transition ${id === field.id ? 'bg-indigo-600 text-white' : 'text-gray-400 hover:text-white'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {field.canMerge && (
+        <p className="text-xs text-gray-500">Clique nas frases de diferentes variantes para combiná-las em um novo texto, na ordem dos cliques.</p>
+      )}
+
+      <div className={`grid grid-cols-1 gap-3 ${options.length === 2 ? 'md:grid-cols-2' : 'md:grid-cols-3'}`}>
+        {options.map((option, variantIndex) => {
+          const isCurrent = option === currentValue;
+          return (
+            <div key={variantIndex} className={`flex flex-col p-3 rounded-lg border ${isCurrent ? 'border-indigo-500 bg-indigo-900/20' : 'border-gray-700 bg-gray-800/50'}`}>
+              <span className="text-xs font-semibold text-gray-500 mb-2">Variante {variantIndex + 1}</span>
+              {field.canMerge ? (
+                <p className="text-sm text-gray-300 flex-grow">
+                  {splitSentences(option).map((sentence, sentenceIndex) => {
+                    const order = picked.findIndex(p => p.variant === variantIndex && p.sentence === sentenceIndex);
+                    return (
+                      <span
+                        key={sentenceIndex}
+                        onClick={() => togglePicked(variantIndex, sentenceIndex)}
+                        className={`cursor-pointer rounded transition ${order >= 0 ? 'bg-indigo-600/40 text-white' : 'hover:bg-gray-700'}`}
+                      >
+                        {order >= 0 && <sup className="text-indigo-300 font-bold mr-0.5">{order + 1}</sup>}
+                        {sentence}{' '}
+                      </span>
+                    );
+                  })}
+                </p>
+              ) : (
+                <p className="text-sm text-gray-300 flex-grow">{option}</p>
+              )}
+              <button
+                onClick={() => apply(option, { sources: [variantIndex], merged: false })}
+                disabled={isCurrent}
+                className="mt-3 flex items-center justify-center gap-1 px-3 py-1.5 text-xs font-semibold rounded-lg transition bg-gray-700 text-white hover:bg-indigo-600 disabled:bg-transparent disabled:text-indigo-300 disabled:cursor-default"
+              >
+                {isCurrent ? <><CheckIcon className="w-4 h-4" /> Em uso</> : 'Usar esta'}
+              </button>
+            </div>
+          );
+        })}
+      </div>
+
+      {field.canMerge && picked.length > 0 && (
+        <div className="flex items-center gap-2">
+          <button onClick={mergePicked} className="px-4 py-2 bg-indigo-600 text-white text-sm font-semibold rounded-lg hover:bg-indigo-700 transition">
+            Combinar {picked.length} {picked.length === 1 ? 'frase' : 'frases'}
+          </button>
+          <button onClick={() => setPicked([])} className="text-sm text-gray-400 hover:text-white transition">Limpar seleção</button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VariantPicker;
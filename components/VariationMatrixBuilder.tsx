@@ -0,0 +1,177 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ProductContent, ProductVariation } from '../types';
+import { adjustVariationPrices, applySizePrices, buildVariationMatrix, parseOptionList, variationKey } from '../services/variationMatrix';
+import { assignListingSkus, loadSkuScheme } from '../services/skuScheme';
+
+interface VariationMatrixBuilderProps {
+  content: ProductContent;
+  /** Library entry of the listing, whose SKUs do not count as taken. */
+  entryId: string | null;
+  /** Replaces the whole variation list, as a single undo step. */
+  onApply: (variations: ProductVariation[]) => void;
+}
+
+const inputClass = 'w-full px-2 py-1 bg-gray-900 border border-gray-700 rounded-md focus:ring-2 focus:ring-indigo-500 outline-none text-sm';
+const buttonClass = 'px-3 py-1 bg-gray-700 text-white text-xs font-semibold rounded-md hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition whitespace-nowrap';
+
+const uniqueOptions = (values: (string | undefined)[]) => parseOptionList(values.filter(Boolean).join(','));
+
+const parseNumber = (value: string): number | undefined => {
+  if (value.trim() === '') return undefined;
+  const number = Number(value.replace(',', '.'));
+  return Number.isFinite(number) && number >= 0 ? number : undefined;
+};
+
+const VariationMatrixBuilder: React.FC<VariationMatrixBuilderProps> = ({ content, entryId, onApply }) => {
+  const { variations } = content;
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [colorsText, setColorsText] = useState('');
+  const [sizesText, setSizesText] = useState('');
+  const [stock, setStock] = useState('');
+  const [price, setPrice] = useState('');
+  const [percent, setPercent] = useState('10');
+  const [sizePrices, setSizePrices] = useState<Record<string, string>>({});
+  const [isAssigningSkus, setIsAssigningSkus] = useState(false);
+  const [skuError, setSkuError] = useState<string | null>(null);
+
+  // The option lists start from the current variations every time the builder is opened.
+  useEffect(() => {
+    if (!isExpanded) return;
+    setColorsText(uniqueOptions(variations.map(variation => variation.color)).join(', '));
+    setSizesText(uniqueOptions(variations.map(variation => variation.size)).join(', '));
+  }, [isExpanded]);
+
+  const colors = parseOptionList(colorsText);
+  const sizes = parseOptionList(sizesText);
+  const matrix = useMemo(() => buildVariationMatrix(colors, sizes, variations), [colorsText, sizesText, variations]);
+  const matrixKeys = new Set(matrix.map(variationKey));
+  const droppedCount = variations.filter(variation => (variation.color || variation.size) && !matrixKeys.has(variationKey(variation))).length;
+  const existingSizes = uniqueOptions(variations.map(variation => variation.size));
+
+  const handleApplySizePrices = () => {
+    const prices: Record<string, number> = {};
+    existingSizes.forEach(size => {
+      const parsed = parseNumber(sizePrices[size] ?? '');
+      if (parsed !== undefined) prices[size] = parsed;
+    });
+    onApply(applySizePrices(variations, prices));
+  };
+
+  const handleGenerateSkus = async () => {
+    setIsAssigningSkus(true);
+    setSkuError(null);
+    try {
+      onApply((await assignListingSkus(content, entryId, true)).variations);
+    } catch (err) {
+      console.error(err);
+      setSkuError('Não foi possível consultar os SKUs do catálogo.');
+    } finally {
+      setIsAssigningSkus(false);
+    }
+  };
+
+  return (
+    <div className="mb-4 p-3 bg-gray-900/60 border border-gray-700 rounded-lg text-sm">
+      <button onClick={() => setIsExpanded(prev => !prev)} className="text-indigo-400 hover:text-indigo-300 font-medium transition">
+        Gerador de combinações e edição em massa {isExpanded ? '(ocultar)' : '(mostrar)'}
+      </button>
+      {isExpanded && (
+        <div className="mt-3 space-y-4">
+          <div className="space-y-2">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <label className="block">
+                <span className="block text-xs text-gray-400 mb-1">Cores (separadas por vírgula)</span>
+                <input type="text" value={colorsText} onChange={(e) => setColorsText(e.target.value)} placeholder="Preto, Branco, Azul" className={inputClass} />
+              </label>
+              <label className="block">
+                <span className="block text-xs text-gray-400 mb-1">Tamanhos (separados por vírgula)</span>
+                <input type="text" value={sizesText} onChange={(e) => setSizesText(e.target.value)} placeholder="P, M, G" className={inputClass} />
+              </label>
+            </div>
+            <div className="flex flex-wrap items-center gap-3">
+              <button onClick={() => onApply(matrix)} disabled={matrix.length === 0} className="px-3 py-1 bg-indigo-600 text-white text-xs font-semibold rounded-md hover:bg-indigo-700 disabled:bg-indigo-400 disabled:cursor-not-allowed transition">
+                Gerar {matrix.length} {matrix.length === 1 ? 'combinação' : 'combinações'}
+              </button>
+              <span className="text-xs text-gray-400">
+                As combinações que já existem mantêm estoque, preço e SKU.
+                {droppedCount > 0 && <span className="text-yellow-300"> {droppedCount} {droppedCount === 1 ? 'variação atual fica fora e será removida' : 'variações atuais ficam fora e serão removidas'}.</span>}
+              </span>
+            </div>
+          </div>
+
+          {variations.length > 0 && (
+            <div className="space-y-3 pt-3 border-t border-gray-700">
+              <div className="flex flex-wrap items-end gap-2">
+                <label className="block w-28">
+                  <span className="block text-xs text-gray-400 mb-1">Estoque</span>
+                  <input type="number" min="0" value={stock} onChange={(e) => setStock(e.target.value)} className={inputClass} />
+                </label>
+                <button
+                  onClick={() => onApply(variations.map(variation => ({ ...variation, stock: parseNumber(stock) })))}
+                  disabled={parseNumber(stock) === undefined}
+                  className={buttonClass}
+                >
+                  Aplicar a todas
+                </button>
+                <label className="block w-28 ml-4">
+                  <span className="block text-xs text-gray-400 mb-1">Preço</span>
+                  <input type="number" min="0" step="0.01" value={price} onChange={(e) => setPrice(e.target.value)} className={inputClass} />
+                </label>
+                <button
+                  onClick={() => onApply(variations.map(variation => ({ ...variation, price: parseNumber(price) })))}
+                  disabled={parseNumber(price) === undefined}
+                  className={buttonClass}
+                >
+                  Aplicar a todas
+                </button>
+                <label className="block w-20 ml-4">
+                  <span className="block text-xs text-gray-400 mb-1">Ajuste (%)</span>
+                  <input type="number" min="0" value={percent} onChange={(e) => setPercent(e.target.value)} className={inputClass} />
+                </label>
+                <button onClick={() => onApply(adjustVariationPrices(variations, parseNumber(percent) ?? 0, content.price))} disabled={!parseNumber(percent)} className={buttonClass}>
+                  +{percent || 0}%
+                </button>
+                <button onClick={() => onApply(adjustVariationPrices(variations, -(parseNumber(percent) ?? 0), content.price))} disabled={!parseNumber(percent)} className={buttonClass}>
+                  -{percent || 0}%
+                </button>
+              </div>
+
+              {existingSizes.length > 0 && (
+                <div className="flex flex-wrap items-end gap-2">
+                  {existingSizes.map(size => (
+                    <label key={size} className="block w-24">
+                      <span className="block text-xs text-gray-400 mb-1 truncate">Preço {size}</span>
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={sizePrices[size] ?? ''}
+                        onChange={(e) => setSizePrices(prev => ({ ...prev, [size]: e.target.value }))}
+                        className={inputClass}
+                      />
+                    </label>
+                  ))}
+                  <button onClick={handleApplySizePrices} disabled={!existingSizes.some(size => parseNumber(sizePrices[size] ?? '') !== undefined)} className={buttonClass}>
+                    Aplicar preços por tamanho
+                  </button>
+                </div>
+              )}
+
+              <div className="flex flex-wrap items-center gap-2">
+                <button onClick={handleGenerateSkus} disabled={isAssigningSkus} className={buttonClass}>
+                  {isAssigningSkus ? 'Gerando SKUs...' : 'Gerar SKUs das variações'}
+                </button>
+                <span className="text-xs text-gray-500">
+                  Padrão <span className="font-mono">{loadSkuScheme().variationPattern}</span>, definido no painel de admin. SKUs já usados no catálogo são evitados.
+                </span>
+              </div>
+              {skuError && <p className="text-xs text-red-400">{skuError}</p>}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VariationMatrixBuilder;
@@ -0,0 +1,148 @@
+import { useState, useRef } from 'react';
+import { createBatchQueue, BatchQueue, BatchQueueState } from '../services/batchQueue';
+import { runProductPipeline, PipelineStage } from '../services/productPipeline';
+import { getFriendlyErrorMessage } from '../services/errorMessages';
+import { resizeImage } from '../services/imageUtils';
+import { createLibraryEntryId, createThumbnail, saveLibraryEntry } from '../services/libraryService';
+import { BrandProfile, LibraryEntry, LibraryEntryImages, ListingLocale, MarketplaceId } from '../types';
+
+export interface BatchInput {
+  /** The library entry the item is saved to, reused when it is retried. */
+  entryId: string;
+  file: File;
+  keywords: string;
+  preview: string;
+  brandProfile: BrandProfile | null;
+  locale: ListingLocale;
+  marketplace: MarketplaceId;
+}
+
+export interface BatchResult {
+  entryId: string;
+  name: string;
+  imageCount: number;
+}
+
+const STAGE_LABELS: Record<PipelineStage, string> = {
+  base_image: 'Gerando imagem base...',
+  content: 'Gerando conteúdo...',
+  images: 'Criando imagens...',
+};
+
+const DEFAULT_CONCURRENCY = 2;
+
+// Runs the full pipeline for one image, saving each result to the product library as it
+// arrives, as a single generation does, so a failing image stage keeps the content.
+const processBatchItem = async (
+  input: BatchInput,
+  reportProgress: (progress: string) => void,
+  reportResult: (result: BatchResult) => void
+): Promise<BatchResult> => {
+  const { entryId, keywords } = input;
+  const image = await resizeImage(input.file, 1024);
+  let result: BatchResult | null = null;
+  let hasMainImage = false;
+  // Saves are chained so they land in order; the first one holds the content.
+  let saving: Promise<unknown> = Promise.resolve();
+  const save = (entry: Partial<Omit<LibraryEntry, 'id' | 'createdAt' | 'updatedAt'>>, images: Partial<Omit<LibraryEntryImages, 'id'>>, thumbnailSource?: Blob | string) => {
+    saving = saving.then(async () => {
+      const thumbnail = thumbnailSource ? await createThumbnail(thumbnailSource) : undefined;
+      await saveLibraryEntry({ id: entryId, ...entry, thumbnail }, images);
+    });
+  };
+  const report = (imageCount: number) => {
+    result = { ...result!, imageCount };
+    reportResult(result);
+  };
+
+  try {
+    await runProductPipeline({ image, keywords, brandProfile: input.brandProfile, locale: input.locale, marketplace: input.marketplace }, {
+      onStage: (stage) => reportProgress(STAGE_LABELS[stage]),
+      onContent: (content) => {
+        save({ keywords, content }, { originalImage: image }, image);
+        result = { entryId, name: content.name, imageCount: 0 };
+        reportResult(result);
+      },
+      onMainImage: (mainImage) => {
+        if (!mainImage) return;
+        hasMainImage = true;
+        save({}, { mainImage }, mainImage);
+        report(1);
+      },
+      onMockups: (mockups) => {
+        save({}, { mockups });
+        report((hasMainImage ? 1 : 0) + mockups.length);
+      },
+    });
+  } finally {
+    // The item is only marked done or failed once what it produced is in the library.
+    await saving;
+  }
+  return result!;
+};
+
+/**
+ * The batch generation queue and its state. It is owned by App rather than by the batch
+ * panel, so a running batch keeps its items, controls and summary while the library or
+ * the admin panel is open.
+ */
+export const useBatchQueue = () => {
+  const [state, setState] = useState<BatchQueueState<BatchInput, BatchResult>>({
+    items: [], isRunning: false, isPaused: false, summary: null,
+  });
+  const [concurrency, setConcurrency] = useState(DEFAULT_CONCURRENCY);
+  const [hasStarted, setHasStarted] = useState(false);
+  const queueRef = useRef<BatchQueue<BatchInput, BatchResult> | null>(null);
+
+  if (!queueRef.current) {
+    queueRef.current = createBatchQueue<BatchInput, BatchResult>({
+      concurrency: DEFAULT_CONCURRENCY,
+      worker: processBatchItem,
+      onChange: setState,
+      describeError: getFriendlyErrorMessage,
+    });
+  }
+  const queue = queueRef.current;
+
+  const changeConcurrency = (value: number) => {
+    setConcurrency(value);
+    queue.setConcurrency(value);
+  };
+
+  const start = () => {
+    setHasStarted(true);
+    queue.start();
+  };
+
+  // Previews are released as their items leave the list.
+  const remove = (id: string) => {
+    const item = state.items.find(i => i.id === id);
+    if (item && item.status !== 'running') URL.revokeObjectURL(item.input.preview);
+    queue.remove(id);
+  };
+
+  const clearFinished = () => {
+    state.items
+      .filter(item => item.status === 'done' || item.status === 'error')
+      .forEach(item => URL.revokeObjectURL(item.input.preview));
+    queue.clearFinished();
+  };
+
+  return {
+    ...state,
+    concurrency,
+    hasStarted,
+    add: (inputs: Omit<BatchInput, 'entryId'>[]) => queue.add(inputs.map(input => ({ ...input, entryId: createLibraryEntryId() }))),
+    updateInput: queue.updateInput,
+    pause: queue.pause,
+    resume: queue.start,
+    retry: queue.retry,
+    retryFailed: queue.retryFailed,
+    setConcurrency: changeConcurrency,
+    start,
+    remove,
+    clearFinished,
+  };
+};
+
+export type BatchQueueStore = ReturnType<typeof useBatchQueue>;
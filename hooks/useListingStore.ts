@@ -0,0 +1,181 @@
+import { useReducer, useCallback, useMemo } from 'react';
+import { ProductContent, FieldHistory, FieldRevision, RevisionSource } from '../types';
+
+export type ListingField = keyof ProductContent;
+
+// Consecutive edits to the same field within this window become a single undo step,
+// so typing a sentence does not create one step per keystroke.
+const COALESCE_WINDOW_MS = 1000;
+const MAX_UNDO_STEPS = 100;
+
+interface ListingState {
+  present: ProductContent | null;
+  past: ProductContent[];
+  future: ProductContent[];
+  fieldHistory: FieldHistory;
+  lastEdit: { field: ListingField; at: number } | null;
+}
+
+type ListingAction =
+  | { type: 'load'; content: ProductContent | null; fieldHistory?: FieldHistory }
+  | { type: 'update'; field: ListingField; value: unknown; source: RevisionSource }
+  | { type: 'updateMany'; patch: Partial<ProductContent>; source: RevisionSource }
+  | { type: 'undo' }
+  | { type: 'redo' };
+
+const initialState: ListingState = {
+  present: null,
+  past: [],
+  future: [],
+  fieldHistory: {},
+  lastEdit: null,
+};
+
+const isSameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+/** Seeds the history with the value each field had when the listing was generated. */
+const buildInitialHistory = (content: ProductContent): FieldHistory => {
+  const timestamp = Date.now();
+  const history: FieldHistory = {};
+  (Object.keys(content) as ListingField[]).forEach(field => {
+    history[field] = [{ value: content[field], source: 'ai', timestamp }];
+  });
+  return history;
+};
+
+const appendRevision = (
+  revisions: FieldRevision[] = [],
+  revision: FieldRevision,
+  coalesce: boolean
+): FieldRevision[] => {
+  const last = revisions[revisions.length - 1];
+  if (last && isSameValue(last.value, revision.value)) return revisions;
+  if (coalesce && last && last.source === 'manual' && revision.source === 'manual') {
+    return [...revisions.slice(0, -1), revision];
+  }
+  return [...revisions, revision];
+};
+
+const listingReducer = (state: ListingState, action: ListingAction): ListingState => {
+  switch (action.type) {
+    case 'load':
+      return {
+        ...initialState,
+        present: action.content,
+        fieldHistory: action.fieldHistory ?? (action.content ? buildInitialHistory(action.content) : {}),
+      };
+
+    case 'update': {
+      if (!state.present || isSameValue(state.present[action.field], action.value)) return state;
+      const now = Date.now();
+      const coalesce = action.source === 'manual'
+        && state.lastEdit?.field === action.field
+        && now - state.lastEdit.at < COALESCE_WINDOW_MS;
+
+      return {
+        present: { ...state.present, [action.field]: action.value },
+        past: coalesce ? state.past : [...state.past, state.present].slice(-MAX_UNDO_STEPS),
+        future: [],
+        fieldHistory: {
+          ...state.fieldHistory,
+          [action.field]: appendRevision(
+            state.fieldHistory[action.field],
+            { value: action.value, source: action.source, timestamp: now },
+            coalesce
+          ),
+        },
+        lastEdit: action.source === 'manual' ? { field: action.field, at: now } : null,
+      };
+    }
+
+    case 'updateMany': {
+      if (!state.present) return state;
+      const present = state.present;
+      const changed = (Object.keys(action.patch) as ListingField[]).filter(field => !isSameValue(present[field], action.patch[field]));
+      if (changed.length === 0) return state;
+      const now = Date.now();
+      const fieldHistory = { ...state.fieldHistory };
+      changed.forEach(field => {
+        fieldHistory[field] = appendRevision(fieldHistory[field], { value: action.patch[field], source: action.source, timestamp: now }, false);
+      });
+
+      return {
+        present: { ...present, ...action.patch },
+        past: [...state.past, present].slice(-MAX_UNDO_STEPS),
+        future: [],
+        fieldHistory,
+        lastEdit: null,
+      };
+    }
+
+    case 'undo': {
+      if (!state.present || state.past.length === 0) return state;
+      return {
+        ...state,
+        present: state.past[state.past.length - 1],
+        past: state.past.slice(0, -1),
+        future: [state.present, ...state.future],
+        lastEdit: null,
+      };
+    }
+
+    case 'redo': {
+      if (!state.present || state.future.length === 0) return state;
+      return {
+        ...state,
+        present: state.future[0],
+        past: [...state.past, state.present],
+        future: state.future.slice(1),
+        lastEdit: null,
+      };
+    }
+
+    default:
+      return state;
+  }
+};
+
+/**
+ * Holds the listing being edited: the current content, an undo/redo stack that
+ * covers every field (including the variations table) and a per-field revision log
+ * that keeps the AI-generated value next to each manual revision.
+ */
+export const useListingStore = () => {
+  const [state, dispatch] = useReducer(listingReducer, initialState);
+
+  const load = useCallback((content: ProductContent | null, fieldHistory?: FieldHistory) => {
+    dispatch({ type: 'load', content, fieldHistory });
+  }, []);
+
+  const updateField = useCallback(<K extends ListingField>(field: K, value: ProductContent[K], source: RevisionSource = 'manual') => {
+    dispatch({ type: 'update', field, value, source });
+  }, []);
+
+  /** Changes several fields as a single undo step, e.g. when accepting a regenerated section. */
+  const updateFields = useCallback((patch: Partial<ProductContent>, source: RevisionSource = 'manual') => {
+    dispatch({ type: 'updateMany', patch, source });
+  }, []);
+
+  const restoreRevision = useCallback((field: ListingField, revision: FieldRevision) => {
+    // Restoring is itself an undoable edit that keeps the restored revision's origin.
+    dispatch({ type: 'update', field, value: revision.value, source: revision.source });
+  }, []);
+
+  const undo = useCallback(() => dispatch({ type: 'undo' }), []);
+  const redo = useCallback(() => dispatch({ type: 'redo' }), []);
+
+  return useMemo(() => ({
+    content: state.present,
+    fieldHistory: state.fieldHistory,
+    canUndo: state.past.length > 0,
+    canRedo: state.future.length > 0,
+    load,
+    updateField,
+    updateFields,
+    restoreRevision,
+    undo,
+    redo,
+  }), [state, load, updateField, updateFields, restoreRevision, undo, redo]);
+};
+
+export type ListingStore = ReturnType<typeof useListingStore>;
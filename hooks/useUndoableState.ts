@@ -0,0 +1,97 @@
+import { useReducer, useCallback } from 'react';
+
+const MAX_UNDO_STEPS = 100;
+
+interface UndoableState<T> {
+  past: T[];
+  present: T;
+  future: T[];
+  /** The value before the gesture in progress (a drag, typing), recorded when it ends. */
+  gestureStart: T | null;
+}
+
+type UndoableAction<T> =
+  | { type: 'set'; value: T; transient: boolean }
+  | { type: 'commit' }
+  | { type: 'reset'; value: T }
+  | { type: 'undo' }
+  | { type: 'redo' };
+
+const record = <T>(state: UndoableState<T>, previous: T, value: T): UndoableState<T> => ({
+  past: [...state.past, previous].slice(-MAX_UNDO_STEPS),
+  present: value,
+  future: [],
+  gestureStart: null,
+});
+
+const undoableReducer = <T>(state: UndoableState<T>, action: UndoableAction<T>): UndoableState<T> => {
+  switch (action.type) {
+    case 'set':
+      if (action.value === state.present) return state;
+      if (action.transient) return { ...state, present: action.value, gestureStart: state.gestureStart ?? state.present };
+      return record(state, state.gestureStart ?? state.present, action.value);
+
+    case 'commit':
+      if (state.gestureStart === null) return state;
+      if (state.gestureStart === state.present) return { ...state, gestureStart: null };
+      return record(state, state.gestureStart, state.present);
+
+    case 'reset':
+      return { past: [], present: action.value, future: [], gestureStart: null };
+
+    case 'undo': {
+      // A gesture still in progress is recorded first, so undo reverts it as a whole.
+      const settled = undoableReducer(state, { type: 'commit' });
+      if (settled.past.length === 0) return settled;
+      return {
+        past: settled.past.slice(0, -1),
+        present: settled.past[settled.past.length - 1],
+        future: [settled.present, ...settled.future],
+        gestureStart: null,
+      };
+    }
+
+    case 'redo': {
+      // Recording a gesture in progress starts a new branch, so there is nothing left to redo.
+      if (state.gestureStart !== null) return undoableReducer(state, { type: 'commit' });
+      if (state.future.length === 0) return state;
+      return {
+        past: [...state.past, state.present],
+        present: state.future[0],
+        future: state.future.slice(1),
+        gestureStart: null,
+      };
+    }
+  }
+};
+
+/**
+ * A value with undo and redo. Transient updates (each step of a drag, each keystroke)
+ * change the value without recording it; `commit` then records the whole gesture as a
+ * single undo step.
+ */
+export const useUndoableState = <T>(initial: T) => {
+  const [state, dispatch] = useReducer(undoableReducer as (state: UndoableState<T>, action: UndoableAction<T>) => UndoableState<T>, {
+    past: [],
+    present: initial,
+    future: [],
+    gestureStart: null,
+  });
+
+  const set = useCallback((value: T, transient = false) => dispatch({ type: 'set', value, transient }), []);
+  const commit = useCallback(() => dispatch({ type: 'commit' }), []);
+  const reset = useCallback((value: T) => dispatch({ type: 'reset', value }), []);
+  const undo = useCallback(() => dispatch({ type: 'undo' }), []);
+  const redo = useCallback(() => dispatch({ type: 'redo' }), []);
+
+  return {
+    value: state.present,
+    set,
+    commit,
+    reset,
+    undo,
+    redo,
+    canUndo: state.past.length > 0 || (state.gestureStart !== null && state.gestureStart !== state.present),
+    canRedo: state.future.length > 0,
+  };
+};
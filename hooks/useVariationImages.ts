@@ -0,0 +1,116 @@
+import { useEffect, useRef, useState } from 'react';
+import { GeneratedProductImage, ProductContent, ProductVariation } from '../types';
+import { generateVariationImage } from '../services/geminiService';
+import { isAbortError, sleep } from '../services/abort';
+import { variationKey } from '../services/variationMatrix';
+
+const isSameColor = (a: string | undefined, b: string | undefined) => variationKey({ color: a }) === variationKey({ color: b });
+
+export interface VariationImages {
+  /** Keys (see `variationKey`) of the variations whose image is being generated. */
+  pendingKeys: Set<string>;
+  error: string | null;
+  /** Colors that have at least one variation still without an image. */
+  missingColors: string[];
+  /** Generates one image per missing color, attaching each to every variation of that color. */
+  generateMissing: () => Promise<void>;
+  /** Generates a new image for a single variation. */
+  regenerate: (variation: ProductVariation) => Promise<void>;
+}
+
+const createImageId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Recolored photos for the color variations, made from the refined main image one at a
+ * time. Each photo goes to `onImage` to be stored with the listing images, and only its
+ * id is set on the variations, as they are when it arrives, so edits made to the table
+ * in the meantime are kept. Switching to another listing cancels the pending generations.
+ */
+export const useVariationImages = (
+  content: ProductContent | null,
+  mainImage: GeneratedProductImage,
+  images: Record<string, string>,
+  entryId: string | null,
+  onImage: (imageId: string, image: string) => void,
+  onApply: (variations: ProductVariation[]) => void
+): VariationImages => {
+  const [pendingKeys, setPendingKeys] = useState<Set<string>>(new Set());
+  const [error, setError] = useState<string | null>(null);
+  const contentRef = useRef(content);
+  contentRef.current = content;
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setPendingKeys(new Set());
+    setError(null);
+    return () => controller.abort();
+  }, [entryId]);
+
+  const setPending = (keys: string[], isPending: boolean) =>
+    setPendingKeys(prev => {
+      const next = new Set(prev);
+      keys.forEach(key => (isPending ? next.add(key) : next.delete(key)));
+      return next;
+    });
+
+  const hasImage = (variation: ProductVariation) => Boolean(variation.imageId && images[variation.imageId]);
+
+  const attach = (image: string, matches: (variation: ProductVariation) => boolean) => {
+    const current = contentRef.current;
+    if (!current) return;
+    const imageId = createImageId();
+    onImage(imageId, image);
+    onApply(current.variations.map(variation => (matches(variation) ? { ...variation, imageId } : variation)));
+  };
+
+  const missingColors = (content?.variations ?? [])
+    .filter(variation => variation.color?.trim() && !hasImage(variation))
+    .map(variation => variation.color!.trim())
+    .filter((color, index, colors) => colors.findIndex(other => isSameColor(other, color)) === index);
+
+  const generateMissing = async () => {
+    const signal = controllerRef.current?.signal;
+    if (!mainImage || !content) return;
+    setError(null);
+    const failedColors: string[] = [];
+    for (const color of missingColors) {
+      const keys = content.variations.filter(variation => isSameColor(variation.color, color)).map(variationKey);
+      setPending(keys, true);
+      try {
+        const image = await generateVariationImage(mainImage, color, content.category, signal);
+        attach(image, variation => isSameColor(variation.color, color) && !hasImage(variation));
+      } catch (err) {
+        if (isAbortError(err)) return;
+        failedColors.push(color);
+      } finally {
+        setPending(keys, false);
+      }
+      // A short pause between images, as with the mockups, to stay clear of rate limits.
+      await sleep(250, signal).catch(() => undefined);
+      if (signal?.aborted) return;
+    }
+    if (failedColors.length > 0) {
+      setError(`Não foi possível gerar a imagem de: ${failedColors.join(', ')}. Tente novamente.`);
+    }
+  };
+
+  const regenerate = async (variation: ProductVariation) => {
+    if (!mainImage || !content || !variation.color?.trim()) return;
+    const key = variationKey(variation);
+    setError(null);
+    setPending([key], true);
+    try {
+      const image = await generateVariationImage(mainImage, variation.color.trim(), content.category, controllerRef.current?.signal);
+      attach(image, current => variationKey(current) === key);
+    } catch (err) {
+      if (isAbortError(err)) return;
+      setError(err instanceof Error ? err.message : 'Não foi possível gerar a imagem da variação.');
+    } finally {
+      setPending([key], false);
+    }
+  };
+
+  return { pendingKeys, error, missingColors, generateMissing, regenerate };
+};
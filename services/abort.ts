@@ -0,0 +1,65 @@
+/**
+ * Helpers for cancelling a generation. Every service that accepts an AbortSignal
+ * rejects with the error created here, so callers can tell a cancellation apart
+ * from a real failure with `isAbortError`.
+ */
+
+export const createAbortError = (): Error => {
+  const error = new Error('A geração foi cancelada pelo usuário.');
+  error.name = 'AbortError';
+  return error;
+};
+
+// The SDK and fetch reject with a DOMException named 'AbortError', which is not always an Error instance.
+export const isAbortError = (error: unknown): boolean =>
+  typeof error === 'object' && error !== null && (error as { name?: unknown }).name === 'AbortError';
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw createAbortError();
+};
+
+/** Waits for `ms`, rejecting early if the signal is aborted. */
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(createAbortError());
+    const onAbort = () => {
+      clearTimeout(timeout);
+      reject(createAbortError());
+    };
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Runs `fn` with a signal that aborts after `timeoutMs` or when `signal` aborts.
+ * A timeout rejects with a regular Error so retry logic treats it as a failure,
+ * while a cancellation still rejects with the abort error.
+ */
+export const withTimeout = async <T>(fn: (signal: AbortSignal) => Promise<T>, timeoutMs: number, signal?: AbortSignal): Promise<T> => {
+  throwIfAborted(signal);
+  const controller = new AbortController();
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+  let timeout: ReturnType<typeof setTimeout> | undefined;
+
+  // Not every step honours the signal, so the timeout also races the call itself.
+  const timedOut = new Promise<never>((_, reject) => {
+    timeout = setTimeout(() => {
+      reject(new Error(`A solicitação excedeu o tempo limite de ${Math.round(timeoutMs / 1000)} s.`));
+      controller.abort();
+    }, timeoutMs);
+  });
+
+  try {
+    return await Promise.race([fn(controller.signal), timedOut]);
+  } catch (error) {
+    throwIfAborted(signal);
+    throw error;
+  } finally {
+    clearTimeout(timeout);
+    signal?.removeEventListener('abort', onAbort);
+  }
+};
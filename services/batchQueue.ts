@@ -0,0 +1,164 @@
+export type BatchItemStatus = 'pending' | 'running' | 'done' | 'error';
+
+export interface BatchItem<TInput, TResult> {
+  id: string;
+  input: TInput;
+  status: BatchItemStatus;
+  /** Free-form progress label reported by the worker while running. */
+  progress?: string;
+  /** Set when the item is done; a failed item keeps what it had reported. */
+  result?: TResult;
+  error?: string;
+  attempts: number;
+  startedAt?: number;
+  finishedAt?: number;
+}
+
+export interface BatchSummary {
+  total: number;
+  done: number;
+  failed: number;
+  durationMs: number;
+}
+
+export interface BatchQueueState<TInput, TResult> {
+  items: BatchItem<TInput, TResult>[];
+  isRunning: boolean;
+  isPaused: boolean;
+  /** Set when the queue drains; cleared when new work is started. */
+  summary: BatchSummary | null;
+}
+
+export interface BatchQueueOptions<TInput, TResult> {
+  concurrency: number;
+  /** `reportResult` records what the item has produced so far, kept if it then fails. */
+  worker: (input: TInput, reportProgress: (progress: string) => void, reportResult: (result: TResult) => void) => Promise<TResult>;
+  onChange: (state: BatchQueueState<TInput, TResult>) => void;
+  describeError?: (error: unknown) => string;
+}
+
+/**
+ * A small in-memory work queue with a concurrency limit, pause/resume and retries.
+ * Pausing stops new items from starting; items already running are allowed to finish.
+ */
+export const createBatchQueue = <TInput, TResult>(options: BatchQueueOptions<TInput, TResult>) => {
+  let items: BatchItem<TInput, TResult>[] = [];
+  let concurrency = Math.max(1, options.concurrency);
+  let isPaused = false;
+  let runningCount = 0;
+  let batchStartedAt: number | null = null;
+  let summary: BatchSummary | null = null;
+  let nextId = 1;
+
+  const emit = () => {
+    options.onChange({
+      items: [...items],
+      isRunning: runningCount > 0,
+      isPaused,
+      summary,
+    });
+  };
+
+  const updateItem = (id: string, patch: Partial<BatchItem<TInput, TResult>>) => {
+    items = items.map(item => (item.id === id ? { ...item, ...patch } : item));
+    emit();
+  };
+
+  const finishBatchIfDrained = () => {
+    // A paused batch with items still pending is not finished yet.
+    if (runningCount > 0 || batchStartedAt === null || items.some(item => item.status === 'pending')) return;
+    summary = {
+      total: items.length,
+      done: items.filter(item => item.status === 'done').length,
+      failed: items.filter(item => item.status === 'error').length,
+      durationMs: Date.now() - batchStartedAt,
+    };
+    batchStartedAt = null;
+    emit();
+  };
+
+  const runItem = async (item: BatchItem<TInput, TResult>) => {
+    runningCount++;
+    updateItem(item.id, { status: 'running', progress: undefined, error: undefined, attempts: item.attempts + 1, startedAt: Date.now() });
+    try {
+      const result = await options.worker(
+        item.input,
+        (progress) => updateItem(item.id, { progress }),
+        (partial) => updateItem(item.id, { result: partial })
+      );
+      runningCount--;
+      updateItem(item.id, { status: 'done', result, progress: undefined, finishedAt: Date.now() });
+    } catch (error) {
+      console.error(`Batch item ${item.id} failed:`, error);
+      runningCount--;
+      const message = options.describeError ? options.describeError(error) : error instanceof Error ? error.message : String(error);
+      updateItem(item.id, { status: 'error', error: message, progress: undefined, finishedAt: Date.now() });
+    }
+    pump();
+  };
+
+  const pump = () => {
+    while (!isPaused && runningCount < concurrency) {
+      const next = items.find(item => item.status === 'pending');
+      if (!next) break;
+      if (batchStartedAt === null) {
+        batchStartedAt = Date.now();
+        summary = null;
+      }
+      runItem(next);
+    }
+    finishBatchIfDrained();
+  };
+
+  return {
+    add: (inputs: TInput[]) => {
+      items = [
+        ...items,
+        ...inputs.map(input => ({ id: String(nextId++), input, status: 'pending' as const, attempts: 0 })),
+      ];
+      emit();
+    },
+    /** Updates the input of an item that has not started yet. */
+    updateInput: (id: string, input: TInput) => {
+      const item = items.find(i => i.id === id);
+      if (item && item.status === 'pending') updateItem(id, { input });
+    },
+    remove: (id: string) => {
+      items = items.filter(item => item.id !== id || item.status === 'running');
+      emit();
+    },
+    start: () => {
+      isPaused = false;
+      emit();
+      pump();
+    },
+    pause: () => {
+      isPaused = true;
+      emit();
+    },
+    retry: (id: string) => {
+      const item = items.find(i => i.id === id);
+      if (item && item.status === 'error') {
+        updateItem(id, { status: 'pending', error: undefined });
+        pump();
+      }
+    },
+    retryFailed: () => {
+      items = items.map(item => (item.status === 'error' ? { ...item, status: 'pending', error: undefined } : item));
+      emit();
+      pump();
+    },
+    /** Removes finished items, keeping pending and running ones. */
+    clearFinished: () => {
+      items = items.filter(item => item.status === 'pending' || item.status === 'running');
+      summary = null;
+      emit();
+    },
+    setConcurrency: (value: number) => {
+      concurrency = Math.max(1, value);
+      pump();
+    },
+  };
+};
+
+export type BatchQueue<TInput, TResult> = ReturnType<typeof createBatchQueue<TInput, TResult>>;
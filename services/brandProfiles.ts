@@ -0,0 +1,86 @@
+import { BrandProfile, EmojiPolicy } from '../types';
+
+const BRAND_PROFILES_STORAGE_KEY = 'brand_profiles';
+const SELECTED_BRAND_PROFILE_STORAGE_KEY = 'selected_brand_profile';
+
+export const EMOJI_POLICY_LABELS: Record<EmojiPolicy, string> = {
+  none: 'Não usar emojis',
+  moderate: 'Poucos emojis, só nas redes sociais',
+  free: 'Emojis à vontade',
+};
+
+const EMOJI_POLICY_INSTRUCTIONS: Record<EmojiPolicy, string> = {
+  none: 'Não use emojis em nenhum texto, nem no post para redes sociais.',
+  moderate: 'Use no máximo 3 emojis, apenas no post para redes sociais e no roteiro de vídeo.',
+  free: 'Use emojis livremente onde combinarem com o texto.',
+};
+
+export const createEmptyBrandProfile = (): BrandProfile => ({
+  id: `brand-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  name: '',
+  tone: '',
+  preferredTerms: [],
+  avoidedTerms: [],
+  emojiPolicy: 'moderate',
+  targetAudience: '',
+  boilerplate: '',
+});
+
+export const loadBrandProfiles = (): BrandProfile[] => {
+  try {
+    const stored = localStorage.getItem(BRAND_PROFILES_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (e) {
+    console.error("Failed to parse brand profiles from localStorage", e);
+    return [];
+  }
+};
+
+const saveBrandProfiles = (profiles: BrandProfile[]) => {
+  localStorage.setItem(BRAND_PROFILES_STORAGE_KEY, JSON.stringify(profiles));
+};
+
+/** Adds the profile, or replaces the saved one with the same id. */
+export const saveBrandProfile = (profile: BrandProfile): BrandProfile[] => {
+  const profiles = loadBrandProfiles();
+  const index = profiles.findIndex(p => p.id === profile.id);
+  const updated = index === -1 ? [...profiles, profile] : profiles.map(p => (p.id === profile.id ? profile : p));
+  saveBrandProfiles(updated);
+  return updated;
+};
+
+export const deleteBrandProfile = (id: string): BrandProfile[] => {
+  const updated = loadBrandProfiles().filter(p => p.id !== id);
+  saveBrandProfiles(updated);
+  if (loadSelectedBrandProfileId() === id) saveSelectedBrandProfileId(null);
+  return updated;
+};
+
+export const getBrandProfile = (id: string | null | undefined): BrandProfile | null =>
+  (id && loadBrandProfiles().find(p => p.id === id)) || null;
+
+/** The profile last picked in the product input, remembered between sessions. */
+export const loadSelectedBrandProfileId = (): string | null => localStorage.getItem(SELECTED_BRAND_PROFILE_STORAGE_KEY);
+
+export const saveSelectedBrandProfileId = (id: string | null) => {
+  if (id) localStorage.setItem(SELECTED_BRAND_PROFILE_STORAGE_KEY, id);
+  else localStorage.removeItem(SELECTED_BRAND_PROFILE_STORAGE_KEY);
+};
+
+/** The profile as a list of instructions, the value of the {{brandVoice}} placeholder. */
+export const describeBrandVoice = (profile: BrandProfile): string => {
+  const lines = [`Marca/loja: ${profile.name}`];
+  if (profile.tone.trim()) lines.push(`Tom de voz: ${profile.tone.trim()}`);
+  if (profile.targetAudience.trim()) lines.push(`Público-alvo: ${profile.targetAudience.trim()}`);
+  if (profile.preferredTerms.length > 0) lines.push(`Prefira usar estes termos: ${profile.preferredTerms.join(', ')}`);
+  if (profile.avoidedTerms.length > 0) lines.push(`Nunca use estes termos: ${profile.avoidedTerms.join(', ')}`);
+  lines.push(`Emojis: ${EMOJI_POLICY_INSTRUCTIONS[profile.emojiPolicy]}`);
+  return lines.map(line => `- ${line}`).join('\n');
+};
+
+// The boilerplate must reach the listing word for word, so it is added here instead of asking the AI.
+export const appendBrandBoilerplate = (text: string, profile: BrandProfile | null): string => {
+  const boilerplate = profile?.boilerplate.trim();
+  if (!boilerplate || text.includes(boilerplate)) return text;
+  return text ? `${text.trimEnd()}\n\n${boilerplate}` : boilerplate;
+};
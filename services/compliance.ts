@@ -0,0 +1,227 @@
+import { ProductContent } from '../types';
+import { TranslatableText, applyTranslatedTexts, collectTranslatableTexts } from './listingTranslation';
+
+export type ComplianceSeverity = 'error' | 'warning';
+
+export interface ComplianceRule {
+  id: string;
+  /** Must have the global flag, since every occurrence is reported. */
+  pattern: RegExp;
+  severity: ComplianceSeverity;
+  /** Why the text can get the listing taken down, shown to the seller. */
+  message: string;
+}
+
+export interface CompliancePack {
+  id: string;
+  name: string;
+  /** Limits the pack to listings whose category matches, for regulated categories. */
+  categoryPattern?: RegExp;
+  /** Limits the pack to these top-level fields; by default every text is scanned. */
+  fields?: (keyof ProductContent)[];
+  rules: ComplianceRule[];
+}
+
+export interface ComplianceViolation {
+  packId: string;
+  ruleId: string;
+  severity: ComplianceSeverity;
+  message: string;
+  /** The text the span was found in and where it is in the listing. */
+  source: TranslatableText;
+  start: number;
+  end: number;
+}
+
+// \b only knows ASCII letters, so accented words need explicit boundaries.
+const terms = (...alternatives: string[]) =>
+  new RegExp(`(?<![\\p{L}\\p{N}])(?:${alternatives.join('|')})(?![\\p{L}\\p{N}])`, 'giu');
+
+// Fields shown on the marketplace page; the social post and video script go elsewhere.
+const LISTING_PAGE_FIELDS: (keyof ProductContent)[] = [
+  'name', 'description', 'promotionalSlogan', 'keywords', 'imageTextSuggestions', 'metaTitle', 'metaDescription', 'imageAltText', 'copyVariants',
+];
+
+export const COMPLIANCE_PACKS: CompliancePack[] = [
+  {
+    id: 'marketplace',
+    name: 'Política dos marketplaces',
+    fields: LISTING_PAGE_FIELDS,
+    rules: [
+      {
+        id: 'contact-phone',
+        pattern: /(?:\+?55\s?)?\(?\b\d{2}\)?\s?9?\d{4}[-.\s]?\d{4}\b/g,
+        severity: 'error',
+        message: 'Telefone no anúncio. Os marketplaces proíbem meios de contato fora da plataforma.',
+      },
+      {
+        id: 'contact-email',
+        pattern: /[\w.+-]+@[\w-]+\.[\w.]+/g,
+        severity: 'error',
+        message: 'E-mail no anúncio. Os marketplaces proíbem meios de contato fora da plataforma.',
+      },
+      {
+        id: 'contact-link',
+        // Trailing punctuation belongs to the sentence, not to the link.
+        pattern: /(?:https?:\/\/|www\.|\bwa\.me\/)\S*[^\s.,;:!?)]/gi,
+        severity: 'error',
+        message: 'Link externo no anúncio. Os marketplaces proíbem direcionar o comprador para fora da plataforma.',
+      },
+      {
+        id: 'contact-channel',
+        pattern: terms('whats\\s?app', 'zap', 'wpp', 'telegram', 'chama no direct', 'me chama no \\p{L}+'),
+        severity: 'error',
+        message: 'Convite para contato por outro canal. Toda negociação deve acontecer dentro do marketplace.',
+      },
+      {
+        id: 'counterfeit',
+        // "AAA" and "pirata" alone are ordinary words (pilhas AAA, fantasia de pirata); only their counterfeit uses count.
+        pattern: terms('r[ée]plicas? AAA', 'r[ée]plicas?', 'falsificad[oa]s?', '(?:c[óo]pias?|produtos?|vers[ãa]o|vers[õo]es) piratas?', 'primeira linha', 'linha AAA'),
+        severity: 'error',
+        message: 'Termo associado a produto falsificado. Anúncios de réplicas são removidos e podem suspender a conta.',
+      },
+      {
+        id: 'brand-reference',
+        pattern: terms('inspirad[oa]s? (?:em|n[oa]s?)', 'similar (?:a|ao|à|aos|às)'),
+        severity: 'warning',
+        message: 'Referência a outra marca. Citar marcas de terceiros para atrair buscas viola a política de propriedade intelectual.',
+      },
+      {
+        id: 'brand-style',
+        // Case-sensitive on purpose: a capitalized word after "estilo" is usually a brand name.
+        pattern: /(?<![\p{L}\p{N}])(?:[Ee]stilo|[Tt]ipo) \p{Lu}\p{L}+/gu,
+        severity: 'warning',
+        message: 'Possível referência a outra marca. Citar marcas de terceiros para atrair buscas viola a política de propriedade intelectual.',
+      },
+      {
+        id: 'other-marketplace',
+        pattern: terms('mercado ?livre', 'shopee', 'amazon', 'magalu', 'americanas', 'aliexpress', 'shein', 'olx'),
+        severity: 'warning',
+        message: 'Menção a um marketplace. Citar outras plataformas no anúncio costuma ser proibido.',
+      },
+    ],
+  },
+  {
+    id: 'consumer',
+    name: 'Código de Defesa do Consumidor',
+    rules: [
+      {
+        id: 'superlative',
+        pattern: terms('(?:o|a) melhor(?: \\p{L}+)? d[oa] (?:brasil|mundo|mercado)', '(?:o|a) mais barat[oa]', 'n[úu]mero 1', 'n[º°o]\\s?1', 'imbatíve(?:l|is)', 'incomparáve(?:l|is)', 'únic[oa] no mercado'),
+        severity: 'warning',
+        message: 'Superlativo sem comprovação. O CDC considera enganosa a publicidade que não pode ser comprovada.',
+      },
+      {
+        id: 'guarantee',
+        pattern: terms('garantia vitalícia', 'resultados? garantidos?', '100% garantid[oa]', 'satisfação garantida ou seu dinheiro de volta'),
+        severity: 'warning',
+        message: 'Promessa de garantia ou resultado. Só ofereça garantias que a loja de fato cumpre, com prazo e condições claros.',
+      },
+      {
+        id: 'false-urgency',
+        pattern: terms('só hoje', 'últimas horas', 'última chance'),
+        severity: 'warning',
+        message: 'Urgência que pode não ser verdadeira. Prazos de oferta precisam ser reais.',
+      },
+    ],
+  },
+  {
+    id: 'health',
+    name: 'Alegações de saúde',
+    rules: [
+      {
+        id: 'cure-claim',
+        pattern: terms('cura(?:r)? (?:a |o |de |da |do )?(?:doenças?|dores?|diabetes|ansiedade|depressão|insônia|gastrite|câncer|cancer)', 'trata(?:mento)? (?:de |da |do )?(?:doenças?|diabetes|ansiedade|depressão|hipertensão|pressão alta|câncer|cancer)', 'previne (?:doenças?|câncer|cancer|gripes?|infecções?)'),
+        severity: 'error',
+        message: 'Alegação terapêutica. Só medicamentos registrados podem prometer curar, tratar ou prevenir doenças.',
+      },
+      {
+        id: 'medical-effect',
+        pattern: terms('anti-?inflamatóri[oa]s?', 'sem efeitos? colaterais?', 'milagros[oa]s?', 'fórmula milagrosa'),
+        severity: 'error',
+        message: 'Efeito medicinal ou milagroso. A Anvisa proíbe essas alegações fora de medicamentos registrados.',
+      },
+      {
+        id: 'anvisa-claim',
+        pattern: terms('aprovado pela anvisa', 'recomendado por médicos', 'clinicamente comprovado'),
+        severity: 'warning',
+        message: 'Aval oficial ou médico. Só mencione com o número do registro ou o estudo que o comprova.',
+      },
+    ],
+  },
+  {
+    id: 'cosmetics',
+    name: 'Cosméticos',
+    categoryPattern: /cosm[ée]tic|beleza|maquiagem|skin ?care|cabelo|perfum|pele|dermo/i,
+    rules: [
+      {
+        id: 'permanent-effect',
+        pattern: terms('elimina (?:as |a )?(?:rugas|celulite|estrias|manchas|flacidez)', 'remove (?:as |a )?(?:rugas|celulite|estrias)', 'definitivamente', 'efeito botox', 'rejuvenesce'),
+        severity: 'error',
+        message: 'Promessa de efeito permanente ou de procedimento estético. Cosméticos não podem alegar efeitos de tratamento.',
+      },
+      {
+        id: 'unproven-test',
+        pattern: terms('hipoalergênic[oa]s?', 'dermatologicamente testad[oa]s?', '100% natura(?:l|is)'),
+        severity: 'warning',
+        message: 'Alegação que exige comprovação por laudo. Confirme que o fabricante a declara no rótulo.',
+      },
+    ],
+  },
+  {
+    id: 'supplements',
+    name: 'Suplementos',
+    categoryPattern: /suplement|vitamin|whey|nutri|emagrec|fitness/i,
+    rules: [
+      {
+        id: 'weight-loss',
+        pattern: terms('emagrece(?:dor)?', 'queima (?:de )?gordura', 'perda de peso', 'sem dieta', 'seca barriga'),
+        severity: 'error',
+        message: 'Alegação de emagrecimento. A Anvisa proíbe suplementos de prometerem perda de peso.',
+      },
+      {
+        id: 'body-claim',
+        pattern: terms('ganho de massa garantido', 'aumenta (?:a )?imunidade', 'fortalece (?:o )?sistema imunológico', 'substitui (?:as )?refeições?'),
+        severity: 'error',
+        message: 'Alegação funcional não autorizada. Suplementos só podem usar as alegações aprovadas pela Anvisa.',
+      },
+    ],
+  },
+];
+
+/** The packs that apply to the listing, given its category. */
+export const getApplicablePacks = (content: ProductContent): CompliancePack[] =>
+  COMPLIANCE_PACKS.filter(pack => !pack.categoryPattern || pack.categoryPattern.test(content.category ?? ''));
+
+/**
+ * Scans every text of the listing (nested ones included) against the applicable rule
+ * packs. Overlapping matches of different rules are all reported.
+ */
+export const scanListingCompliance = (content: ProductContent): ComplianceViolation[] => {
+  const texts = collectTranslatableTexts(content);
+  return getApplicablePacks(content).flatMap(pack => {
+    const packTexts = pack.fields ? texts.filter(({ path }) => pack.fields!.includes(path[0] as keyof ProductContent)) : texts;
+    return pack.rules.flatMap(rule => packTexts.flatMap(source =>
+      Array.from(source.text.matchAll(rule.pattern), (match): ComplianceViolation => ({
+        packId: pack.id,
+        ruleId: rule.id,
+        severity: rule.severity,
+        message: rule.message,
+        source,
+        start: match.index!,
+        end: match.index! + match[0].length,
+      }))
+    ));
+  });
+};
+
+/**
+ * The patch that replaces the violating span with `replacement`, for the top-level
+ * field the text belongs to.
+ */
+export const buildSpanReplacementPatch = (content: ProductContent, violation: ComplianceViolation, replacement: string): Partial<ProductContent> => {
+  const { source, start, end } = violation;
+  const text = `${source.text.slice(0, start)}${replacement}${source.text.slice(end)}`;
+  const field = source.path[0] as keyof ProductContent;
+  return { [field]: applyTranslatedTexts(content, [source], [text])[field] };
+};
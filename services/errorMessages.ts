@@ -0,0 +1,26 @@
+/**
+ * Maps an error thrown by the generation services to a message the user can act on.
+ */
+export const getFriendlyErrorMessage = (err: unknown): string => {
+  let errorMessage = 'A API parece estar sobrecarregada ou instável. Por favor, tente novamente em alguns instantes.';
+
+  if (err instanceof Error) {
+    if (err.message.includes('API Key não configurada')) {
+      errorMessage = 'A chave de API não foi configurada. Peça a um administrador para adicioná-la no painel de admin.';
+    } else if (err.message.includes('URL base do provedor')) {
+      errorMessage = 'O provedor compatível com OpenAI não foi configurado. Peça a um administrador para informar a URL base no painel de admin.';
+    } else if (err.message.includes('política de segurança')) {
+      errorMessage = 'Sua solicitação foi bloqueada por nossa política de segurança. Tente usar uma imagem ou texto diferente.';
+    } else if (err.message.includes('429') || err.message.toLowerCase().includes('rate limit')) {
+      errorMessage = 'Muitas solicitações foram feitas em um curto período. Por favor, aguarde um momento e tente novamente.';
+    } else if (err.message.includes('formato inválido')) {
+      errorMessage = 'A IA retornou uma resposta em formato inesperado. Isso pode ser um problema temporário. Tente novamente.';
+    } else if (err.message.toLowerCase().includes('permission denied') || err.message.toLowerCase().includes('api key not valid')) {
+      errorMessage = 'Falha ao chamar a API Gemini: a chave de API é inválida ou não tem permissão. Verifique a chave no painel de admin.';
+    } else if (err.message.includes('compatível com OpenAI respondeu com erro 401') || err.message.includes('compatível com OpenAI respondeu com erro 403')) {
+      errorMessage = 'Falha ao chamar o provedor compatível com OpenAI: a chave de API é inválida ou não tem permissão. Verifique a chave no painel de admin.';
+    }
+  }
+
+  return errorMessage;
+};
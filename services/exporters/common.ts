@@ -0,0 +1,109 @@
+import { ProductContent, ProductVariation, ListingImages } from '../../types';
+import { ExportImageFile, ExportIssue } from './types';
+import { getDataUrlExtension, toFileBaseName } from './download';
+
+/**
+ * Cuts a text value at the platform limit, recording a truncation issue when it does.
+ * Cuts at the last word boundary when one is reasonably close to the limit.
+ */
+export const truncateField = (
+  value: string | undefined,
+  limit: number,
+  field: string,
+  issues: ExportIssue[]
+): string | undefined => {
+  if (!value || value.length <= limit) return value;
+  let truncated = value.substring(0, limit);
+  const lastSpace = truncated.lastIndexOf(' ');
+  if (lastSpace > limit * 0.8) {
+    truncated = truncated.substring(0, lastSpace);
+  }
+  truncated = truncated.trimEnd();
+  issues.push({
+    field,
+    kind: 'truncated',
+    message: `Cortado de ${value.length} para ${truncated.length} caracteres (limite de ${limit}).`,
+  });
+  return truncated;
+};
+
+const hasValue = (value: unknown) =>
+  value !== undefined && value !== null && value !== '' && !(Array.isArray(value) && value.length === 0);
+
+/**
+ * Records a `lost` issue for every listed field that has a value but no place in the platform format.
+ */
+export const reportLostFields = (
+  content: ProductContent,
+  fields: { field: keyof ProductContent; label: string }[],
+  platformName: string,
+  issues: ExportIssue[]
+) => {
+  fields.forEach(({ field, label }) => {
+    if (hasValue(content[field])) {
+      issues.push({ field: label, kind: 'lost', message: `Não há campo equivalente no formato do ${platformName}.` });
+    }
+  });
+};
+
+export const reportMissing = (value: unknown, field: string, issues: ExportIssue[], message = 'Campo obrigatório sem valor.') => {
+  if (!hasValue(value)) {
+    issues.push({ field, kind: 'missing', message });
+  }
+};
+
+/**
+ * Names the listing images after the slug so that the exported files can reference them.
+ */
+export const buildImageFiles = (content: ProductContent, images: ListingImages, maxImages: number): ExportImageFile[] => {
+  const baseName = toFileBaseName(content.slug || content.name);
+  const imageFiles: ExportImageFile[] = [];
+  if (images.main) {
+    imageFiles.push({ fileName: `${baseName}-capa.${getDataUrlExtension(images.main)}`, dataUrl: images.main });
+  }
+  images.mockups.forEach((mockup, index) => {
+    imageFiles.push({ fileName: `${baseName}-${index + 1}.${getDataUrlExtension(mockup)}`, dataUrl: mockup });
+  });
+  return imageFiles.slice(0, maxImages);
+};
+
+/**
+ * Names the recolored photos of the variations after the slug and their color, by the
+ * `imageId` the variations point to. Variations sharing a photo share its file.
+ */
+export const buildVariationImageFiles = (content: ProductContent, images: ListingImages): Record<string, ExportImageFile> => {
+  const baseName = toFileBaseName(content.slug || content.name);
+  const files: Record<string, ExportImageFile> = {};
+  const usedNames = new Set<string>();
+  getExportableVariations(content).forEach(variation => {
+    const dataUrl = variation.imageId ? images.variations[variation.imageId] : undefined;
+    if (!dataUrl || files[variation.imageId!]) return;
+    const colorName = `${baseName}-${toFileBaseName(variation.color || 'variacao')}`;
+    let name = colorName;
+    for (let n = 2; usedNames.has(name); n++) name = `${colorName}-${n}`;
+    usedNames.add(name);
+    files[variation.imageId!] = { fileName: `${name}.${getDataUrlExtension(dataUrl)}`, dataUrl };
+  });
+  return files;
+};
+
+/** Variations that actually define an option; empty rows from the editor are ignored. */
+export const getExportableVariations = (content: ProductContent): ProductVariation[] =>
+  content.variations.filter(v => v.color || v.size);
+
+/** The variation's own SKU, or one derived from the parent SKU, e.g. TEN-X-PRETO-40. */
+export const buildVariationSku = (parentSku: string | undefined, variation: ProductVariation): string | undefined => {
+  if (variation.sku) return variation.sku;
+  if (!parentSku) return undefined;
+  const optionSuffix = [variation.color, variation.size].filter(Boolean).map(v => toFileBaseName(v!).toUpperCase());
+  return [parentSku, ...optionSuffix].join('-');
+};
+
+/** Converts the plain-text description into simple HTML paragraphs. */
+export const descriptionToHtml = (description: string): string =>
+  description
+    .split(/\n{2,}/)
+    .map(paragraph => paragraph.trim())
+    .filter(Boolean)
+    .map(paragraph => `<p>${paragraph.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/\n/g, '<br>')}</p>`)
+    .join('');
@@ -0,0 +1,33 @@
+import { slugify } from '../textNormalization';
+
+/**
+ * Triggers a browser download for a Blob or data URL.
+ */
+export const downloadFile = (source: Blob | string, fileName: string) => {
+  const href = typeof source === 'string' ? source : URL.createObjectURL(source);
+  const link = document.createElement('a');
+  link.download = fileName;
+  link.href = href;
+  link.click();
+  if (typeof source !== 'string') {
+    // Give the browser a moment to start the download before releasing the object URL.
+    setTimeout(() => URL.revokeObjectURL(href), 1000);
+  }
+};
+
+const EXTENSIONS_BY_MIME: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+};
+
+export const getDataUrlExtension = (dataUrl: string): string => {
+  const mimeType = dataUrl.match(/^data:([^;,]+)/)?.[1] || '';
+  return EXTENSIONS_BY_MIME[mimeType] || 'png';
+};
+
+/**
+ * Builds a file-system friendly base name from a slug or product name.
+ */
+export const toFileBaseName = (text: string): string =>
+  slugify(text).substring(0, 60) || 'produto';
@@ -0,0 +1,15 @@
+import { ListingExporter } from './types';
+import { shopeeExporter } from './shopee';
+import { mercadoLivreExporter } from './mercadoLivre';
+import { shopifyExporter } from './shopify';
+import { wooCommerceExporter } from './wooCommerce';
+
+// New platforms only need an adapter implementing `ListingExporter` registered here.
+export const EXPORTERS: ListingExporter[] = [
+  shopeeExporter,
+  mercadoLivreExporter,
+  shopifyExporter,
+  wooCommerceExporter,
+];
+
+export * from './types';
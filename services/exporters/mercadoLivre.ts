@@ -0,0 +1,129 @@
+import { ProductVariation } from '../../types';
+import { toFileBaseName } from './download';
+import { formatPrice } from '../locales';
+import { ExportIssue, ExportResult, ListingExporter } from './types';
+import { MARKETPLACE_PROFILES } from '../marketplaceProfiles';
+import { hasCompleteDimensions } from '../shipping';
+import {
+  buildImageFiles,
+  buildVariationImageFiles,
+  buildVariationSku,
+  getExportableVariations,
+  reportLostFields,
+  reportMissing,
+  truncateField,
+} from './common';
+
+const { titleLimit: TITLE_LIMIT, descriptionLimit: DESCRIPTION_LIMIT, maxImages: MAX_IMAGES } = MARKETPLACE_PROFILES.mercadolivre;
+
+/**
+ * Builds the body of a Mercado Livre `POST /items` request. The category must be
+ * resolved to a `category_id` with the predictor API, so the text category is kept
+ * only as a hint for the seller.
+ */
+export const mercadoLivreExporter: ListingExporter = {
+  id: 'mercadolivre',
+  name: 'Mercado Livre',
+  run: (content, images): ExportResult => {
+    const issues: ExportIssue[] = [];
+    const variations = getExportableVariations(content);
+    // The variation photos must be item pictures too, so they come right after the cover,
+    // ahead of the mockups. A variation without its own photo (or past the limit) shows the cover.
+    const variationImageFiles = buildVariationImageFiles(content, images);
+    const [cover, ...mockups] = buildImageFiles(content, images, MAX_IMAGES);
+    const imageFiles = [cover, ...Object.values(variationImageFiles), ...mockups].filter(Boolean).slice(0, MAX_IMAGES);
+    const pictureOf = (variation: ProductVariation) => {
+      const file = variation.imageId ? variationImageFiles[variation.imageId] : undefined;
+      return file && imageFiles.includes(file) ? file.fileName : imageFiles[0]?.fileName;
+    };
+    const dimensions = hasCompleteDimensions(content.dimensions) ? content.dimensions : null;
+
+    reportMissing(content.price, 'price', issues);
+    reportMissing(imageFiles, 'pictures', issues, 'O Mercado Livre exige pelo menos uma imagem.');
+    issues.push({
+      field: 'category_id',
+      kind: 'missing',
+      message: `Defina o category_id do Mercado Livre para "${content.category}" (use o preditor de categorias).`,
+    });
+
+    const attributes = [
+      content.brand ? { id: 'BRAND', value_name: content.brand } : null,
+      content.sku ? { id: 'SELLER_SKU', value_name: content.sku } : null,
+    ].filter(Boolean);
+
+    // Mercado Livre requires every variation to have the same price.
+    const variationPrices = new Set(variations.map(v => v.price ?? content.price));
+    if (variationPrices.size > 1) {
+      issues.push({
+        field: 'variations.price',
+        kind: 'lost',
+        message: `Todas as variações precisam ter o mesmo preço no Mercado Livre; foi usado ${formatPrice(content.price, content.currency)}.`,
+      });
+    }
+
+    if (variations.length === 0 || variations.some(v => v.stock === undefined)) {
+      issues.push({ field: 'available_quantity', kind: 'missing', message: 'Estoque não informado; foi usado 1 por item.' });
+    }
+
+    const listing = {
+      title: truncateField(content.name, TITLE_LIMIT, 'title', issues),
+      category_id: '',
+      price: content.price,
+      currency_id: content.currency ?? 'BRL',
+      available_quantity: variations.length > 0
+        ? variations.reduce((sum, v) => sum + (v.stock ?? 1), 0)
+        : 1,
+      buying_mode: 'buy_it_now',
+      listing_type_id: 'gold_special',
+      condition: 'new',
+      pictures: imageFiles.map(file => ({ source: file.fileName })),
+      attributes,
+      variations: variations.map(variation => ({
+        attribute_combinations: [
+          variation.color ? { id: 'COLOR', value_name: variation.color } : null,
+          variation.size ? { id: 'SIZE', value_name: variation.size } : null,
+        ].filter(Boolean),
+        price: content.price,
+        available_quantity: variation.stock ?? 1,
+        attributes: content.sku ? [{ id: 'SELLER_SKU', value_name: buildVariationSku(content.sku, variation) }] : [],
+        picture_ids: [pictureOf(variation)].filter(Boolean),
+      })),
+      shipping: {
+        mode: 'me2',
+        dimensions: dimensions && content.weight
+          ? `${[dimensions.length, dimensions.width, dimensions.height].map(Math.round).join('x')},${Math.round(content.weight * 1000)}`
+          : undefined,
+      },
+      description: {
+        plain_text: truncateField(content.description, DESCRIPTION_LIMIT, 'description', issues),
+      },
+    };
+
+    if (!listing.shipping.dimensions) {
+      issues.push({ field: 'shipping.dimensions', kind: 'missing', message: 'Peso ou dimensões ausentes; o frete não pode ser calculado.' });
+    }
+    if (imageFiles.length > 0) {
+      issues.push({ field: 'pictures', kind: 'missing', message: 'Substitua os nomes de arquivo por URLs públicas após enviar as imagens.' });
+    }
+
+    reportLostFields(content, [
+      { field: 'promotionalPrice', label: 'Preço Promocional' },
+      { field: 'keywords', label: 'Palavras-chave' },
+      { field: 'slug', label: 'Slug' },
+      { field: 'metaTitle', label: 'Meta Title' },
+      { field: 'metaDescription', label: 'Meta Description' },
+    ], 'Mercado Livre', issues);
+
+    const fileBaseName = `mercadolivre-${toFileBaseName(content.slug || content.name)}`;
+    return {
+      outputs: [{
+        label: 'Baixar JSON',
+        fileName: `${fileBaseName}.json`,
+        create: () => new Blob([JSON.stringify(listing, null, 2)], { type: 'application/json' }),
+      }],
+      issues,
+      imageFiles,
+      summary: `Anúncio em JSON para a API de itens, com ${variations.length} ${variations.length === 1 ? 'variação' : 'variações'} e estoque total de ${listing.available_quantity}.`,
+    };
+  },
+};
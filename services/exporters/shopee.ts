@@ -0,0 +1,154 @@
+import { ProductContent, ListingImages } from '../../types';
+import { Sheet, SheetCell, sheetToCsv, sheetToXlsx } from './spreadsheet';
+import { toFileBaseName } from './download';
+import { ExportIssue, ExportResult, ListingExporter } from './types';
+import { MARKETPLACE_PROFILES } from '../marketplaceProfiles';
+import { hasCompleteDimensions } from '../shipping';
+import {
+  buildImageFiles,
+  buildVariationImageFiles,
+  buildVariationSku,
+  getExportableVariations,
+  reportLostFields,
+  truncateField,
+} from './common';
+
+// Column layout of the Shopee mass upload ("Upload em Massa") basic template.
+// Variations use the two-tier model: tier 1 is the color, tier 2 is the size.
+const SHOPEE_COLUMNS: { header: string; required: boolean }[] = [
+  { header: 'Categoria', required: true },
+  { header: 'Nome do Produto', required: true },
+  { header: 'Descrição do Produto', required: true },
+  { header: 'SKU Principal', required: false },
+  { header: 'Número de Integração da Variação', required: false },
+  { header: 'Nome da Variação 1', required: false },
+  { header: 'Opção para Variação 1', required: false },
+  { header: 'Imagem por Variação', required: false },
+  { header: 'Nome da Variação 2', required: false },
+  { header: 'Opção para Variação 2', required: false },
+  { header: 'Preço', required: true },
+  { header: 'Estoque', required: true },
+  { header: 'SKU', required: false },
+  { header: 'Imagem de Capa', required: true },
+  ...Array.from({ length: 8 }, (_, i) => ({ header: `Imagem do Item ${i + 1}`, required: false })),
+  { header: 'Peso', required: true },
+  { header: 'Comprimento', required: false },
+  { header: 'Largura', required: false },
+  { header: 'Altura', required: false },
+];
+
+// MAX_IMAGES is the cover plus the 8 item images.
+const { maxImages: MAX_IMAGES, titleLimit: NAME_LIMIT, descriptionLimit: DESCRIPTION_LIMIT } = MARKETPLACE_PROFILES.shopee;
+
+const isEmpty = (value: SheetCell) => value === null || value === undefined || value === '';
+
+/**
+ * Maps a listing to the Shopee mass upload sheet. Each variation becomes its own row,
+ * sharing the product-level columns and a variation integration number.
+ */
+export const buildShopeeSheet = (content: ProductContent, images: ListingImages, issues: ExportIssue[]) => {
+  const baseName = toFileBaseName(content.slug || content.name);
+  const productImageFiles = buildImageFiles(content, images, MAX_IMAGES);
+  const [coverImage, ...itemImages] = productImageFiles.map(file => file.fileName);
+  const variationImageFiles = buildVariationImageFiles(content, images);
+  const imageFiles = [...productImageFiles, ...Object.values(variationImageFiles)];
+  const dimensions = hasCompleteDimensions(content.dimensions) ? content.dimensions : null;
+
+  const productColumns: Record<string, SheetCell> = {
+    'Categoria': content.category,
+    'Nome do Produto': truncateField(content.name, NAME_LIMIT, 'Nome do Produto', issues),
+    'Descrição do Produto': truncateField(content.description, DESCRIPTION_LIMIT, 'Descrição do Produto', issues),
+    'SKU Principal': content.sku,
+    'Imagem de Capa': coverImage,
+    'Peso': content.weight,
+    'Comprimento': dimensions?.length,
+    'Largura': dimensions?.width,
+    'Altura': dimensions?.height,
+  };
+  itemImages.forEach((fileName, index) => {
+    productColumns[`Imagem do Item ${index + 1}`] = fileName;
+  });
+
+  const variations = getExportableVariations(content);
+  const hasColor = variations.some(v => v.color);
+  const hasSize = variations.some(v => v.size);
+
+  // Without variations the stock comes from the editor's single option-less row, if it
+  // has one, or is 1 as in the Mercado Livre export, which is reported.
+  const ownStock = content.variations.length === 1 ? content.variations[0].stock : undefined;
+  const productStock = ownStock ?? 1;
+  if (variations.length === 0 && ownStock === undefined) {
+    issues.push({ field: 'Estoque', kind: 'missing', message: 'Estoque não informado; foi usado 1.' });
+  }
+
+  const rowRecords: Record<string, SheetCell>[] = variations.length === 0
+    ? [{ ...productColumns, 'Preço': content.price, 'Estoque': productStock, 'SKU': content.sku }]
+    : variations.map(variation => {
+        // Shopee needs a value on every tier once a tier is declared.
+        const tiers = hasColor && hasSize
+          ? [['Cor', variation.color || 'Padrão'], ['Tamanho', variation.size || 'Único']]
+          : hasColor
+            ? [['Cor', variation.color]]
+            : [['Tamanho', variation.size]];
+        return {
+          ...productColumns,
+          'Número de Integração da Variação': baseName,
+          'Nome da Variação 1': tiers[0][0],
+          'Opção para Variação 1': tiers[0][1],
+          'Imagem por Variação': variation.imageId ? variationImageFiles[variation.imageId]?.fileName : undefined,
+          'Nome da Variação 2': tiers[1]?.[0],
+          'Opção para Variação 2': tiers[1]?.[1],
+          'Preço': variation.price ?? content.price,
+          'Estoque': variation.stock,
+          'SKU': buildVariationSku(content.sku, variation),
+        };
+      });
+
+  const headers = SHOPEE_COLUMNS.map(column => column.header);
+  const rows = rowRecords.map(record => headers.map(header => record[header]));
+
+  SHOPEE_COLUMNS.forEach((column, colIndex) => {
+    if (!column.required) return;
+    const emptyRows = rows
+      .map((row, rowIndex) => (isEmpty(row[colIndex]) ? rowIndex + 1 : -1))
+      .filter(rowNumber => rowNumber > 0);
+    if (emptyRows.length > 0) {
+      issues.push({
+        field: column.header,
+        kind: 'missing',
+        message: rows.length > 1
+          ? `Coluna obrigatória vazia nas linhas ${emptyRows.join(', ')}.`
+          : 'Coluna obrigatória vazia.',
+      });
+    }
+  });
+
+  const sheet: Sheet = { name: 'Upload em Massa', headers, rows };
+  return { sheet, imageFiles };
+};
+
+export const shopeeExporter: ListingExporter = {
+  id: 'shopee',
+  name: 'Shopee',
+  run: (content, images): ExportResult => {
+    const issues: ExportIssue[] = [];
+    const { sheet, imageFiles } = buildShopeeSheet(content, images, issues);
+    reportLostFields(content, [
+      { field: 'promotionalPrice', label: 'Preço Promocional' },
+      { field: 'keywords', label: 'Palavras-chave' },
+      { field: 'metaTitle', label: 'Meta Title' },
+      { field: 'metaDescription', label: 'Meta Description' },
+    ], 'Shopee', issues);
+
+    const fileBaseName = `shopee-${toFileBaseName(content.slug || content.name)}`;
+    return {
+      outputs: [
+        { label: 'Baixar XLSX', fileName: `${fileBaseName}.xlsx`, create: () => sheetToXlsx(sheet) },
+        { label: 'Baixar CSV', fileName: `${fileBaseName}.csv`, create: () => sheetToCsv(sheet) },
+      ],
+      issues,
+      imageFiles,
+      summary: `Planilha de Upload em Massa com ${sheet.rows.length} ${sheet.rows.length === 1 ? 'linha' : 'linhas'}, uma por variação.`,
+    };
+  },
+};
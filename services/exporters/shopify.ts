@@ -0,0 +1,130 @@
+import { Sheet, SheetCell, sheetToCsv } from './spreadsheet';
+import { toFileBaseName } from './download';
+import { ExportIssue, ExportResult, ListingExporter } from './types';
+import { MARKETPLACE_PROFILES } from '../marketplaceProfiles';
+import {
+  buildImageFiles,
+  buildVariationImageFiles,
+  buildVariationSku,
+  descriptionToHtml,
+  getExportableVariations,
+  reportLostFields,
+  reportMissing,
+  truncateField,
+} from './common';
+
+const SHOPIFY_HEADERS = [
+  'Handle', 'Title', 'Body (HTML)', 'Vendor', 'Type', 'Tags', 'Published',
+  'Option1 Name', 'Option1 Value', 'Option2 Name', 'Option2 Value',
+  'Variant SKU', 'Variant Grams', 'Variant Inventory Tracker', 'Variant Inventory Qty',
+  'Variant Inventory Policy', 'Variant Fulfillment Service', 'Variant Price', 'Variant Compare At Price',
+  'Variant Requires Shipping', 'Variant Taxable', 'Variant Weight Unit',
+  'Image Src', 'Image Position', 'Image Alt Text', 'SEO Title', 'SEO Description', 'Variant Image', 'Status',
+];
+
+const {
+  titleLimit: TITLE_LIMIT,
+  metaTitleLimit: SEO_TITLE_LIMIT,
+  metaDescriptionLimit: SEO_DESCRIPTION_LIMIT,
+  maxImages: MAX_IMAGES,
+} = MARKETPLACE_PROFILES.shopify;
+
+/**
+ * Builds a Shopify product CSV. The first row holds the product fields, the
+ * following rows add one variant or one extra image each, all sharing the handle.
+ */
+export const shopifyExporter: ListingExporter = {
+  id: 'shopify',
+  name: 'Shopify',
+  run: (content, images): ExportResult => {
+    const issues: ExportIssue[] = [];
+    const handle = toFileBaseName(content.slug || content.name);
+    const productImageFiles = buildImageFiles(content, images, MAX_IMAGES);
+    const variations = getExportableVariations(content);
+    const variationImageFiles = buildVariationImageFiles(content, images);
+    const imageFiles = [...productImageFiles, ...Object.values(variationImageFiles)];
+    const hasColor = variations.some(v => v.color);
+    const hasSize = variations.some(v => v.size);
+    const optionNames = [hasColor ? 'Cor' : null, hasSize ? 'Tamanho' : null].filter(Boolean) as string[];
+
+    reportMissing(content.price, 'Variant Price', issues);
+    if (imageFiles.length > 0) {
+      issues.push({ field: 'Image Src', kind: 'missing', message: 'O Shopify importa imagens por URL; substitua os nomes de arquivo por URLs públicas.' });
+    }
+
+    // With a promotional price, Shopify shows the regular price as "compare at".
+    const salePrice = content.promotionalPrice && content.promotionalPrice < content.price ? content.promotionalPrice : content.price;
+    const compareAtPrice = salePrice !== content.price ? content.price : undefined;
+    const grams = content.weight ? Math.round(content.weight * 1000) : undefined;
+
+    const variantColumns = (variation?: typeof variations[number]): Record<string, SheetCell> => {
+      const options = variation
+        ? [hasColor ? variation.color || 'Padrão' : null, hasSize ? variation.size || 'Único' : null].filter(Boolean)
+        : ['Default Title'];
+      return {
+        'Option1 Name': variation ? optionNames[0] : 'Title',
+        'Option1 Value': options[0],
+        'Option2 Name': variation ? optionNames[1] : undefined,
+        'Option2 Value': options[1],
+        'Variant SKU': variation ? buildVariationSku(content.sku, variation) : content.sku,
+        'Variant Grams': grams,
+        'Variant Inventory Tracker': 'shopify',
+        'Variant Inventory Qty': variation?.stock,
+        'Variant Inventory Policy': 'deny',
+        'Variant Fulfillment Service': 'manual',
+        'Variant Price': variation?.price ?? salePrice,
+        'Variant Compare At Price': variation?.price === undefined ? compareAtPrice : undefined,
+        'Variant Requires Shipping': 'TRUE',
+        'Variant Taxable': 'TRUE',
+        'Variant Weight Unit': 'g',
+        'Variant Image': variation?.imageId ? variationImageFiles[variation.imageId]?.fileName : undefined,
+      };
+    };
+
+    const records: Record<string, SheetCell>[] = [];
+    const productRecord: Record<string, SheetCell> = {
+      'Handle': handle,
+      'Title': truncateField(content.name, TITLE_LIMIT, 'Title', issues),
+      'Body (HTML)': descriptionToHtml(content.description),
+      'Vendor': content.brand,
+      'Type': content.category,
+      'Tags': content.keywords.join(', '),
+      'Published': 'TRUE',
+      'SEO Title': truncateField(content.metaTitle, SEO_TITLE_LIMIT, 'SEO Title', issues),
+      'SEO Description': truncateField(content.metaDescription, SEO_DESCRIPTION_LIMIT, 'SEO Description', issues),
+      'Status': 'active',
+      'Image Src': productImageFiles[0]?.fileName,
+      'Image Position': productImageFiles[0] ? 1 : undefined,
+      'Image Alt Text': productImageFiles[0] ? content.imageAltText : undefined,
+      ...variantColumns(variations[0]),
+    };
+    records.push(productRecord);
+
+    variations.slice(1).forEach(variation => {
+      records.push({ 'Handle': handle, ...variantColumns(variation), 'Option1 Name': undefined, 'Option2 Name': undefined });
+    });
+    productImageFiles.slice(1).forEach((file, index) => {
+      records.push({ 'Handle': handle, 'Image Src': file.fileName, 'Image Position': index + 2 });
+    });
+
+    reportLostFields(content, [
+      { field: 'dimensions', label: 'Dimensões' },
+    ], 'Shopify', issues);
+    if (content.slug && content.slug !== handle) {
+      issues.push({ field: 'Handle', kind: 'lost', message: 'O slug foi ajustado para um handle válido.' });
+    }
+
+    const sheet: Sheet = {
+      name: 'products',
+      headers: SHOPIFY_HEADERS,
+      rows: records.map(record => SHOPIFY_HEADERS.map(header => record[header])),
+    };
+
+    return {
+      outputs: [{ label: 'Baixar CSV', fileName: `shopify-${toFileBaseName(handle)}.csv`, create: () => sheetToCsv(sheet) }],
+      issues,
+      imageFiles,
+      summary: `CSV de produtos com ${Math.max(variations.length, 1)} ${variations.length > 1 ? 'variantes' : 'variante'} e ${imageFiles.length} ${imageFiles.length === 1 ? 'imagem' : 'imagens'}.`,
+    };
+  },
+};
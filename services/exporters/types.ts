@@ -0,0 +1,45 @@
+import { ProductContent, ListingImages } from '../../types';
+
+export type ExportPlatform = 'shopee' | 'mercadolivre' | 'shopify' | 'woocommerce';
+
+/**
+ * - `missing`: a field the platform requires has no value.
+ * - `truncated`: a value was cut to fit the platform's limit.
+ * - `lost`: a value has no place in the platform's format and was dropped.
+ */
+export type ExportIssueKind = 'missing' | 'truncated' | 'lost';
+
+export interface ExportIssue {
+  field: string;
+  kind: ExportIssueKind;
+  message: string;
+}
+
+export interface ExportImageFile {
+  fileName: string;
+  dataUrl: string;
+}
+
+/** A downloadable file produced by an exporter, built lazily on click. */
+export interface ExportOutput {
+  label: string;
+  fileName: string;
+  create: () => Blob;
+}
+
+export interface ExportResult {
+  outputs: ExportOutput[];
+  issues: ExportIssue[];
+  /** The images referenced by name in the outputs, to be uploaded alongside them. */
+  imageFiles: ExportImageFile[];
+  summary: string;
+}
+
+/**
+ * Maps a listing to a marketplace or store import format.
+ */
+export interface ListingExporter {
+  id: ExportPlatform;
+  name: string;
+  run: (content: ProductContent, images: ListingImages) => ExportResult;
+}
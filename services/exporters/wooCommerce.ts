@@ -0,0 +1,131 @@
+import { Sheet, SheetCell, sheetToCsv } from './spreadsheet';
+import { toFileBaseName } from './download';
+import { ExportIssue, ExportResult, ListingExporter } from './types';
+import { MARKETPLACE_PROFILES } from '../marketplaceProfiles';
+import { hasCompleteDimensions } from '../shipping';
+import {
+  buildImageFiles,
+  buildVariationImageFiles,
+  buildVariationSku,
+  descriptionToHtml,
+  getExportableVariations,
+  reportLostFields,
+  reportMissing,
+  truncateField,
+} from './common';
+
+const WOOCOMMERCE_HEADERS = [
+  'Type', 'SKU', 'Name', 'Published', 'Is featured?', 'Visibility in catalog',
+  'Short description', 'Description', 'Tax status', 'In stock?', 'Stock',
+  'Regular price', 'Sale price', 'Categories', 'Tags', 'Images', 'Parent',
+  'Weight (kg)', 'Length (cm)', 'Width (cm)', 'Height (cm)',
+  'Attribute 1 name', 'Attribute 1 value(s)', 'Attribute 1 visible', 'Attribute 1 global',
+  'Attribute 2 name', 'Attribute 2 value(s)', 'Attribute 2 visible', 'Attribute 2 global',
+];
+
+const { titleLimit: NAME_LIMIT, maxImages: MAX_IMAGES } = MARKETPLACE_PROFILES.woocommerce;
+
+/**
+ * Builds a CSV for the built-in WooCommerce product importer. Listings with
+ * variations become a `variable` parent row followed by one `variation` row each,
+ * linked to the parent through its SKU.
+ */
+export const wooCommerceExporter: ListingExporter = {
+  id: 'woocommerce',
+  name: 'WooCommerce',
+  run: (content, images): ExportResult => {
+    const issues: ExportIssue[] = [];
+    const productImageFiles = buildImageFiles(content, images, MAX_IMAGES);
+    const variations = getExportableVariations(content);
+    const variationImageFiles = buildVariationImageFiles(content, images);
+    const imageFiles = [...productImageFiles, ...Object.values(variationImageFiles)];
+    const dimensions = hasCompleteDimensions(content.dimensions) ? content.dimensions : null;
+    const isVariable = variations.length > 0;
+
+    reportMissing(content.price, 'Regular price', issues);
+    if (isVariable) {
+      reportMissing(content.sku, 'SKU', issues, 'As variações são ligadas ao produto pai pelo SKU; defina um SKU.');
+    }
+    if (imageFiles.length > 0) {
+      issues.push({ field: 'Images', kind: 'missing', message: 'O WooCommerce importa imagens por URL; substitua os nomes de arquivo por URLs públicas.' });
+    }
+
+    const salePrice = content.promotionalPrice && content.promotionalPrice < content.price ? content.promotionalPrice : undefined;
+    const attributes = [
+      { name: 'Cor', values: [...new Set(variations.map(v => v.color).filter(Boolean))] as string[] },
+      { name: 'Tamanho', values: [...new Set(variations.map(v => v.size).filter(Boolean))] as string[] },
+    ].filter(attribute => attribute.values.length > 0);
+
+    const parentRecord: Record<string, SheetCell> = {
+      'Type': isVariable ? 'variable' : 'simple',
+      'SKU': content.sku,
+      'Name': truncateField(content.name, NAME_LIMIT, 'Name', issues),
+      'Published': 1,
+      'Is featured?': 0,
+      'Visibility in catalog': 'visible',
+      'Short description': content.promotionalSlogan,
+      'Description': descriptionToHtml(content.description),
+      'Tax status': 'taxable',
+      'In stock?': 1,
+      'Regular price': isVariable ? undefined : content.price,
+      'Sale price': isVariable ? undefined : salePrice,
+      'Categories': content.category,
+      'Tags': content.keywords.join(', '),
+      'Images': productImageFiles.map(file => file.fileName).join(', '),
+      'Weight (kg)': content.weight,
+      'Length (cm)': dimensions?.length,
+      'Width (cm)': dimensions?.width,
+      'Height (cm)': dimensions?.height,
+    };
+    attributes.forEach((attribute, index) => {
+      parentRecord[`Attribute ${index + 1} name`] = attribute.name;
+      parentRecord[`Attribute ${index + 1} value(s)`] = attribute.values.join(', ');
+      parentRecord[`Attribute ${index + 1} visible`] = 1;
+      parentRecord[`Attribute ${index + 1} global`] = 0;
+    });
+
+    const variationRecords = variations.map(variation => {
+      const options = [variation.color, variation.size].filter(Boolean).join(', ');
+      const record: Record<string, SheetCell> = {
+        'Type': 'variation',
+        'SKU': buildVariationSku(content.sku, variation),
+        'Name': truncateField(`${content.name} - ${options}`, NAME_LIMIT, `Name (${options})`, issues),
+        'Published': 1,
+        'Tax status': 'taxable',
+        'In stock?': 1,
+        'Stock': variation.stock,
+        'Regular price': variation.price ?? content.price,
+        'Sale price': variation.price === undefined ? salePrice : undefined,
+        'Parent': content.sku,
+        'Images': variation.imageId ? variationImageFiles[variation.imageId]?.fileName : undefined,
+      };
+      attributes.forEach((attribute, index) => {
+        record[`Attribute ${index + 1} name`] = attribute.name;
+        record[`Attribute ${index + 1} value(s)`] = attribute.name === 'Cor' ? variation.color : variation.size;
+        record[`Attribute ${index + 1} global`] = 0;
+      });
+      return record;
+    });
+
+    reportLostFields(content, [
+      { field: 'slug', label: 'Slug' },
+      { field: 'metaTitle', label: 'Meta Title' },
+      { field: 'metaDescription', label: 'Meta Description' },
+    ], 'WooCommerce (requer um plugin de SEO)', issues);
+
+    const sheet: Sheet = {
+      name: 'products',
+      headers: WOOCOMMERCE_HEADERS,
+      rows: [parentRecord, ...variationRecords].map(record => WOOCOMMERCE_HEADERS.map(header => record[header])),
+    };
+
+    return {
+      outputs: [{ label: 'Baixar CSV', fileName: `woocommerce-${toFileBaseName(content.slug || content.name)}.csv`, create: () => sheetToCsv(sheet) }],
+      issues,
+      imageFiles,
+      summary: isVariable
+        ? `CSV com um produto variável e ${variations.length} ${variations.length === 1 ? 'variação' : 'variações'}.`
+        : 'CSV com um produto simples.',
+    };
+  },
+};
@@ -1,158 +1,70 @@
 
-import { GoogleGenAI, Type, Modality } from "@google/genai";
-import { ProductContent, GeneratedProductImage, ApiKeySet, SupportedAIService } from '../types';
-
-const getApiKeyForService = (service: SupportedAIService): string => {
-  const keysString = localStorage.getItem('ai_api_keys');
-  if (keysString) {
-    try {
-      const keys: ApiKeySet = JSON.parse(keysString);
-      if (keys[service]) {
-        return keys[service]!;
-      }
-    } catch (e) {
-      console.error("Failed to parse API keys from localStorage", e);
-    }
-  }
-
-  // Fallback specific for Gemini using process.env
-  if (service === 'gemini' && process.env.API_KEY) {
-      return process.env.API_KEY;
-  }
-  
-  throw new Error(`API Key para '${service}' não configurada. O administrador precisa configurar a chave no painel de admin.`);
-};
-
-
-const fileToGenerativePart = async (file: File) => {
+import { BrandProfile, ListingLocale, MarketplaceId, ProductContent, GeneratedProductImage } from '../types';
+import { isAbortError, sleep, throwIfAborted, withTimeout } from './abort';
+import { getContentProvider, getImageProvider, InlineImage, JsonSchema } from './providers';
+import { getTaskConfig } from './taskSettings';
+import { MOCKUP_TEMPLATE_IDS, PromptContext, buildProductContentSchema, renderPromptTemplate } from './promptTemplates';
+import { parseCompletedFields } from './partialJson';
+import { coerceToSchema, findSchemaViolations, formatSchemaIssue } from './schemaValidation';
+import { appendBrandBoilerplate, describeBrandVoice, getBrandProfile } from './brandProfiles';
+import { BASE_CURRENCY, DEFAULT_LOCALE, convertListingPrices, getLocaleDefinition, loadCurrencySettings } from './locales';
+import { applyTranslatedTexts, collectTranslatableTexts } from './listingTranslation';
+import { ComplianceViolation } from './compliance';
+import { DEFAULT_MARKETPLACE, MarketplaceProfile, describeMarketplaceRules, getMarketplaceProfile, marketplacePromptContext } from './marketplaceProfiles';
+
+// Orchestrates the generation tasks on top of the configured providers (see ./providers).
+
+const fileToInlineImage = async (file: File): Promise<InlineImage> => {
   const base64EncodedDataPromise = new Promise<string>((resolve) => {
     const reader = new FileReader();
     reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
     reader.readAsDataURL(file);
   });
   return {
-    inlineData: {
-      data: await base64EncodedDataPromise,
-      mimeType: file.type,
-    },
+    data: await base64EncodedDataPromise,
+    mimeType: file.type,
   };
 };
 
-const base64ToGenerativePart = (base64Data: string) => {
+const dataUrlToInlineImage = (base64Data: string): InlineImage => {
   const match = base64Data.match(/^data:(image\/.+);base64,(.+)$/);
   if (!match) {
     throw new Error("Invalid base64 data URL format");
   }
-  const mimeType = match[1];
-  const data = match[2];
   return {
-    inlineData: {
-      data,
-      mimeType,
-    },
+    mimeType: match[1],
+    data: match[2],
   };
 };
 
-const productContentSchema = {
-  type: Type.OBJECT,
-  properties: {
-    name: { type: Type.STRING, description: 'Nome do produto conciso e atrativo (máximo 60 caracteres).' },
-    description: { type: Type.STRING, description: 'Descrição de marketing persuasiva e detalhada do produto, com pelo menos 3 parágrafos, otimizada para conversão.' },
-    category: { type: Type.STRING, description: 'Categoria mais apropriada para o produto em um e-commerce.' },
-    brand: { type: Type.STRING, description: 'Marca do produto, se for claramente identificável. Caso contrário, deixe em branco.' },
-    sku: { type: Type.STRING, description: 'Sugestão de SKU (Stock Keeping Unit) para o produto, ex: MARCA-PROD-COR.' },
-    price: { type: Type.NUMBER, description: 'Preço de venda competitivo sugerido, em BRL, baseado em produtos similares. Use apenas números.' },
-    promotionalPrice: { type: Type.NUMBER, description: 'Calcule e sugira um preço promocional com um desconto atraente (ex: 10-20% menor que o preço principal), em BRL. Use apenas números.' },
-    keywords: {
-      type: Type.ARRAY,
-      items: { type: Type.STRING },
-      description: 'Lista de 8 a 12 palavras-chave (tags) relevantes para SEO e busca no e-commerce.'
-    },
-    variations: {
-      type: Type.ARRAY,
-      items: {
-        type: Type.OBJECT,
-        properties: {
-          color: { type: Type.STRING, description: 'Cor da variação do produto.' },
-          size: { type: Type.STRING, description: 'Tamanho da variação do produto (ex: P, M, G, 38, 40).' },
-          stock: { type: Type.INTEGER, description: 'Estoque inicial sugerido para a variação (ex: 50, 100).' },
-          price: { type: Type.NUMBER, description: 'Preço específico para a variação, se diferente do principal. Use apenas números.' },
-        },
-      },
-      description: 'Lista de 1 a 3 possíveis variações do produto (cor, tamanho, etc.). Se não houver variações claras, retorne um array vazio.'
-    },
-    weight: { type: Type.NUMBER, description: 'Peso estimado do produto em quilogramas (kg) para cálculo de frete. Use apenas números.' },
-    dimensions: { type: Type.STRING, description: 'Dimensões estimadas da embalagem no formato "C x L x A cm", ex: "25 x 15 x 10 cm".' },
-    promotionalSlogan: { type: Type.STRING, description: 'Um slogan promocional curto e cativante para o produto (máximo 10 palavras).' },
-    imageTextSuggestions: {
-      type: Type.ARRAY,
-      items: { type: Type.STRING },
-      description: 'Gere uma lista com EXATAMENTE 10 sugestões de textos curtos e otimizados para usar em imagens de marketing. Os textos devem ser chamativos, de alto valor comercial e persuasivos. Ex: "Frete Grátis Hoje!", "50% OFF", "Edição Limitada".'
-    },
-    imageTextPlacementSuggestions: {
-        type: Type.STRING,
-        description: `Com base na análise da imagem do produto, forneça um guia passo a passo detalhado e claro sobre como aplicar os textos sugeridos na imagem para máximo impacto. Organize as dicas em etapas numeradas (ex: '1. Posição: ...\\n2. Cores e Contraste: ...\\n3. Tipografia: ...'). Seja específico, sugerindo locais exatos (canto superior direito), cores (vermelho para promoções) e estilos de fonte (negrito, sem serifa) que combinem com a imagem fornecida.`
-    },
-    hashtags: {
-      type: Type.ARRAY,
-      items: { type: Type.STRING },
-      description: 'Gere uma lista de 5 a 10 hashtags relevantes e populares para redes sociais como Instagram e TikTok, relacionadas ao produto. Ex: #ModaFeminina #Verao2024'
-    },
-    coupon: {
-      type: Type.OBJECT,
-      properties: {
-        code: { type: Type.STRING, description: 'Crie um código de cupom de desconto curto e memorável, com letras e números. Ex: PROMO15, MEGA10.' },
-        phrase: { type: Type.STRING, description: 'Crie uma frase promocional curta para divulgar o cupom. Ex: "Use o cupom PROMO15 e ganhe 15% de desconto!"' }
-      },
-      description: 'Gere um cupom de desconto para o produto.'
-    },
-    metaTitle: { type: Type.STRING, description: 'Título otimizado para SEO, ideal para a tag <title> do Google (máximo 60 caracteres).' },
-    metaDescription: { type: Type.STRING, description: 'Meta descrição persuasiva para o Google, resumindo o produto e incentivando o clique (máximo 160 caracteres).' },
-    slug: { type: Type.STRING, description: "URL amigável (slug) para o produto, usando palavras-chave, tudo em minúsculas e separado por hifens. Ex: 'tenis-corrida-masculino-preto'." },
-    imageAltText: { type: Type.STRING, description: 'Texto alternativo (alt text) descritivo para a imagem principal do produto, focado em acessibilidade e SEO.' },
-    socialMediaPost: {
-      type: Type.STRING,
-      description: 'Crie uma legenda de post para Instagram ou Facebook. O texto deve ser envolvente, usar emojis relevantes, descrever os benefícios do produto e terminar com uma chamada para ação clara (call-to-action). Inclua 3-5 das hashtags geradas no final.'
-    },
-    videoScript: {
-      type: Type.OBJECT,
-      description: 'Crie um roteiro curto para um vídeo de 15-30 segundos para Reels ou TikTok. O roteiro deve ser dividido em 3 cenas rápidas e dinâmicas.',
-      properties: {
-        title: { type: Type.STRING, description: 'Um título chamativo para o vídeo.' },
-        scenes: {
-          type: Type.ARRAY,
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              scene: { type: Type.STRING, description: 'O número e nome da cena (ex: "Cena 1: Unboxing Rápido").' },
-              description: { type: Type.STRING, description: 'Descrição visual e narração/texto para a cena.' }
-            }
-          },
-          description: 'Uma lista contendo exatamente 3 cenas para o vídeo.'
-        }
-      }
-    }
-  },
-  required: ['name', 'description', 'category', 'price', 'keywords', 'variations', 'promotionalSlogan', 'imageTextSuggestions', 'imageTextPlacementSuggestions', 'hashtags', 'coupon', 'metaTitle', 'metaDescription', 'slug', 'imageAltText', 'socialMediaPost', 'videoScript']
-};
-
 /**
  * A robust retry wrapper for async functions with exponential backoff.
- * @param fn The async function to execute.
- * @param retries Number of retry attempts.
- * @param delay Delay in ms for the first retry.
+ * @param fn The async function to execute; it receives the signal for the current attempt.
+ * @param options.retries Number of extra attempts after the first one fails.
+ * @param options.timeoutMs Time limit for each attempt; a timed-out attempt is retried.
+ * @param options.delay Delay in ms for the first retry.
+ * @param signal Aborts the pending attempt and the backoff sleep; a cancellation is never retried.
  * @returns The result of the async function.
  */
-const withRetry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> => {
+const withRetry = async <T>(
+  fn: (attemptSignal: AbortSignal) => Promise<T>,
+  options: { retries: number; timeoutMs: number; delay?: number },
+  signal?: AbortSignal
+): Promise<T> => {
+  const { retries, timeoutMs, delay = 1000 } = options;
+  const attempts = retries + 1;
   let lastError: Error | undefined;
-  for (let i = 0; i < retries; i++) {
+  for (let i = 0; i < attempts; i++) {
+    throwIfAborted(signal);
     try {
-      return await fn();
+      return await withTimeout(fn, timeoutMs, signal);
     } catch (error) {
-      console.warn(`Attempt ${i + 1} of ${retries} failed. Retrying in ${delay * Math.pow(2, i)}ms...`);
+      throwIfAborted(signal);
+      if (isAbortError(error)) throw error;
+      console.warn(`Attempt ${i + 1} of ${attempts} failed. Retrying in ${delay * Math.pow(2, i)}ms...`);
       lastError = error as Error;
-      if (i < retries - 1) {
-        await new Promise(res => setTimeout(res, delay * Math.pow(2, i)));
+      if (i < attempts - 1) {
+        await sleep(delay * Math.pow(2, i), signal);
       }
     }
   }
@@ -160,116 +72,363 @@ const withRetry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Pr
 };
 
 
-export const generateProductContent = async (image: File | null, title: string): Promise<ProductContent> => {
-  const ai = new GoogleGenAI({ apiKey: getApiKeyForService('gemini') });
-  const model = 'gemini-2.5-pro';
-  const parts: any[] = [];
+// Passed through to the user as is, unlike other failures, so they know which fields to check.
+const INVALID_FIELDS_MESSAGE = 'A IA retornou campos inválidos mesmo após uma tentativa de correção';
+
+/**
+ * Validates a parsed response, fixing the safe cases (see `coerceToSchema`). When some
+ * fields are still invalid, asks the model once to rewrite only those fields, sending it
+ * the problems found and the valid part of the response. Throws if the repair is invalid too.
+ */
+const validateWithRepair = async <T>(
+  parsed: unknown,
+  schema: JsonSchema,
+  repair: { systemInstruction?: string; promptContext: PromptContext; templateOverrides?: Record<string, string> },
+  signal?: AbortSignal
+): Promise<T> => {
+  const { value, issues } = coerceToSchema(parsed, schema);
+  if (issues.length === 0) return value as T;
+  const fields = Array.from(new Set(issues.map(issue => issue.field)));
+  if (fields.includes('')) {
+    throw new Error(`Resposta fora do schema: ${issues.map(formatSchemaIssue).join('; ')}`);
+  }
+  console.warn("Campos inválidos na resposta da IA; pedindo a correção:", issues.map(formatSchemaIssue));
+
+  const repairSchema: JsonSchema = {
+    type: 'object',
+    properties: Object.fromEntries(fields.map(field => [field, schema.properties![field]])),
+    required: fields,
+  };
+  const validPart = Object.fromEntries(Object.entries(value as Record<string, unknown>).filter(([key]) => !fields.includes(key)));
+  const problems = issues.map(issue => `- ${formatSchemaIssue(issue)}`).join('\n');
+  const prompt = `${renderPromptTemplate('content.repair', { ...repair.promptContext, problems }, repair.templateOverrides)}\n\nCampos a corrigir: ${fields.join(', ')}\n\nAnúncio atual (JSON):\n${JSON.stringify(validPart, null, 2)}`;
+
+  const provider = getContentProvider();
+  const task = getTaskConfig('content');
+  const responseText = await withRetry((attemptSignal) => provider.generateStructured({
+      systemInstruction: repair.systemInstruction,
+      prompt,
+      schema: repairSchema,
+      model: task.model,
+      temperature: task.temperature,
+      signal: attemptSignal,
+  }), task, signal);
+  const repaired = coerceToSchema(JSON.parse(responseText), repairSchema);
+  if (repaired.issues.length > 0) {
+    console.error("Campos ainda inválidos após a correção:", repaired.issues.map(formatSchemaIssue));
+    throw new Error(`${INVALID_FIELDS_MESSAGE}: ${Array.from(new Set(repaired.issues.map(issue => issue.field))).join(', ')}.`);
+  }
+  const repairedFields = repaired.value as Record<string, unknown>;
+  return { ...(value as object), ...Object.fromEntries(fields.map(field => [field, repairedFields[field]])) } as T;
+};
+
+// The main value goes first so variant 0 always means "kept what was generated".
+const withMainVariant = (main: string | undefined, alternatives: string[] = []): string[] =>
+  Array.from(new Set([main, ...alternatives].filter((text): text is string => typeof text === 'string' && text.trim() !== '')));
+
+export interface ContentGenerationOptions {
+  signal?: AbortSignal;
+  /** Draft prompt texts by template id, used to test templates before saving them. */
+  templateOverrides?: Record<string, string>;
+  /**
+   * Streams the response: called with the fields received so far each time another
+   * one is complete. A retried attempt starts over from an empty object.
+   */
+  onPartialContent?: (partial: Partial<ProductContent>) => void;
+  /** The voice the copy is written in; its boilerplate is appended to the description. */
+  brandProfile?: BrandProfile | null;
+  /** Language of the copy; prices are converted to the currency configured for it. */
+  locale?: ListingLocale;
+  /** The platform whose limits and rules the copy must follow. */
+  marketplace?: MarketplaceId;
+}
+
+// The brand, language and marketplace rules extend the system instruction, so they apply to every field of the response.
+const renderSystemInstruction = (
+  promptContext: PromptContext,
+  brandProfile: BrandProfile | null,
+  locale: ListingLocale,
+  marketplace: MarketplaceProfile,
+  templateOverrides?: Record<string, string>
+) => {
+  const parts = [renderPromptTemplate('content.system', promptContext, templateOverrides)];
+  if (brandProfile) {
+    parts.push(renderPromptTemplate('content.brand', { ...promptContext, brandVoice: describeBrandVoice(brandProfile) }, templateOverrides));
+  }
+  if (locale !== DEFAULT_LOCALE) {
+    parts.push(renderPromptTemplate('content.locale', { ...promptContext, language: getLocaleDefinition(locale).language }, templateOverrides));
+  }
+  if (marketplace.id !== DEFAULT_MARKETPLACE) {
+    parts.push(renderPromptTemplate('content.marketplace', { ...promptContext, marketplaceRules: describeMarketplaceRules(marketplace) }, templateOverrides));
+  }
+  return parts.join('\n\n');
+};
+
+export const generateProductContent = async (
+  image: File | null,
+  title: string,
+  options: ContentGenerationOptions = {}
+): Promise<ProductContent> => {
+  const { signal, templateOverrides, onPartialContent, brandProfile = null, locale = DEFAULT_LOCALE } = options;
+  const provider = getContentProvider();
+  const task = getTaskConfig('content');
+  const marketplace = getMarketplaceProfile(options.marketplace);
+  const promptContext: PromptContext = { keywords: title, ...marketplacePromptContext(marketplace) };
   
-  const systemInstruction = `Você é um especialista em marketing digital e e-commerce, fluente em Português do Brasil. Sua principal função é criar conteúdo de marketing de alta qualidade que seja persuasivo, otimizado para SEO e, acima de tudo, ortograficamente perfeito. Cada palavra deve ser revisada para garantir precisão gramatical e de acentuação, seguindo as normas da língua portuguesa. Aderir estritamente ao schema JSON fornecido é mandatório.`;
+  const systemInstruction = renderSystemInstruction(promptContext, brandProfile, locale, marketplace, templateOverrides);
   
-  let prompt = `Analise a imagem e as palavras-chave. Sua tarefa é gerar um JSON estruturado para um produto. **PRIORIDADE MÁXIMA: TODO o texto gerado, sem exceção, deve estar em Português do Brasil, com gramática, ortografia e acentuação perfeitas.** Revise cada campo antes de finalizar. O conteúdo deve ser criativo e focado em vendas. Se as palavras-chave do usuário estiverem em outro idioma, traduza a intenção para o Português do Brasil e gere todo o conteúdo nesse idioma.`;
+  let prompt = renderPromptTemplate('content.prompt', promptContext, templateOverrides);
     
   if (title) {
-    prompt += `\n\nPalavras-chave do usuário para guiar a criação: ${title}`;
+    prompt += `\n\n${renderPromptTemplate('content.keywords', promptContext, templateOverrides)}`;
   }
   
-  const config: any = {
-    systemInstruction: systemInstruction,
-    temperature: 0.5,
-    responseMimeType: "application/json",
-    responseSchema: productContentSchema,
-  };
-  
-  parts.push({ text: prompt });
-  
-  if (image) {
-    const imagePart = await fileToGenerativePart(image);
-    parts.push(imagePart);
-  }
+  const images = image ? [await fileToInlineImage(image)] : [];
+  const schema = buildProductContentSchema(promptContext, templateOverrides);
 
   try {
-    const response = await withRetry(async () => {
-        const result = await ai.models.generateContent({
-            model: model,
-            contents: [{ parts: parts }],
-            config: config,
+    const responseText = await withRetry((attemptSignal) => {
+        let reportedFields = 0;
+        const onText = onPartialContent && ((textSoFar: string) => {
+            const fields = parseCompletedFields(textSoFar);
+            const count = Object.keys(fields).length;
+            if (count > reportedFields) {
+                reportedFields = count;
+                onPartialContent(fields as Partial<ProductContent>);
+            }
         });
-        if (result.promptFeedback?.blockReason) {
-            throw new Error(`A geração de conteúdo foi bloqueada pela política de segurança: ${result.promptFeedback.blockReason}.`);
-        }
-        return result;
-    });
-
-    const responseText = response.text.trim();
+        return provider.generateStructured({
+            systemInstruction,
+            prompt,
+            images,
+            schema,
+            model: task.model,
+            temperature: task.temperature,
+            signal: attemptSignal,
+            onText,
+        });
+    }, task, signal);
     
+    let parsed: unknown;
     try {
-        const parsedJson = JSON.parse(responseText) as ProductContent;
-
-        // Ensure all potentially missing fields are initialized to avoid runtime errors
-        parsedJson.keywords = parsedJson.keywords || [];
-        parsedJson.variations = parsedJson.variations || [];
-        parsedJson.imageTextSuggestions = parsedJson.imageTextSuggestions || [];
-        parsedJson.imageTextPlacementSuggestions = parsedJson.imageTextPlacementSuggestions || '';
-        parsedJson.hashtags = parsedJson.hashtags || [];
-        parsedJson.coupon = parsedJson.coupon || { code: '', phrase: '' };
-        parsedJson.metaTitle = parsedJson.metaTitle || '';
-        parsedJson.metaDescription = parsedJson.metaDescription || '';
-        parsedJson.slug = parsedJson.slug || '';
-        parsedJson.imageAltText = parsedJson.imageAltText || '';
-        parsedJson.socialMediaPost = parsedJson.socialMediaPost || '';
-        parsedJson.videoScript = parsedJson.videoScript || { title: '', scenes: [] };
-
-        return parsedJson;
+        parsed = JSON.parse(responseText);
     } catch (parseError) {
         console.error("Erro ao fazer o parse do JSON:", parseError);
         console.error("JSON string que falhou:", responseText);
         throw new Error("A IA retornou uma resposta em formato inválido. Tente novamente com um prompt ou imagem diferente.");
     }
 
+    // The partial results were shown field by field; the final object is checked as a whole.
+    const parsedJson = await validateWithRepair<ProductContent>(parsed, schema, { systemInstruction, promptContext, templateOverrides }, signal);
+    parsedJson.copyVariants = {
+        name: withMainVariant(parsedJson.name, parsedJson.copyVariants?.name),
+        description: withMainVariant(parsedJson.description, parsedJson.copyVariants?.description)
+            .map(description => appendBrandBoilerplate(description, brandProfile)),
+        promotionalSlogan: withMainVariant(parsedJson.promotionalSlogan, parsedJson.copyVariants?.promotionalSlogan),
+    };
+    if (brandProfile) {
+        parsedJson.description = appendBrandBoilerplate(parsedJson.description, brandProfile);
+        parsedJson.brandProfileId = brandProfile.id;
+    }
+
+    parsedJson.locale = locale;
+    parsedJson.marketplace = marketplace.id;
+    const currencySettings = loadCurrencySettings();
+    return convertListingPrices(parsedJson, currencySettings.localeCurrency[locale], currencySettings);
   } catch (error) {
+    if (isAbortError(error)) throw error;
     console.error("Falha ao gerar conteúdo do produto após múltiplas tentativas:", error);
-    if (error instanceof Error && error.message.includes('política de segurança')) {
+    if (error instanceof Error && (error.message.includes('política de segurança') || error.message.startsWith(INVALID_FIELDS_MESSAGE))) {
         throw error;
     }
     throw new Error("Não foi possível gerar os detalhes do produto. A API pode estar instável ou a entrada é inválida. Tente novamente.");
   }
 };
 
-export const generateImageFromText = async (prompt: string): Promise<string> => {
-  const ai = new GoogleGenAI({ apiKey: getApiKeyForService('gemini') });
-  const model = 'gemini-2.5-flash'; // Using the user-provided Gemini Flash model for initial image generation
+/**
+ * Rewrites only `fields` of an existing listing, sending the rest of it as context.
+ * @param instruction Optional guidance from the user, e.g. "mais curto".
+ * @returns The new values of the requested fields.
+ */
+export const regenerateProductFields = async (
+  listing: Partial<ProductContent>,
+  fields: (keyof ProductContent)[],
+  instruction: string,
+  signal?: AbortSignal,
+  templateOverrides?: Record<string, string>
+): Promise<Partial<ProductContent>> => {
+  const provider = getContentProvider();
+  const task = getTaskConfig('content');
+  const marketplace = getMarketplaceProfile(listing.marketplace);
+  const promptContext: PromptContext = { keywords: (listing.keywords ?? []).join(', '), instruction, ...marketplacePromptContext(marketplace) };
+  const brandProfile = getBrandProfile(listing.brandProfileId);
+  const locale = listing.locale ?? DEFAULT_LOCALE;
+
+  const fullSchema = buildProductContentSchema(promptContext, templateOverrides);
+  const schema: JsonSchema = {
+    type: 'object',
+    properties: Object.fromEntries(fields.map(field => [field, fullSchema.properties![field]])),
+    required: fields,
+  };
+
+  let prompt = renderPromptTemplate('content.regenerate', promptContext, templateOverrides);
+  if (instruction.trim()) {
+    prompt += `\n\n${renderPromptTemplate('content.regenerateInstruction', promptContext, templateOverrides)}`;
+  }
+  // Only the copy itself is useful context; the alternatives, bookkeeping fields and
+  // references to the variation photos are left out.
+  const { copyVariants, variantSelection, brandProfileId, ...copy } = listing;
+  const currentListing = { ...copy, variations: copy.variations?.map(({ imageId, ...variation }) => variation) };
+  prompt += `\n\nCampos a reescrever: ${fields.join(', ')}\n\nAnúncio atual (JSON):\n${JSON.stringify(currentListing, null, 2)}`;
+
+  const systemInstruction = renderSystemInstruction(promptContext, brandProfile, locale, marketplace, templateOverrides);
 
   try {
-    const response = await withRetry(async () => {
-      const result = await ai.models.generateContent({
-        model: model,
-        contents: [{ parts: [{ text: prompt }] }],
-        config: {
-          responseModalities: [Modality.IMAGE], // Request an image response
-        },
-      });
-
-      if (result.promptFeedback?.blockReason) {
-        throw new Error(`A geração de imagem foi bloqueada pela política de segurança: ${result.promptFeedback.blockReason}. Tente um prompt diferente.`);
-      }
-      return result;
-    });
-
-    const candidate = response.candidates?.[0];
-    if (candidate?.content?.parts) {
-      for (const part of candidate.content.parts) {
-        if (part.inlineData) {
-          const base64ImageBytes: string = part.inlineData.data;
-          // Return as a full data URL string
-          return `data:${part.inlineData.mimeType};base64,${base64ImageBytes}`;
-        }
-      }
+    const responseText = await withRetry((attemptSignal) => provider.generateStructured({
+        systemInstruction,
+        prompt,
+        schema,
+        model: task.model,
+        temperature: task.temperature,
+        signal: attemptSignal,
+    }), task, signal);
+
+    const parsedJson = await validateWithRepair<Partial<ProductContent>>(JSON.parse(responseText), schema, { systemInstruction, promptContext, templateOverrides }, signal);
+    if (typeof parsedJson.description === 'string') {
+        parsedJson.description = appendBrandBoilerplate(parsedJson.description, brandProfile);
+    }
+    const regenerated = Object.fromEntries(fields.map(field => [field, parsedJson[field]])) as Partial<ProductContent>;
+    // The AI prices in BRL; bring any regenerated price to the listing's currency.
+    const currency = listing.currency ?? BASE_CURRENCY;
+    if (currency === BASE_CURRENCY) return regenerated;
+    const { currency: _, ...converted } = convertListingPrices(regenerated, currency, loadCurrencySettings());
+    return converted;
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error("Falha ao regenerar campos do anúncio:", error);
+    if (error instanceof Error && (error.message.includes('política de segurança') || error.message.startsWith(INVALID_FIELDS_MESSAGE))) {
+        throw error;
+    }
+    throw new Error("Não foi possível regenerar este campo. A API pode estar instável. Tente novamente.");
+  }
+};
+
+/**
+ * Rewrites only the span of `violation` that breaks a compliance rule, keeping the
+ * rest of its text as context.
+ * @returns The text to put in place of the span; may be empty when the span should go.
+ */
+export const rewriteComplianceSpan = async (
+  listing: ProductContent,
+  violation: ComplianceViolation,
+  signal?: AbortSignal,
+  templateOverrides?: Record<string, string>
+): Promise<string> => {
+  const provider = getContentProvider();
+  const task = getTaskConfig('content');
+  const marketplace = getMarketplaceProfile(listing.marketplace);
+  const promptContext: PromptContext = { keywords: listing.keywords.join(', '), violation: violation.message, ...marketplacePromptContext(marketplace) };
+  const { source, start, end } = violation;
+  const markedText = `${source.text.slice(0, start)}[[${source.text.slice(start, end)}]]${source.text.slice(end)}`;
+  const schema: JsonSchema = {
+    type: 'object',
+    properties: { replacement: { type: 'string', description: 'O novo texto para o trecho marcado.' } },
+    required: ['replacement'],
+  };
+
+  try {
+    const responseText = await withRetry((attemptSignal) => provider.generateStructured({
+        systemInstruction: renderSystemInstruction(promptContext, getBrandProfile(listing.brandProfileId), listing.locale ?? DEFAULT_LOCALE, marketplace, templateOverrides),
+        prompt: `${renderPromptTemplate('content.compliance', promptContext, templateOverrides)}\n\nTexto:\n${markedText}`,
+        schema,
+        model: task.model,
+        temperature: task.temperature,
+        signal: attemptSignal,
+    }), task, signal);
+
+    const parsedJson = JSON.parse(responseText) as { replacement: string };
+    const violations = findSchemaViolations(parsedJson, schema);
+    if (violations.length > 0) {
+        throw new Error(`Resposta fora do schema: ${violations.join('; ')}`);
+    }
+    return parsedJson.replacement.replace(/\[\[|\]\]/g, '').trim();
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error("Falha ao reescrever o trecho:", error);
+    if (error instanceof Error && error.message.includes('política de segurança')) {
+        throw error;
+    }
+    throw new Error("Não foi possível reescrever este trecho. A API pode estar instável. Tente novamente.");
+  }
+};
+
+/**
+ * Translates every text of a listing (video script scenes, coupon phrase and copy
+ * variants included) and converts its prices to `currency`.
+ */
+export const translateProductContent = async (
+  content: ProductContent,
+  locale: ListingLocale,
+  currency: string,
+  signal?: AbortSignal,
+  templateOverrides?: Record<string, string>
+): Promise<ProductContent> => {
+  const provider = getContentProvider();
+  const task = getTaskConfig('content');
+  const texts = collectTranslatableTexts(content);
+  // Each text goes under its own key so the translations map back without relying on order.
+  const keys = texts.map((_, index) => `t${index}`);
+  const schema: JsonSchema = {
+    type: 'object',
+    properties: Object.fromEntries(keys.map(key => [key, { type: 'string' } as JsonSchema])),
+    required: keys,
+  };
+  const source = Object.fromEntries(texts.map(({ text }, index) => [keys[index], text]));
+  const prompt = `${renderPromptTemplate('content.translate', { language: getLocaleDefinition(locale).language }, templateOverrides)}\n\n${JSON.stringify(source, null, 2)}`;
+
+  try {
+    const responseText = await withRetry((attemptSignal) => provider.generateStructured({
+        prompt,
+        schema,
+        model: task.model,
+        temperature: task.temperature,
+        signal: attemptSignal,
+    }), task, signal);
+
+    const parsedJson = JSON.parse(responseText) as Record<string, string>;
+    const violations = findSchemaViolations(parsedJson, schema);
+    if (violations.length > 0) {
+        throw new Error(`Resposta fora do schema: ${violations.join('; ')}`);
+    }
+    const translated = applyTranslatedTexts(content, texts, keys.map(key => parsedJson[key]));
+    return convertListingPrices({ ...translated, locale }, currency, loadCurrencySettings());
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error("Falha ao traduzir o anúncio:", error);
+    if (error instanceof Error && (error.message.includes('política de segurança') || error.message.includes('Taxa de câmbio'))) {
+        throw error;
+    }
+    throw new Error("Não foi possível traduzir o anúncio. A API pode estar instável. Tente novamente.");
+  }
+};
+
+export const generateImageFromText = async (prompt: string, signal?: AbortSignal): Promise<string> => {
+  const provider = getImageProvider();
+  const task = getTaskConfig('textToImage');
+
+  try {
+    const imageUrl = await withRetry(
+      (attemptSignal) => provider.generateImage({ prompt, model: task.model, temperature: task.temperature, signal: attemptSignal }),
+      task, signal
+    );
+    if (imageUrl) {
+      return imageUrl;
     }
 
-    console.warn("API response did not contain an image.", response);
     throw new Error("A IA não retornou uma imagem para o prompt fornecido. Tente um prompt diferente ou mais descritivo.");
 
   } catch (error) {
+    if (isAbortError(error)) throw error;
     console.error("Falha ao gerar imagem a partir do texto após múltiplas tentativas:", error);
     if (error instanceof Error && error.message.includes('política de segurança')) {
       throw error;
@@ -279,51 +438,36 @@ export const generateImageFromText = async (prompt: string): Promise<string> =>
 };
 
 
-export const generateProductImages = async (image: File): Promise<GeneratedProductImage> => {
-  const ai = new GoogleGenAI({ apiKey: getApiKeyForService('gemini') });
+export const generateProductImages = async (
+  image: File,
+  signal?: AbortSignal,
+  promptContext: PromptContext = {}
+): Promise<GeneratedProductImage> => {
+  const provider = getImageProvider();
+  const task = getTaskConfig('productRefinement');
   try {
-    const imagePart = await fileToGenerativePart(image);
+    const inlineImage = await fileToInlineImage(image);
     
-    const generationPrompt = `Sua tarefa é refinar a imagem de produto fornecida para um padrão de publicidade de altíssima qualidade, comparável a uma edição profissional em Photoshop.
-1.  **Fundo Perfeito:** Se o fundo atual não for profissional, remova-o completamente e substitua por um fundo branco puro (#FFFFFF) ou de gradiente cinza muito sutil. O produto deve parecer estar em um estúdio fotográfico.
-2.  **Qualidade Superior:** Aumente a nitidez, melhore o contraste e equilibre as cores para que o produto pareça vibrante e real. Aplique iluminação de estúdio profissional para eliminar sombras indesejadas e destacar os detalhes.
-3.  **Fidelidade ao Produto:** O produto em si deve ser 100% preservado, sem distorções ou alterações em sua forma ou cor.
-4.  **Resultado Final:** A imagem deve ser ultra-detalhada, em alta definição (qualidade 4K), limpa e pronta para um e-commerce de luxo. Não adicione nenhum texto.`;
-
-    const response = await withRetry(async () => {
-      const result = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image',
-        contents: {
-          parts: [
-            imagePart,
-            { text: generationPrompt },
-          ],
-        },
-        config: {
-          responseModalities: [Modality.IMAGE],
-        },
-      });
-      
-      if (result.promptFeedback?.blockReason) {
-        throw new Error(`A imagem foi bloqueada pela política de segurança: ${result.promptFeedback.blockReason}. Tente uma imagem diferente.`);
-      }
-      return result;
-    });
-
-    const candidate = response.candidates?.[0];
-    if (candidate?.content?.parts) {
-      for (const part of candidate.content.parts) {
-        if (part.inlineData) {
-          const base64ImageBytes: string = part.inlineData.data;
-          return `data:${part.inlineData.mimeType};base64,${base64ImageBytes}`;
-        }
-      }
+    const generationPrompt = renderPromptTemplate('images.refinement', promptContext);
+
+    const imageUrl = await withRetry(
+      (attemptSignal) => provider.editImage({
+        image: inlineImage,
+        prompt: generationPrompt,
+        model: task.model,
+        temperature: task.temperature,
+        signal: attemptSignal,
+      }),
+      task, signal
+    );
+    if (imageUrl) {
+      return imageUrl;
     }
     
-    console.warn("API response did not contain an image.", response);
     throw new Error("A IA não retornou uma imagem, embora a solicitação tenha sido bem-sucedida. Tente usar uma imagem diferente.");
 
   } catch (error) {
+    if (isAbortError(error)) throw error;
     console.error("Falha ao gerar a imagem do produto após múltiplas tentativas:", error);
     if (error instanceof Error && error.message.includes('política de segurança')) {
       throw error;
@@ -332,78 +476,154 @@ export const generateProductImages = async (image: File): Promise<GeneratedProdu
   }
 };
 
-export const generateProductMockups = async (base64Image: string, content: ProductContent): Promise<string[]> => {
-    const ai = new GoogleGenAI({ apiKey: getApiKeyForService('gemini') });
-    if (!base64Image) return [];
+/**
+ * Recolors the refined product photo to the color of one variation, keeping the
+ * product shape and the scene, so each color option gets its own picture.
+ */
+export const generateVariationImage = async (
+  mainImage: string,
+  color: string,
+  category: string,
+  signal?: AbortSignal
+): Promise<string> => {
+  const provider = getImageProvider();
+  const task = getTaskConfig('productRefinement');
+  try {
+    const prompt = renderPromptTemplate('images.variationColor', { category, color });
+    const imageUrl = await withRetry(
+      (attemptSignal) => provider.editImage({
+        image: dataUrlToInlineImage(mainImage),
+        prompt,
+        model: task.model,
+        temperature: task.temperature,
+        signal: attemptSignal,
+      }),
+      task, signal
+    );
+    if (imageUrl) {
+      return imageUrl;
+    }
 
-    const productContext = `O produto é da categoria "${content.category}" e descrito como: "${content.description.substring(0, 150)}...".`;
-    const finalInstruction = "Não adicione NENHUM texto, logo ou elemento gráfico. A imagem deve conter apenas o produto no cenário descrito.";
+    throw new Error(`A IA não retornou uma imagem para a cor "${color}".`);
+
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error(`Falha ao gerar a imagem da variação "${color}" após múltiplas tentativas:`, error);
+    if (error instanceof Error && error.message.includes('política de segurança')) {
+      throw error;
+    }
+    throw new Error(`Não foi possível gerar a imagem da cor "${color}". A API pode estar instável. Tente novamente.`);
+  }
+};
+
+/**
+ * Generates the marketing mockups one after the other. Each finished mockup is reported
+ * through `onMockup` as soon as it arrives, so a cancelled run keeps the ones already made.
+ */
+export const generateProductMockups = async (
+    base64Image: string,
+    content: ProductContent,
+    signal?: AbortSignal,
+    onMockup?: (mockup: string) => void,
+    keywords = ''
+): Promise<string[]> => {
+    if (!base64Image) return [];
+    const provider = getImageProvider();
+    const task = getTaskConfig('mockups');
 
     // Detecta se o produto é uma peça de vestuário para adicionar um modelo humano.
     const apparelKeywords = ['roupa', 'vestuário', 'moda', 'camiseta', 'camisa', 'calça', 'vestido', 'saia', 'short', 'blusa', 'jaqueta', 'casaco', 'moletom'];
     const isApparel = apparelKeywords.some(keyword => content.category.toLowerCase().includes(keyword));
 
-    let modelInstruction = '';
-    if (isApparel) {
-        modelInstruction = `Como este produto é uma peça de vestuário, a imagem DEVE mostrar o produto sendo usado por um modelo humano (homem, mulher ou criança, conforme apropriado para o produto) em uma pose natural e atraente. O rosto do modelo pode estar visível ou não, mas o foco principal deve ser em como a roupa veste no corpo, mostrando seu caimento e estilo.`;
-    }
+    const promptContext: PromptContext = {
+        category: content.category,
+        keywords,
+        description: content.description.substring(0, 150),
+    };
+    promptContext.modelInstruction = isApparel ? renderPromptTemplate('mockups.apparel', promptContext) : '';
 
-    const mockupPrompts = [
-        `Crie um mockup de estilo de vida (lifestyle) fotorrealista e em alta definição. ${productContext} Coloque o produto em um ambiente realista e coerente. ${modelInstruction} A iluminação deve ser natural, cinematográfica e atraente, com profundidade de campo. ${finalInstruction}`,
-        `Crie um mockup para uma postagem de rede social, com qualidade de estúdio. ${productContext} ${modelInstruction} Se um modelo for usado, posicione-o em um fundo de cor única e vibrante que complemente as cores do produto. Adicione sombras suaves e realistas para um efeito 3D. O estilo deve ser moderno, limpo e em altíssima resolução. ${finalInstruction}`,
-        `Crie um mockup luxuoso e em alta definição. ${productContext} Crie um cenário sofisticado. ${modelInstruction} Use iluminação lateral dramática para destacar texturas e criar uma atmosfera premium. ${finalInstruction}`,
-        `Crie um mockup minimalista e conceitual, ultra-limpo. ${productContext} ${modelInstruction} Apresente o modelo contra um fundo de gradiente sutil. O foco deve ser absoluto no produto, com renderização nítida e detalhada. ${finalInstruction}`
-    ];
+    const mockupPrompts = MOCKUP_TEMPLATE_IDS.map(id => renderPromptTemplate(id, promptContext));
 
     const generatedMockups: string[] = [];
 
     // Executa as chamadas em série para evitar erros de limite de taxa da API (rate limiting)
     // e aumentar a confiabilidade da geração de imagens.
     for (const prompt of mockupPrompts) {
+        throwIfAborted(signal);
         try {
-            const imagePart = base64ToGenerativePart(base64Image);
+            const inlineImage = dataUrlToInlineImage(base64Image);
             
             // Cada mockup é gerado individualmente com sua própria lógica de retry.
-            const resultUrl = await withRetry(async () => {
-                const result = await ai.models.generateContent({
-                    model: 'gemini-2.5-flash-image',
-                    contents: {
-                        parts: [
-                            imagePart,
-                            { text: prompt },
-                        ],
-                    },
-                    config: {
-                        responseModalities: [Modality.IMAGE],
-                    },
-                });
-
-                if (result.promptFeedback?.blockReason) {
-                    console.warn(`A geração de mockup foi bloqueada: ${result.promptFeedback.blockReason}`);
-                    return null; // Retorna nulo se bloqueado, para não quebrar o loop.
-                }
-
-                const candidate = result.candidates?.[0];
-                if (candidate?.content?.parts) {
-                  for (const part of candidate.content.parts) {
-                    if (part.inlineData) {
-                      return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
+            const resultUrl = await withRetry(async (attemptSignal) => {
+                try {
+                    return await provider.editImage({
+                        image: inlineImage,
+                        prompt,
+                        model: task.model,
+                        temperature: task.temperature,
+                        signal: attemptSignal,
+                    });
+                } catch (error) {
+                    if (error instanceof Error && error.message.includes('política de segurança')) {
+                        console.warn(`A geração de mockup foi bloqueada: ${error.message}`);
+                        return null; // Retorna nulo se bloqueado, para não quebrar o loop.
                     }
-                  }
+                    throw error;
                 }
-                return null;
-            });
+            }, task, signal);
             
             if (resultUrl) {
                 generatedMockups.push(resultUrl);
+                onMockup?.(resultUrl);
             }
         } catch (error) {
+            // A cancellation stops the whole loop instead of skipping to the next mockup.
+            if (isAbortError(error)) throw error;
             // Se um mockup individual falhar, registra o erro e continua para o próximo.
             console.error(`Falha ao gerar um mockup para o prompt: "${prompt.substring(0, 50)}..."`, error);
         }
         // Adiciona um pequeno atraso antes da próxima iteração para reduzir ainda mais a carga de pico.
-        await new Promise(resolve => setTimeout(resolve, 250));
+        await sleep(250, signal);
     }
 
     return generatedMockups;
 };
+
+/**
+ * Sends an answer with an invalid price through the schema repair, so the repair
+ * template can be tried out from the admin panel before it is saved.
+ */
+export const testRepairPrompt = async (
+  listing: Partial<ProductContent>,
+  templateOverrides: Record<string, string>,
+  signal?: AbortSignal
+): Promise<Partial<ProductContent>> => {
+  const promptContext: PromptContext = { keywords: (listing.keywords ?? []).join(', ') };
+  const fullSchema = buildProductContentSchema(promptContext, templateOverrides);
+  const fields: (keyof ProductContent)[] = ['name', 'description', 'price'];
+  const schema: JsonSchema = {
+    type: 'object',
+    properties: Object.fromEntries(fields.map(field => [field, fullSchema.properties![field]])),
+    required: fields,
+  };
+  const invalidAnswer = { name: listing.name, description: listing.description, price: 'sob consulta' };
+  return validateWithRepair<Partial<ProductContent>>(invalidAnswer, schema, { promptContext, templateOverrides }, signal);
+};
+
+/**
+ * Runs a single image prompt against a product photo, so a prompt template can be
+ * tried out from the admin panel before it is saved.
+ */
+export const testImagePrompt = async (image: File, prompt: string, task: 'productRefinement' | 'mockups', signal?: AbortSignal): Promise<string> => {
+  const provider = getImageProvider();
+  const config = getTaskConfig(task);
+  const inlineImage = await fileToInlineImage(image);
+  const imageUrl = await withRetry(
+    (attemptSignal) => provider.editImage({ image: inlineImage, prompt, model: config.model, temperature: config.temperature, signal: attemptSignal }),
+    config, signal
+  );
+  if (!imageUrl) {
+    throw new Error("A IA não retornou uma imagem para este prompt.");
+  }
+  return imageUrl;
+};
@@ -0,0 +1,292 @@
+// Layer model, geometry and rendering of the image editor. Layers are listed bottom to
+// top; each one is placed by its center, size and rotation, in canvas pixels.
+
+interface LayerBase {
+  id: string;
+  name: string;
+  /** Center of the layer. */
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /** Clockwise, in radians. */
+  rotation: number;
+  /** From 0 (invisible) to 1. */
+  opacity: number;
+  /** A locked layer cannot be selected on the canvas, moved or resized. */
+  locked: boolean;
+  hidden: boolean;
+}
+
+export interface ImageLayer extends LayerBase {
+  kind: 'image';
+  src: string;
+}
+
+/** Stickers are ready-made overlays (banners, frames) drawn like images. */
+export interface StickerLayer extends LayerBase {
+  kind: 'sticker';
+  src: string;
+}
+
+/** The box of a text layer follows the text; resizing it changes the font size. */
+export interface TextLayer extends LayerBase {
+  kind: 'text';
+  text: string;
+  color: string;
+  fontSize: number;
+  fontFamily: string;
+  bold: boolean;
+}
+
+export interface ShapeLayer extends LayerBase {
+  kind: 'shape';
+  shape: 'rect' | 'ellipse';
+  fill: string;
+}
+
+export type Layer = ImageLayer | StickerLayer | TextLayer | ShapeLayer;
+
+export type LayerKind = Layer['kind'];
+
+export const LAYER_KIND_LABELS: Record<LayerKind, string> = {
+  image: 'Imagem',
+  sticker: 'Adesivo',
+  text: 'Texto',
+  shape: 'Forma',
+};
+
+export const FONT_FAMILIES = ['Arial', 'Impact', 'Georgia', 'Verdana', 'Courier New'];
+
+export const STICKERS: { name: string; src: string }[] = [
+  { name: 'Liquidação', src: 'data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iNTEyIiBoZWlnaHQ9IjUxMiIgdmlld0JveD0iMCAwIDUxMiA1MTIiIHhtbG5zPSJodHRwOi8vd3d3LnczLm9yZy8yMDAwL3N2ZyI+PHBhdGggZmlsbD0iI0ZGMzU1NSIgZD0iTTUgNWg1MDJ2MTIwSDV6Ii8+PHRleHQgeD0iNTAlIiB5PSI4MCIgZmlsbD0id2hpdGUiIGZvbnQtc2l6ZT0iNzIiIGZvbnQtZmFtaWx5PSJJbXBhY3QsIHNhbnMtc2VyaWYiIHRleHQtYW5jaG9yPSJtaWRkbGUiIHN0cm9rZT0iYmxhY2siIHN0cm9rZS13aWR0aD0iMiIgcGFpbnQtb3JkZXI9InN0cm9rZSBmaWxsIj5MSVFV SURBw4fDg08hPC90ZXh0Pjwvc3ZnPg==' },
+  { name: 'Moldura', src: 'data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iNTEyIiBoZWlnaHQ9IjUxMiIgdmlld0JveD0iMCAwIDUxMiA1MTIiIHhtbG5zPSJodHRwOi8vd3d3LnczLm9yZy8yMDAwL3N2ZyI+PHJlY3Qgd2lkdGg9IjQ5MiIgaGVpZ2h0PSI0OTIiIHg9IjEwIiB5PSIxMCIgZmlsbD0ibm9uZSIgc3Ryb2tlPSJ3aGl0ZSIgc3Ryb2tlLXdpZHRoPSIyMCIvPjwvc3ZnPg==' },
+  { name: 'Canto', src: 'data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iNTEyIiBoZWlnaHQ9IjUxMiIgdmlld0JveD0iMCAwIDUxMiA1MTIiIHhtbG5zPSJodHRwOi8vd3d3LnczLm9yZy8yMDAwL3N2ZyI+PHBhdGggZmlsbD0iIzRGNkFGRiIgZD0iTTUxMiAwdjIyNEwyODggMHoiLz48Y2lyY2xlIGN4PSI0NDAiIGN5PSI3MCIgcj0iNDAiIGZpbGw9IiNGQTdDMkYiLz48L3N2Zz4=' },
+];
+
+const MIN_LAYER_SIZE = 8;
+const TEXT_LINE_HEIGHT = 1.2;
+
+export const createLayerId = (): string => `layer-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+const layerDefaults = (name: string) => ({ id: createLayerId(), name, rotation: 0, opacity: 1, locked: false, hidden: false });
+
+/** An image or sticker filling at most `maxSize`, centered on the canvas, keeping its proportions. */
+export const createPictureLayer = (
+  kind: 'image' | 'sticker',
+  name: string,
+  src: string,
+  natural: { width: number; height: number },
+  canvas: { width: number; height: number },
+  maxSize: { width: number; height: number } = canvas
+): ImageLayer | StickerLayer => {
+  const scale = Math.min(maxSize.width / natural.width, maxSize.height / natural.height);
+  return {
+    ...layerDefaults(name),
+    kind,
+    src,
+    x: canvas.width / 2,
+    y: canvas.height / 2,
+    width: natural.width * scale,
+    height: natural.height * scale,
+  };
+};
+
+export const createTextLayer = (text: string, canvas: { width: number; height: number }): TextLayer => {
+  const layer: TextLayer = {
+    ...layerDefaults(text),
+    kind: 'text',
+    text,
+    color: '#FFFFFF',
+    fontSize: 40,
+    fontFamily: 'Arial',
+    bold: true,
+    x: canvas.width / 2,
+    y: canvas.height / 2,
+    width: 0,
+    height: 0,
+  };
+  return fitTextBox(layer);
+};
+
+export const createShapeLayer = (shape: ShapeLayer['shape'], canvas: { width: number; height: number }): ShapeLayer => ({
+  ...layerDefaults(shape === 'rect' ? 'Retângulo' : 'Elipse'),
+  kind: 'shape',
+  shape,
+  fill: '#4F46E5',
+  x: canvas.width / 2,
+  y: canvas.height / 2,
+  width: canvas.width / 3,
+  height: canvas.height / 5,
+});
+
+// --- Text measuring ---
+
+export const fontFor = (layer: TextLayer) => `${layer.bold ? 'bold ' : ''}${layer.fontSize}px ${layer.fontFamily}`;
+
+let measureContext: CanvasRenderingContext2D | null = null;
+
+/** The box of a text layer, measured with the layer's own font. */
+export const fitTextBox = (layer: TextLayer): TextLayer => {
+  measureContext = measureContext ?? document.createElement('canvas').getContext('2d');
+  const lines = layer.text.split('\n');
+  let width = layer.fontSize * 0.5;
+  if (measureContext) {
+    measureContext.font = fontFor(layer);
+    width = Math.max(width, ...lines.map(line => measureContext!.measureText(line).width));
+  }
+  return { ...layer, width, height: lines.length * layer.fontSize * TEXT_LINE_HEIGHT };
+};
+
+// --- Geometry ---
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export type HandleId = 'nw' | 'ne' | 'se' | 'sw' | 'rotate';
+
+// Sign of each corner handle on the layer's own axes.
+const CORNER_SIGNS: Record<Exclude<HandleId, 'rotate'>, Point> = {
+  nw: { x: -1, y: -1 },
+  ne: { x: 1, y: -1 },
+  se: { x: 1, y: 1 },
+  sw: { x: -1, y: 1 },
+};
+
+const rotatePoint = (point: Point, angle: number): Point => ({
+  x: point.x * Math.cos(angle) - point.y * Math.sin(angle),
+  y: point.x * Math.sin(angle) + point.y * Math.cos(angle),
+});
+
+/** A canvas point in the layer's own axes, with the origin at its center. */
+export const toLayerSpace = (layer: Layer, point: Point): Point =>
+  rotatePoint({ x: point.x - layer.x, y: point.y - layer.y }, -layer.rotation);
+
+const toCanvasSpace = (layer: Layer, point: Point): Point => {
+  const rotated = rotatePoint(point, layer.rotation);
+  return { x: rotated.x + layer.x, y: rotated.y + layer.y };
+};
+
+export const containsPoint = (layer: Layer, point: Point): boolean => {
+  const local = toLayerSpace(layer, point);
+  return Math.abs(local.x) <= layer.width / 2 && Math.abs(local.y) <= layer.height / 2;
+};
+
+/** The topmost visible, unlocked layer under the point. */
+export const hitTestLayers = (layers: Layer[], point: Point): Layer | null => {
+  for (let index = layers.length - 1; index >= 0; index--) {
+    const layer = layers[index];
+    if (!layer.hidden && !layer.locked && containsPoint(layer, point)) return layer;
+  }
+  return null;
+};
+
+/** Position of each handle on the canvas; the rotate handle sits above the top edge. */
+export const handlePositions = (layer: Layer, rotateOffset: number): Record<HandleId, Point> => ({
+  nw: toCanvasSpace(layer, { x: -layer.width / 2, y: -layer.height / 2 }),
+  ne: toCanvasSpace(layer, { x: layer.width / 2, y: -layer.height / 2 }),
+  se: toCanvasSpace(layer, { x: layer.width / 2, y: layer.height / 2 }),
+  sw: toCanvasSpace(layer, { x: -layer.width / 2, y: layer.height / 2 }),
+  rotate: toCanvasSpace(layer, { x: 0, y: -layer.height / 2 - rotateOffset }),
+});
+
+export const hitTestHandles = (layer: Layer, point: Point, handleRadius: number, rotateOffset: number): HandleId | null => {
+  const positions = handlePositions(layer, rotateOffset);
+  const handle = (Object.keys(positions) as HandleId[]).find(id => Math.hypot(positions[id].x - point.x, positions[id].y - point.y) <= handleRadius);
+  return handle ?? null;
+};
+
+/**
+ * Drags a corner handle to `point`, keeping the opposite corner in place. Text, images
+ * and stickers keep their proportions; shapes only with `keepAspect`.
+ */
+export const resizeLayer = (layer: Layer, handle: Exclude<HandleId, 'rotate'>, point: Point, keepAspect: boolean): Layer => {
+  const sign = CORNER_SIGNS[handle];
+  const anchor = { x: -sign.x * layer.width / 2, y: -sign.y * layer.height / 2 };
+  const local = toLayerSpace(layer, point);
+  let width = Math.max(MIN_LAYER_SIZE, (local.x - anchor.x) * sign.x);
+  let height = Math.max(MIN_LAYER_SIZE, (local.y - anchor.y) * sign.y);
+  if (keepAspect || layer.kind !== 'shape') {
+    const scale = Math.max(width / layer.width, height / layer.height);
+    width = layer.width * scale;
+    height = layer.height * scale;
+  }
+  let resized: Layer = { ...layer, width, height };
+  if (layer.kind === 'text') {
+    resized = fitTextBox({ ...layer, fontSize: Math.max(4, Math.round(layer.fontSize * height / layer.height)) });
+  }
+  const center = toCanvasSpace(layer, { x: anchor.x + sign.x * resized.width / 2, y: anchor.y + sign.y * resized.height / 2 });
+  return { ...resized, x: center.x, y: center.y };
+};
+
+const ROTATION_SNAP = Math.PI / 12;
+
+/** Turns the layer so that its top faces `point`; with `snap`, in steps of 15°. */
+export const rotateLayer = (layer: Layer, point: Point, snap: boolean): Layer => {
+  const angle = Math.atan2(point.y - layer.y, point.x - layer.x) + Math.PI / 2;
+  return { ...layer, rotation: snap ? Math.round(angle / ROTATION_SNAP) * ROTATION_SNAP : angle };
+};
+
+// --- Ordering ---
+
+export type LayerOrderMove = 'front' | 'forward' | 'backward' | 'back';
+
+/** Moves the selected layers in the stack, keeping their order among themselves. */
+export const reorderLayers = (layers: Layer[], ids: Set<string>, move: LayerOrderMove): Layer[] => {
+  const selected = layers.filter(layer => ids.has(layer.id));
+  const others = layers.filter(layer => !ids.has(layer.id));
+  if (move === 'front') return [...others, ...selected];
+  if (move === 'back') return [...selected, ...others];
+  const result = [...layers];
+  const step = move === 'forward' ? 1 : -1;
+  const indexes = layers.map((layer, index) => (ids.has(layer.id) ? index : -1)).filter(index => index >= 0);
+  // Walking from the side the layers move towards lets adjacent selected layers move together.
+  (step === 1 ? indexes.reverse() : indexes).forEach(index => {
+    const target = index + step;
+    if (target < 0 || target >= result.length || ids.has(result[target].id)) return;
+    [result[index], result[target]] = [result[target], result[index]];
+  });
+  return result;
+};
+
+// --- Rendering ---
+
+/** Draws the visible layers; pictures whose image has not loaded yet are skipped. */
+export const renderLayers = (ctx: CanvasRenderingContext2D, layers: Layer[], getImage: (src: string) => HTMLImageElement | null) => {
+  layers.forEach(layer => {
+    if (layer.hidden || layer.opacity <= 0) return;
+    ctx.save();
+    ctx.globalAlpha = layer.opacity;
+    ctx.translate(layer.x, layer.y);
+    ctx.rotate(layer.rotation);
+    const left = -layer.width / 2;
+    const top = -layer.height / 2;
+    switch (layer.kind) {
+      case 'image':
+      case 'sticker': {
+        const image = getImage(layer.src);
+        if (image) ctx.drawImage(image, left, top, layer.width, layer.height);
+        break;
+      }
+      case 'text': {
+        ctx.font = fontFor(layer);
+        ctx.fillStyle = layer.color;
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        const lineHeight = layer.fontSize * TEXT_LINE_HEIGHT;
+        layer.text.split('\n').forEach((line, index) => ctx.fillText(line, 0, top + lineHeight * (index + 0.5)));
+        break;
+      }
+      case 'shape':
+        ctx.fillStyle = layer.fill;
+        ctx.beginPath();
+        if (layer.shape === 'ellipse') ctx.ellipse(0, 0, layer.width / 2, layer.height / 2, 0, 0, Math.PI * 2);
+        else ctx.rect(left, top, layer.width, layer.height);
+        ctx.fill();
+        break;
+    }
+    ctx.restore();
+  });
+};
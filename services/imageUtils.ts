@@ -0,0 +1,65 @@
+export const dataUrlToFile = async (dataUrl: string, fileName: string): Promise<File> => {
+    const res = await fetch(dataUrl);
+    const blob = await res.blob();
+    return new File([blob], fileName, { type: blob.type });
+};
+
+// Utility function to resize images client-side for performance.
+export const resizeImage = (file: File, maxDimension: number): Promise<File> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.readAsDataURL(file);
+    reader.onload = (event) => {
+      if (!event.target?.result) {
+          return reject(new Error("Failed to read file."));
+      }
+      const img = new Image();
+      img.src = event.target.result as string;
+      img.onload = () => {
+        const { width, height } = img;
+
+        // If the image is already small enough, no need to resize.
+        if (width <= maxDimension && height <= maxDimension) {
+          return resolve(file);
+        }
+
+        let newWidth, newHeight;
+
+        if (width > height) {
+          newWidth = maxDimension;
+          newHeight = (height * maxDimension) / width;
+        } else {
+          newHeight = maxDimension;
+          newWidth = (width * maxDimension) / height;
+        }
+
+        const canvas = document.createElement('canvas');
+        canvas.width = newWidth;
+        canvas.height = newHeight;
+        const ctx = canvas.getContext('2d');
+
+        if (!ctx) {
+          return reject(new Error('Could not get canvas context'));
+        }
+
+        ctx.drawImage(img, 0, 0, newWidth, newHeight);
+
+        // Convert canvas to blob, then to file.
+        canvas.toBlob((blob) => {
+          if (!blob) {
+            return reject(new Error('Canvas to Blob conversion failed'));
+          }
+          // Preserve the original file name, but use a more common type for web.
+          const outputType = 'image/jpeg';
+          const resizedFile = new File([blob], file.name, {
+            type: outputType,
+            lastModified: Date.now(),
+          });
+          resolve(resizedFile);
+        }, 'image/jpeg', 0.9); // Use JPEG with 90% quality for good compression.
+      };
+      img.onerror = (err) => reject(err);
+    };
+    reader.onerror = (err) => reject(err);
+  });
+};
@@ -0,0 +1,156 @@
+import { LibraryEntry, LibraryEntryImages } from '../types';
+import { parsePackageDimensions } from './shipping';
+
+const DB_NAME = 'mega-anuncio-library';
+const DB_VERSION = 1;
+const ENTRIES_STORE = 'entries';
+const IMAGES_STORE = 'images';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(ENTRIES_STORE)) {
+          const entries = db.createObjectStore(ENTRIES_STORE, { keyPath: 'id' });
+          entries.createIndex('updatedAt', 'updatedAt');
+        }
+        if (!db.objectStoreNames.contains(IMAGES_STORE)) {
+          db.createObjectStore(IMAGES_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const runTransaction = async <T>(
+  storeNames: string[],
+  mode: IDBTransactionMode,
+  work: (tx: IDBTransaction) => Promise<T> | T
+): Promise<T> => {
+  const db = await openDatabase();
+  const tx = db.transaction(storeNames, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+  const result = await work(tx);
+  await done;
+  return result;
+};
+
+export const createLibraryEntryId = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
+/**
+ * Draws a small JPEG thumbnail from an image Blob or data URL.
+ */
+export const createThumbnail = (source: Blob | string, maxDimension = 200): Promise<string | null> => {
+  return new Promise((resolve) => {
+    const url = typeof source === 'string' ? source : URL.createObjectURL(source);
+    const img = new Image();
+    img.onload = () => {
+      const scale = Math.min(1, maxDimension / Math.max(img.width, img.height));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(img.width * scale);
+      canvas.height = Math.round(img.height * scale);
+      const ctx = canvas.getContext('2d');
+      if (typeof source !== 'string') URL.revokeObjectURL(url);
+      if (!ctx) return resolve(null);
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      resolve(canvas.toDataURL('image/jpeg', 0.8));
+    };
+    img.onerror = () => {
+      if (typeof source !== 'string') URL.revokeObjectURL(url);
+      resolve(null);
+    };
+    img.src = url;
+  });
+};
+
+/**
+ * Saves an entry, merging with what is already stored so callers can save
+ * progressively as the content, each image and later edits arrive. The first
+ * save of an entry must include its content.
+ */
+export const saveLibraryEntry = async (
+  entry: Pick<LibraryEntry, 'id'> & Partial<Omit<LibraryEntry, 'id' | 'createdAt' | 'updatedAt'>>,
+  images?: Partial<Omit<LibraryEntryImages, 'id'>>
+): Promise<LibraryEntry> => {
+  return runTransaction([ENTRIES_STORE, IMAGES_STORE], 'readwrite', async (tx) => {
+    const entries = tx.objectStore(ENTRIES_STORE);
+    const existing = await promisifyRequest<LibraryEntry | undefined>(entries.get(entry.id));
+    const now = Date.now();
+    const saved = {
+      keywords: '',
+      ...existing,
+      ...entry,
+      thumbnail: entry.thumbnail ?? existing?.thumbnail ?? null,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    } as LibraryEntry;
+    entries.put(saved);
+
+    if (images) {
+      const imageStore = tx.objectStore(IMAGES_STORE);
+      const existingImages = await promisifyRequest<LibraryEntryImages | undefined>(imageStore.get(entry.id));
+      imageStore.put({
+        id: entry.id,
+        originalImage: null,
+        mainImage: null,
+        mockups: [],
+        ...existingImages,
+        ...images,
+      } as LibraryEntryImages);
+    }
+    return saved;
+  });
+};
+
+// Entries saved before the dimensions were structured hold them as "25 x 15 x 10 cm".
+const upgradeEntry = (entry: LibraryEntry): LibraryEntry =>
+  typeof (entry.content.dimensions as unknown) === 'string'
+    ? { ...entry, content: { ...entry.content, dimensions: parsePackageDimensions(entry.content.dimensions) } }
+    : entry;
+
+/** Lists all entries, most recently updated first. Images are not loaded. */
+export const listLibraryEntries = async (): Promise<LibraryEntry[]> => {
+  const entries = await runTransaction([ENTRIES_STORE], 'readonly', (tx) =>
+    promisifyRequest<LibraryEntry[]>(tx.objectStore(ENTRIES_STORE).getAll())
+  );
+  return entries.map(upgradeEntry).sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getLibraryEntry = async (id: string): Promise<{ entry: LibraryEntry; images: LibraryEntryImages | null } | null> => {
+  return runTransaction([ENTRIES_STORE, IMAGES_STORE], 'readonly', async (tx) => {
+    const entry = await promisifyRequest<LibraryEntry | undefined>(tx.objectStore(ENTRIES_STORE).get(id));
+    if (!entry) return null;
+    const images = await promisifyRequest<LibraryEntryImages | undefined>(tx.objectStore(IMAGES_STORE).get(id));
+    return { entry: upgradeEntry(entry), images: images ?? null };
+  });
+};
+
+export const deleteLibraryEntry = async (id: string): Promise<void> => {
+  await runTransaction([ENTRIES_STORE, IMAGES_STORE], 'readwrite', (tx) => {
+    tx.objectStore(ENTRIES_STORE).delete(id);
+    tx.objectStore(IMAGES_STORE).delete(id);
+  });
+};
@@ -0,0 +1,53 @@
+import { ProductContent } from '../types';
+
+type Path = (string | number)[];
+
+export interface TranslatableText {
+  path: Path;
+  text: string;
+}
+
+// Codes, identifiers and measurements stay as they are in every language.
+const UNTRANSLATED_FIELDS = new Set(['sku', 'brand', 'brandProfileId', 'locale', 'currency', 'marketplace', 'dimensions', 'generatedImages', 'variantSelection']);
+const UNTRANSLATED_KEYS = new Set(['code', 'size', 'sku', 'imageId']);
+
+const isExcluded = (path: Path) => {
+  const last = path[path.length - 1];
+  return UNTRANSLATED_FIELDS.has(String(path[0])) || (typeof last === 'string' && UNTRANSLATED_KEYS.has(last));
+};
+
+/**
+ * Every non-empty text of the listing with its location, including nested ones such
+ * as the video script scenes, the coupon phrase and the copy variants.
+ */
+export const collectTranslatableTexts = (content: ProductContent): TranslatableText[] => {
+  const texts: TranslatableText[] = [];
+  const visit = (value: unknown, path: Path) => {
+    if (path.length > 0 && isExcluded(path)) return;
+    if (typeof value === 'string') {
+      if (value.trim()) texts.push({ path, text: value });
+    } else if (Array.isArray(value)) {
+      value.forEach((item, index) => visit(item, [...path, index]));
+    } else if (typeof value === 'object' && value !== null) {
+      Object.entries(value).forEach(([key, child]) => visit(child, [...path, key]));
+    }
+  };
+  visit(content, []);
+  return texts;
+};
+
+const setAtPath = (target: unknown, path: Path, value: string): unknown => {
+  if (path.length === 0) return value;
+  const [head, ...rest] = path;
+  if (Array.isArray(target)) {
+    const copy = [...target];
+    copy[head as number] = setAtPath(copy[head as number], rest, value);
+    return copy;
+  }
+  const record = target as Record<string, unknown>;
+  return { ...record, [head]: setAtPath(record[head as string], rest, value) };
+};
+
+/** A copy of `content` with each collected text replaced by its translation, in the same order. */
+export const applyTranslatedTexts = (content: ProductContent, texts: TranslatableText[], translations: string[]): ProductContent =>
+  texts.reduce<ProductContent>((result, { path }, index) => setAtPath(result, path, translations[index]) as ProductContent, content);
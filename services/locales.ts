@@ -0,0 +1,94 @@
+import { ListingLocale, ProductContent } from '../types';
+
+const CURRENCY_SETTINGS_STORAGE_KEY = 'currency_settings';
+
+export interface LocaleDefinition {
+  id: ListingLocale;
+  name: string;
+  /** How the language is named in the prompts, which are written in Portuguese. */
+  language: string;
+  /** Locale used by Intl to format numbers and prices. */
+  intlLocale: string;
+}
+
+export const LISTING_LOCALES: LocaleDefinition[] = [
+  { id: 'pt-BR', name: 'Português (Brasil)', language: 'Português do Brasil', intlLocale: 'pt-BR' },
+  { id: 'es', name: 'Español (LATAM)', language: 'espanhol latino-americano', intlLocale: 'es-419' },
+  { id: 'en', name: 'English', language: 'inglês americano', intlLocale: 'en-US' },
+];
+
+export const DEFAULT_LOCALE: ListingLocale = 'pt-BR';
+
+/** The AI always prices in this currency; other currencies are converted from it. */
+export const BASE_CURRENCY = 'BRL';
+
+export interface CurrencySettings {
+  /** Units of each currency worth 1 BRL. */
+  rates: Record<string, number>;
+  /** The currency listings in each locale are priced in. */
+  localeCurrency: Record<ListingLocale, string>;
+}
+
+export const DEFAULT_CURRENCY_SETTINGS: CurrencySettings = {
+  rates: { BRL: 1, USD: 0.18, EUR: 0.17, MXN: 3.4, CLP: 170, COP: 740, ARS: 180 },
+  localeCurrency: { 'pt-BR': 'BRL', es: 'MXN', en: 'USD' },
+};
+
+export const getLocaleDefinition = (locale: ListingLocale | undefined): LocaleDefinition =>
+  LISTING_LOCALES.find(definition => definition.id === locale) ?? LISTING_LOCALES[0];
+
+export const loadCurrencySettings = (): CurrencySettings => {
+  try {
+    const stored = localStorage.getItem(CURRENCY_SETTINGS_STORAGE_KEY);
+    if (!stored) return DEFAULT_CURRENCY_SETTINGS;
+    const parsed = JSON.parse(stored) as Partial<CurrencySettings>;
+    return {
+      rates: { ...DEFAULT_CURRENCY_SETTINGS.rates, ...parsed.rates, [BASE_CURRENCY]: 1 },
+      localeCurrency: { ...DEFAULT_CURRENCY_SETTINGS.localeCurrency, ...parsed.localeCurrency },
+    };
+  } catch (e) {
+    console.error("Failed to parse currency settings from localStorage", e);
+    return DEFAULT_CURRENCY_SETTINGS;
+  }
+};
+
+export const saveCurrencySettings = (settings: CurrencySettings) => {
+  localStorage.setItem(CURRENCY_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
+
+export const convertPrice = (amount: number, from: string, to: string, settings: CurrencySettings): number => {
+  if (from === to) return amount;
+  const fromRate = settings.rates[from];
+  const toRate = settings.rates[to];
+  if (!fromRate || !toRate) {
+    throw new Error(`Taxa de câmbio para ${fromRate ? to : from} não configurada.`);
+  }
+  return Math.round((amount / fromRate) * toRate * 100) / 100;
+};
+
+/** Converts every price and cost of the listing (main, promotional and per variation) to `currency`. */
+export const convertListingPrices = <T extends Partial<ProductContent>>(content: T, currency: string, settings: CurrencySettings): T => {
+  const from = content.currency ?? BASE_CURRENCY;
+  const convert = (amount: number | undefined) => (typeof amount === 'number' ? convertPrice(amount, from, currency, settings) : amount);
+  const converted: T = { ...content, currency };
+  // Only the fields present are touched, so a partial listing stays partial.
+  if ('price' in content) converted.price = convert(content.price);
+  if ('promotionalPrice' in content) converted.promotionalPrice = convert(content.promotionalPrice);
+  if (content.variations) {
+    converted.variations = content.variations.map(variation => ({ ...variation, price: convert(variation.price), unitCost: convert(variation.unitCost) }));
+  }
+  if (content.costs) {
+    converted.costs = { unitCost: convert(content.costs.unitCost)!, packagingCost: convert(content.costs.packagingCost)! };
+  }
+  return converted;
+};
+
+export const formatPrice = (value: number | undefined, currency = BASE_CURRENCY, locale?: ListingLocale): string => {
+  if (typeof value !== 'number') return 'N/A';
+  try {
+    return new Intl.NumberFormat(getLocaleDefinition(locale).intlLocale, { style: 'currency', currency }).format(value);
+  } catch {
+    // Intl rejects codes that are not valid ISO 4217 currencies.
+    return `${currency} ${value.toFixed(2)}`;
+  }
+};
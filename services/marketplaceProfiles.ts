@@ -0,0 +1,130 @@
+import { MarketplaceId, ProductContent } from '../types';
+import { PromptContext } from './promptTemplates';
+
+const SELECTED_MARKETPLACE_STORAGE_KEY = 'selected_marketplace';
+
+/**
+ * The rules a platform imposes on a listing. They are sent to the AI when generating,
+ * checked live while editing and applied by the exporters when building the files.
+ */
+export interface MarketplaceProfile {
+  id: MarketplaceId;
+  name: string;
+  titleLimit: number;
+  /** null when the platform sets no practical limit. */
+  descriptionLimit: number | null;
+  metaTitleLimit: number;
+  metaDescriptionLimit: number;
+  /** Characters the platform rejects in the title. */
+  forbiddenTitleCharacters: string;
+  allowsEmoji: boolean;
+  allowsHtml: boolean;
+  maxImages: number;
+  maxVariations: number;
+}
+
+export const MARKETPLACE_PROFILES = {
+  generic: {
+    id: 'generic', name: 'Genérico', titleLimit: 60, descriptionLimit: null, metaTitleLimit: 60, metaDescriptionLimit: 160,
+    forbiddenTitleCharacters: '', allowsEmoji: true, allowsHtml: false, maxImages: 10, maxVariations: 100,
+  },
+  shopee: {
+    id: 'shopee', name: 'Shopee', titleLimit: 120, descriptionLimit: 3000, metaTitleLimit: 60, metaDescriptionLimit: 160,
+    forbiddenTitleCharacters: '<>{}[]|', allowsEmoji: false, allowsHtml: false, maxImages: 9, maxVariations: 50,
+  },
+  mercadolivre: {
+    id: 'mercadolivre', name: 'Mercado Livre', titleLimit: 60, descriptionLimit: 50000, metaTitleLimit: 60, metaDescriptionLimit: 160,
+    forbiddenTitleCharacters: '<>{}[]|', allowsEmoji: false, allowsHtml: false, maxImages: 10, maxVariations: 100,
+  },
+  shopify: {
+    id: 'shopify', name: 'Shopify', titleLimit: 255, descriptionLimit: null, metaTitleLimit: 70, metaDescriptionLimit: 320,
+    forbiddenTitleCharacters: '', allowsEmoji: true, allowsHtml: true, maxImages: 250, maxVariations: 100,
+  },
+  woocommerce: {
+    id: 'woocommerce', name: 'WooCommerce', titleLimit: 200, descriptionLimit: null, metaTitleLimit: 60, metaDescriptionLimit: 160,
+    forbiddenTitleCharacters: '', allowsEmoji: true, allowsHtml: true, maxImages: 20, maxVariations: 100,
+  },
+} as const satisfies Record<MarketplaceId, MarketplaceProfile>;
+
+export const DEFAULT_MARKETPLACE: MarketplaceId = 'generic';
+
+export const getMarketplaceProfile = (id: MarketplaceId | undefined): MarketplaceProfile =>
+  MARKETPLACE_PROFILES[id ?? DEFAULT_MARKETPLACE] ?? MARKETPLACE_PROFILES[DEFAULT_MARKETPLACE];
+
+/** The marketplace last picked in the product input, remembered between sessions. */
+export const loadSelectedMarketplace = (): MarketplaceId => {
+  const stored = localStorage.getItem(SELECTED_MARKETPLACE_STORAGE_KEY);
+  return stored && stored in MARKETPLACE_PROFILES ? stored as MarketplaceId : DEFAULT_MARKETPLACE;
+};
+
+export const saveSelectedMarketplace = (id: MarketplaceId) => {
+  localStorage.setItem(SELECTED_MARKETPLACE_STORAGE_KEY, id);
+};
+
+/** The limits used by the listing schema field descriptions. */
+export const marketplacePromptContext = (profile: MarketplaceProfile): PromptContext => ({
+  marketplace: profile.name,
+  titleLimit: String(profile.titleLimit),
+  metaTitleLimit: String(profile.metaTitleLimit),
+  metaDescriptionLimit: String(profile.metaDescriptionLimit),
+});
+
+/** The profile as a list of instructions, the value of the {{marketplaceRules}} placeholder. */
+export const describeMarketplaceRules = (profile: MarketplaceProfile): string => {
+  const lines = [`Nome do produto com no máximo ${profile.titleLimit} caracteres.`];
+  if (profile.forbiddenTitleCharacters) {
+    lines.push(`Não use estes caracteres no nome do produto: ${profile.forbiddenTitleCharacters.split('').join(' ')}`);
+  }
+  if (profile.descriptionLimit !== null) {
+    lines.push(`Descrição com no máximo ${profile.descriptionLimit} caracteres.`);
+  }
+  // Descriptions are always plain text; the exporters convert them to HTML where the platform takes it.
+  lines.push('Descrição em texto puro, sem tags HTML nem Markdown.');
+  if (!profile.allowsEmoji) lines.push('Não use emojis no nome nem na descrição.');
+  lines.push(`No máximo ${profile.maxVariations} variações.`);
+  return lines.map(line => `- ${line}`).join('\n');
+};
+
+export interface MarketplaceWarning {
+  field: string;
+  message: string;
+}
+
+const EMOJI_PATTERN = /\p{Extended_Pictographic}/u;
+const HTML_TAG_PATTERN = /<\/?[a-z][^>]*>/i;
+
+/**
+ * Every rule of the profile the listing breaks. `imageCount` is the number of images
+ * that would be exported with it.
+ */
+export const findMarketplaceWarnings = (content: ProductContent, profile: MarketplaceProfile, imageCount: number): MarketplaceWarning[] => {
+  const warnings: MarketplaceWarning[] = [];
+  const checkLength = (field: string, value: string | undefined, limit: number | null) => {
+    if (limit !== null && value && value.length > limit) {
+      warnings.push({ field, message: `${value.length} caracteres; o limite em ${profile.name} é ${limit}.` });
+    }
+  };
+
+  checkLength('Nome do Produto', content.name, profile.titleLimit);
+  const forbidden = Array.from(new Set(content.name.split('').filter(char => profile.forbiddenTitleCharacters.includes(char))));
+  if (forbidden.length > 0) {
+    warnings.push({ field: 'Nome do Produto', message: `Caracteres não aceitos em ${profile.name}: ${forbidden.join(' ')}` });
+  }
+  checkLength('Descrição', content.description, profile.descriptionLimit);
+  if (!profile.allowsHtml && HTML_TAG_PATTERN.test(content.description)) {
+    warnings.push({ field: 'Descrição', message: `Contém tags HTML, não aceitas em ${profile.name}.` });
+  }
+  if (!profile.allowsEmoji) {
+    if (EMOJI_PATTERN.test(content.name)) warnings.push({ field: 'Nome do Produto', message: `Contém emojis, não aceitos em ${profile.name}.` });
+    if (EMOJI_PATTERN.test(content.description)) warnings.push({ field: 'Descrição', message: `Contém emojis, não aceitos em ${profile.name}.` });
+  }
+  checkLength('Meta Title', content.metaTitle, profile.metaTitleLimit);
+  checkLength('Meta Description', content.metaDescription, profile.metaDescriptionLimit);
+  if (content.variations.length > profile.maxVariations) {
+    warnings.push({ field: 'Variações', message: `${content.variations.length} variações; ${profile.name} aceita até ${profile.maxVariations}.` });
+  }
+  if (imageCount > profile.maxImages) {
+    warnings.push({ field: 'Imagens', message: `${imageCount} imagens; só as ${profile.maxImages} primeiras serão exportadas para ${profile.name}.` });
+  }
+  return warnings;
+};
@@ -0,0 +1,88 @@
+/**
+ * Reads the fields of a JSON object that is still being streamed. Only top-level
+ * fields whose value has been fully received are returned, so a half-written
+ * description or price never reaches the screen.
+ */
+
+const isWhitespace = (char: string) => char === ' ' || char === '\n' || char === '\r' || char === '\t';
+
+const skipWhitespace = (text: string, index: number): number => {
+  while (index < text.length && isWhitespace(text[index])) index++;
+  return index;
+};
+
+// `index` points at the opening quote; returns the index of the closing quote, or -1.
+const findStringEnd = (text: string, index: number): number => {
+  for (let i = index + 1; i < text.length; i++) {
+    if (text[i] === '\\') i++;
+    else if (text[i] === '"') return i;
+  }
+  return -1;
+};
+
+// Returns the index just past the value starting at `index`, or -1 while it is incomplete.
+const findValueEnd = (text: string, index: number): number => {
+  const first = text[index];
+  if (first === undefined) return -1;
+
+  if (first === '"') {
+    const end = findStringEnd(text, index);
+    return end === -1 ? -1 : end + 1;
+  }
+
+  if (first === '{' || first === '[') {
+    let depth = 0;
+    for (let i = index; i < text.length; i++) {
+      const char = text[i];
+      if (char === '"') {
+        i = findStringEnd(text, i);
+        if (i === -1) return -1;
+      } else if (char === '{' || char === '[') {
+        depth++;
+      } else if (char === '}' || char === ']') {
+        depth--;
+        if (depth === 0) return i + 1;
+      }
+    }
+    return -1;
+  }
+
+  // Numbers and literals only end at a delimiter: "49" may still become "49.90".
+  for (let i = index; i < text.length; i++) {
+    if (text[i] === ',' || text[i] === '}' || text[i] === ']' || isWhitespace(text[i])) return i;
+  }
+  return -1;
+};
+
+export const parseCompletedFields = (text: string): Record<string, unknown> => {
+  const fields: Record<string, unknown> = {};
+  // Skips anything before the object, such as a markdown code fence.
+  const start = text.indexOf('{');
+  if (start === -1) return fields;
+
+  let index = start + 1;
+  while (index < text.length) {
+    index = skipWhitespace(text, index);
+    if (text[index] !== '"') break;
+    const keyStart = index;
+    const keyEnd = findStringEnd(text, keyStart);
+    if (keyEnd === -1) break;
+
+    index = skipWhitespace(text, keyEnd + 1);
+    if (text[index] !== ':') break;
+    index = skipWhitespace(text, index + 1);
+
+    const valueEnd = findValueEnd(text, index);
+    if (valueEnd === -1) break;
+    try {
+      fields[JSON.parse(text.slice(keyStart, keyEnd + 1))] = JSON.parse(text.slice(index, valueEnd));
+    } catch {
+      break;
+    }
+
+    index = skipWhitespace(text, valueEnd);
+    if (text[index] !== ',') break;
+    index++;
+  }
+  return fields;
+};
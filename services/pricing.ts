@@ -0,0 +1,133 @@
+import { ProductContent, ProductVariation } from '../types';
+
+const PRICING_SETTINGS_STORAGE_KEY = 'pricing_settings';
+
+/**
+ * The store-wide tax and marketplace fees, in percent of the sale price except the
+ * fixed fee and the commission cap, which are amounts in the listing currency.
+ */
+export interface PricingSettings {
+  /** Tax regime rate charged on revenue, e.g. the Simples Nacional bracket. */
+  taxRate: number;
+  commissionRate: number;
+  transactionFeeRate: number;
+  /** Charged per item sold, on top of the percentage fees. */
+  fixedFee: number;
+  freeShippingProgram: boolean;
+  /** Extra commission charged while in the free-shipping program. */
+  freeShippingSurchargeRate: number;
+  /** Most the commission (with the surcharge) can be per item; 0 means no cap. */
+  commissionCap: number;
+  /** Margin the suggested prices aim for. */
+  targetMargin: number;
+}
+
+// Shopee Brasil fees for CNPJ sellers.
+export const DEFAULT_PRICING_SETTINGS: PricingSettings = {
+  taxRate: 6,
+  commissionRate: 14,
+  transactionFeeRate: 2,
+  fixedFee: 4,
+  freeShippingProgram: true,
+  freeShippingSurchargeRate: 6,
+  commissionCap: 100,
+  targetMargin: 20,
+};
+
+export const loadPricingSettings = (): PricingSettings => {
+  try {
+    const stored = localStorage.getItem(PRICING_SETTINGS_STORAGE_KEY);
+    return stored ? { ...DEFAULT_PRICING_SETTINGS, ...JSON.parse(stored) } : DEFAULT_PRICING_SETTINGS;
+  } catch (e) {
+    console.error("Failed to parse pricing settings from localStorage", e);
+    return DEFAULT_PRICING_SETTINGS;
+  }
+};
+
+export const savePricingSettings = (settings: PricingSettings) => {
+  localStorage.setItem(PRICING_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
+
+export interface PriceBreakdown {
+  price: number;
+  /** Unit cost plus packaging. */
+  cost: number;
+  /** Commission, transaction and fixed fees. */
+  fees: number;
+  tax: number;
+  profit: number;
+  /** Profit as a fraction of the price. */
+  margin: number;
+  /** Price divided by cost; null when the cost is unknown. */
+  markup: number | null;
+}
+
+const commissionRateOf = (settings: PricingSettings) =>
+  (settings.commissionRate + (settings.freeShippingProgram ? settings.freeShippingSurchargeRate : 0)) / 100;
+
+const commissionFor = (price: number, settings: PricingSettings) => {
+  const commission = price * commissionRateOf(settings);
+  return settings.commissionCap > 0 ? Math.min(commission, settings.commissionCap) : commission;
+};
+
+export const calculatePriceBreakdown = (price: number, cost: number, settings: PricingSettings): PriceBreakdown => {
+  const fees = commissionFor(price, settings) + price * settings.transactionFeeRate / 100 + settings.fixedFee;
+  const tax = price * settings.taxRate / 100;
+  const profit = price - cost - fees - tax;
+  return { price, cost, fees, tax, profit, margin: price > 0 ? profit / price : 0, markup: cost > 0 ? price / cost : null };
+};
+
+const roundUpToCents = (value: number) => Math.ceil(Math.round(value * 1000) / 10) / 100;
+
+/**
+ * The lowest price that leaves `margin` (a fraction) of it as profit, or null when the
+ * fees and taxes alone take that much.
+ */
+export const priceForMargin = (cost: number, settings: PricingSettings, margin: number): number | null => {
+  const otherRates = (settings.transactionFeeRate + settings.taxRate) / 100 + margin;
+  const commissionRate = commissionRateOf(settings);
+  const uncapped = 1 - otherRates - commissionRate;
+  if (uncapped > 0) {
+    const price = (cost + settings.fixedFee) / uncapped;
+    if (settings.commissionCap <= 0 || price * commissionRate <= settings.commissionCap) return roundUpToCents(price);
+  }
+  // Past the cap the commission is a fixed amount.
+  if (settings.commissionCap <= 0 || 1 - otherRates <= 0) return null;
+  return roundUpToCents((cost + settings.fixedFee + settings.commissionCap) / (1 - otherRates));
+};
+
+export const breakEvenPrice = (cost: number, settings: PricingSettings) => priceForMargin(cost, settings, 0);
+
+/** Unit cost plus packaging of the listing, or of a variation with a cost of its own. */
+export const getUnitCost = (content: ProductContent, variation?: ProductVariation): number =>
+  (variation?.unitCost ?? content.costs?.unitCost ?? 0) + (content.costs?.packagingCost ?? 0);
+
+/**
+ * The prices that reach the target margin. The promotional price, being what buyers pay,
+ * gets the target and the full price keeps its discount over it; variations are only
+ * repriced when they have a price or a cost of their own.
+ */
+export const suggestListingPrices = (content: ProductContent, settings: PricingSettings): Partial<ProductContent> | null => {
+  const margin = settings.targetMargin / 100;
+  const target = priceForMargin(getUnitCost(content), settings, margin);
+  if (target === null) return null;
+
+  const patch: Partial<ProductContent> = {};
+  if (content.promotionalPrice && content.price > content.promotionalPrice) {
+    patch.promotionalPrice = target;
+    patch.price = roundUpToCents(target * content.price / content.promotionalPrice);
+  } else {
+    patch.price = target;
+  }
+
+  let variationsChanged = false;
+  const variations = content.variations.map(variation => {
+    if (variation.price === undefined && variation.unitCost === undefined) return variation;
+    const price = priceForMargin(getUnitCost(content, variation), settings, margin);
+    if (price === null || price === variation.price) return variation;
+    variationsChanged = true;
+    return { ...variation, price };
+  });
+  if (variationsChanged) patch.variations = variations;
+  return patch;
+};
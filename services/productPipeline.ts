@@ -0,0 +1,108 @@
+import { generateProductContent, generateProductImages, generateProductMockups, generateImageFromText } from './geminiService';
+import { dataUrlToFile } from './imageUtils';
+import { throwIfAborted } from './abort';
+import { assignListingSkus } from './skuScheme';
+import { BrandProfile, ListingLocale, MarketplaceId, ProductContent, GeneratedProductImage } from '../types';
+
+export type PipelineStage = 'base_image' | 'content' | 'images';
+
+export interface PipelineInput {
+  image: File | null;
+  keywords: string;
+  /** Used to generate a base image when no image is provided. */
+  imagePrompt?: string;
+  brandProfile?: BrandProfile | null;
+  locale?: ListingLocale;
+  marketplace?: MarketplaceId;
+}
+
+export interface PipelineCallbacks {
+  onStage?: (stage: PipelineStage) => void;
+  /** Called once the image to process is known (uploaded or generated from the prompt). */
+  onSourceImage?: (image: File) => void;
+  /** Called with the content fields received so far while the content is still streaming. */
+  onPartialContent?: (partial: Partial<ProductContent>) => void;
+  onContent?: (content: ProductContent) => void;
+  onMainImage?: (image: GeneratedProductImage) => void;
+  /** Called with the mockups generated so far, each time a new one arrives. */
+  onMockups?: (mockups: string[]) => void;
+}
+
+// SKUs come from the admin scheme rather than from the AI. Without access to the
+// catalog the listing is kept without them; they can be generated later in the editor.
+const withSkus = (content: ProductContent): Promise<ProductContent> =>
+  assignListingSkus(content).catch(err => {
+    console.error("Failed to assign SKUs", err);
+    return content;
+  });
+
+export interface PipelineResult {
+  sourceImage: File | null;
+  content: ProductContent;
+  mainImage: GeneratedProductImage;
+  mockups: string[];
+}
+
+/**
+ * Runs the full generation flow for one product: optional base image from text,
+ * then content, the refined main image and the mockups, reporting each result as
+ * soon as it arrives. The steps run sequentially for stability.
+ *
+ * Aborting `signal` rejects with an abort error (see `isAbortError`); results already
+ * reported through the callbacks stay valid.
+ */
+export const runProductPipeline = async (input: PipelineInput, callbacks: PipelineCallbacks = {}, signal?: AbortSignal): Promise<PipelineResult> => {
+  let sourceImage: File | null = input.image;
+
+  if (!sourceImage && input.imagePrompt) {
+    callbacks.onStage?.('base_image');
+    const generatedDataUrl = await generateImageFromText(input.imagePrompt, signal);
+    sourceImage = await dataUrlToFile(generatedDataUrl, 'generated-image.png');
+  }
+
+  throwIfAborted(signal);
+  if (sourceImage) {
+    callbacks.onSourceImage?.(sourceImage);
+  }
+
+  callbacks.onStage?.('content');
+  const contentOptions = { signal, onPartialContent: callbacks.onPartialContent, brandProfile: input.brandProfile, locale: input.locale, marketplace: input.marketplace };
+
+  // --- TEXT-ONLY GENERATION ---
+  if (!sourceImage) {
+    const content = await withSkus(await generateProductContent(null, input.keywords, contentOptions));
+    throwIfAborted(signal);
+    callbacks.onContent?.(content);
+    return { sourceImage, content, mainImage: null, mockups: [] };
+  }
+
+  // --- IMAGE-BASED GENERATION ---
+
+  // 1. Generate content first.
+  const content = await withSkus(await generateProductContent(sourceImage, input.keywords, contentOptions));
+  throwIfAborted(signal);
+  callbacks.onContent?.(content);
+
+  // 2. Generate the main product image.
+  callbacks.onStage?.('images');
+  const mainImage = await generateProductImages(sourceImage, signal, {
+    category: content.category,
+    keywords: input.keywords,
+    description: content.description,
+  });
+  callbacks.onMainImage?.(mainImage);
+
+  // If the main image fails, we can't create mockups. We stop here.
+  if (!mainImage) {
+    return { sourceImage, content, mainImage, mockups: [] };
+  }
+
+  // 3. With the main image ready, generate mockups.
+  const mockups: string[] = [];
+  await generateProductMockups(mainImage, content, signal, (mockup) => {
+    mockups.push(mockup);
+    callbacks.onMockups?.([...mockups]);
+  }, input.keywords);
+
+  return { sourceImage, content, mainImage, mockups };
+};
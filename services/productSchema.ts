@@ -0,0 +1,109 @@
+import { JsonSchema } from './providers';
+
+/** How many versions of the title, description and slogan are offered, counting the main one. */
+export const COPY_VARIANT_COUNT = 3;
+
+/**
+ * The structure the AI must return for a listing. The field descriptions are the
+ * defaults of the 'schema.*' prompt templates, which can override them at call time.
+ * The length limits are placeholders filled from the target marketplace profile.
+ */
+export const productContentSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string', description: 'Nome do produto conciso e atrativo (máximo {{titleLimit}} caracteres).' },
+    description: { type: 'string', description: 'Descrição de marketing persuasiva e detalhada do produto, com pelo menos 3 parágrafos, otimizada para conversão.' },
+    category: { type: 'string', description: 'Categoria mais apropriada para o produto em um e-commerce.' },
+    brand: { type: 'string', description: 'Marca do produto, se for claramente identificável. Caso contrário, deixe em branco.' },
+    price: { type: 'number', minimum: 0, description: 'Preço de venda competitivo sugerido, em BRL, baseado em produtos similares. Use apenas números.' },
+    promotionalPrice: { type: 'number', minimum: 0, description: 'Calcule e sugira um preço promocional com um desconto atraente (ex: 10-20% menor que o preço principal), em BRL. Use apenas números.' },
+    keywords: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'Lista de 8 a 12 palavras-chave (tags) relevantes para SEO e busca no e-commerce.'
+    },
+    variations: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          color: { type: 'string', description: 'Cor da variação do produto.' },
+          size: { type: 'string', description: 'Tamanho da variação do produto (ex: P, M, G, 38, 40).' },
+          stock: { type: 'integer', minimum: 0, description: 'Estoque inicial sugerido para a variação (ex: 50, 100).' },
+          price: { type: 'number', minimum: 0, description: 'Preço específico para a variação, se diferente do principal. Use apenas números.' },
+        },
+      },
+      description: 'Lista de 1 a 3 possíveis variações do produto (cor, tamanho, etc.). Se não houver variações claras, retorne um array vazio.'
+    },
+    weight: { type: 'number', minimum: 0, description: 'Peso estimado do produto em quilogramas (kg) para cálculo de frete. Use apenas números.' },
+    dimensions: {
+      type: 'object',
+      properties: {
+        length: { type: 'number', minimum: 0, description: 'Comprimento da embalagem em centímetros, o maior lado. Use apenas números.' },
+        width: { type: 'number', minimum: 0, description: 'Largura da embalagem em centímetros. Use apenas números.' },
+        height: { type: 'number', minimum: 0, description: 'Altura da embalagem em centímetros. Use apenas números.' },
+      },
+      required: ['length', 'width', 'height'],
+      description: 'Dimensões estimadas da embalagem em que o produto é enviado.'
+    },
+    promotionalSlogan: { type: 'string', description: 'Um slogan promocional curto e cativante para o produto (máximo 10 palavras).' },
+    imageTextSuggestions: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'Gere uma lista com EXATAMENTE 10 sugestões de textos curtos e otimizados para usar em imagens de marketing. Os textos devem ser chamativos, de alto valor comercial e persuasivos. Ex: "Frete Grátis Hoje!", "50% OFF", "Edição Limitada".'
+    },
+    imageTextPlacementSuggestions: {
+        type: 'string',
+        description: `Com base na análise da imagem do produto, forneça um guia passo a passo detalhado e claro sobre como aplicar os textos sugeridos na imagem para máximo impacto. Organize as dicas em etapas numeradas (ex: '1. Posição: ...\\n2. Cores e Contraste: ...\\n3. Tipografia: ...'). Seja específico, sugerindo locais exatos (canto superior direito), cores (vermelho para promoções) e estilos de fonte (negrito, sem serifa) que combinem com a imagem fornecida.`
+    },
+    hashtags: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'Gere uma lista de 5 a 10 hashtags relevantes e populares para redes sociais como Instagram e TikTok, relacionadas ao produto. Ex: #ModaFeminina #Verao2024'
+    },
+    coupon: {
+      type: 'object',
+      properties: {
+        code: { type: 'string', description: 'Crie um código de cupom de desconto curto e memorável, com letras e números. Ex: PROMO15, MEGA10.' },
+        phrase: { type: 'string', description: 'Crie uma frase promocional curta para divulgar o cupom. Ex: "Use o cupom PROMO15 e ganhe 15% de desconto!"' }
+      },
+      description: 'Gere um cupom de desconto para o produto.'
+    },
+    metaTitle: { type: 'string', description: 'Título otimizado para SEO, ideal para a tag <title> do Google (máximo {{metaTitleLimit}} caracteres).' },
+    metaDescription: { type: 'string', description: 'Meta descrição persuasiva para o Google, resumindo o produto e incentivando o clique (máximo {{metaDescriptionLimit}} caracteres).' },
+    slug: { type: 'string', description: "URL amigável (slug) para o produto, usando palavras-chave, tudo em minúsculas e separado por hifens. Ex: 'tenis-corrida-masculino-preto'." },
+    imageAltText: { type: 'string', description: 'Texto alternativo (alt text) descritivo para a imagem principal do produto, focado em acessibilidade e SEO.' },
+    socialMediaPost: {
+      type: 'string',
+      description: 'Crie uma legenda de post para Instagram ou Facebook. O texto deve ser envolvente, usar emojis relevantes, descrever os benefícios do produto e terminar com uma chamada para ação clara (call-to-action). Inclua 3-5 das hashtags geradas no final.'
+    },
+    videoScript: {
+      type: 'object',
+      description: 'Crie um roteiro curto para um vídeo de 15-30 segundos para Reels ou TikTok. O roteiro deve ser dividido em 3 cenas rápidas e dinâmicas.',
+      properties: {
+        title: { type: 'string', description: 'Um título chamativo para o vídeo.' },
+        scenes: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              scene: { type: 'string', description: 'O número e nome da cena (ex: "Cena 1: Unboxing Rápido").' },
+              description: { type: 'string', description: 'Descrição visual e narração/texto para a cena.' }
+            }
+          },
+          description: 'Uma lista contendo exatamente 3 cenas para o vídeo.'
+        }
+      }
+    },
+    copyVariants: {
+      type: 'object',
+      description: `Versões alternativas dos principais textos, para o vendedor comparar e escolher. Cada lista deve conter EXATAMENTE ${COPY_VARIANT_COUNT - 1} alternativas, diferentes entre si e da versão principal.`,
+      properties: {
+        name: { type: 'array', items: { type: 'string' }, description: 'Nomes alternativos para o produto, com abordagens diferentes (máximo {{titleLimit}} caracteres cada).' },
+        description: { type: 'array', items: { type: 'string' }, description: 'Descrições alternativas completas, cada uma com um ângulo de venda diferente.' },
+        promotionalSlogan: { type: 'array', items: { type: 'string' }, description: 'Slogans promocionais alternativos (máximo 10 palavras cada).' }
+      }
+    }
+  },
+  required: ['name', 'description', 'category', 'price', 'keywords', 'variations', 'promotionalSlogan', 'imageTextSuggestions', 'imageTextPlacementSuggestions', 'hashtags', 'coupon', 'metaTitle', 'metaDescription', 'slug', 'imageAltText', 'socialMediaPost', 'videoScript', 'copyVariants']
+};
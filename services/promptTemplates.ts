@@ -0,0 +1,295 @@
+import { JsonSchema } from './providers';
+import { productContentSchema } from './productSchema';
+
+const PROMPT_TEMPLATES_STORAGE_KEY = 'prompt_templates';
+const MAX_VERSIONS_PER_TEMPLATE = 50;
+
+export type PromptPlaceholder =
+  | 'category' | 'keywords' | 'description' | 'modelInstruction' | 'instruction' | 'brandVoice' | 'language'
+  | 'marketplace' | 'marketplaceRules' | 'titleLimit' | 'metaTitleLimit' | 'metaDescriptionLimit' | 'problems' | 'violation' | 'color';
+
+export const PLACEHOLDER_DESCRIPTIONS: Record<PromptPlaceholder, string> = {
+  category: 'Categoria do produto',
+  keywords: 'Palavras-chave informadas pelo usuário',
+  description: 'Descrição do produto (resumida nos mockups)',
+  modelInstruction: 'Instrução de modelo humano, preenchida apenas para vestuário',
+  instruction: 'Instrução do usuário ao regenerar um campo, ex: "mais curto"',
+  brandVoice: 'Regras do perfil de marca escolhido (tom, público, termos e emojis)',
+  language: 'Idioma de destino do anúncio, ex: "espanhol latino-americano"',
+  marketplace: 'Nome do marketplace de destino, ex: "Shopee"',
+  marketplaceRules: 'Regras do marketplace de destino (limites, emojis, caracteres e variações)',
+  titleLimit: 'Limite de caracteres do nome do produto no marketplace de destino',
+  metaTitleLimit: 'Limite de caracteres do meta title',
+  metaDescriptionLimit: 'Limite de caracteres da meta description',
+  problems: 'Lista dos campos inválidos na resposta da IA e o problema de cada um',
+  violation: 'Regra de conformidade violada pelo trecho a reescrever',
+  color: 'Cor da variação para a qual a foto é recolorida',
+};
+
+/** Values for the placeholders; missing ones render as empty text. */
+export type PromptContext = Partial<Record<PromptPlaceholder, string>>;
+
+export interface PromptTemplateDefinition {
+  id: string;
+  group: string;
+  name: string;
+  defaultText: string;
+  /** The placeholders that have a value when this template is rendered. */
+  placeholders: PromptPlaceholder[];
+}
+
+export interface PromptTemplateVersion {
+  id: string;
+  text: string;
+  createdAt: number;
+}
+
+export interface StoredPromptTemplate {
+  versions: PromptTemplateVersion[];
+  /** The version in use; null means the built-in default text. */
+  activeVersionId: string | null;
+}
+
+const MOCKUP_PLACEHOLDERS: PromptPlaceholder[] = ['category', 'keywords', 'description', 'modelInstruction'];
+const MOCKUP_CONTEXT = 'O produto é da categoria "{{category}}" e descrito como: "{{description}}...".';
+const MOCKUP_FINAL_INSTRUCTION = 'Não adicione NENHUM texto, logo ou elemento gráfico. A imagem deve conter apenas o produto no cenário descrito.';
+
+const BASE_TEMPLATES: PromptTemplateDefinition[] = [
+  {
+    id: 'content.system',
+    group: 'Conteúdo',
+    name: 'Instrução de sistema',
+    placeholders: ['keywords'],
+    defaultText: 'Você é um especialista em marketing digital e e-commerce, fluente em Português do Brasil. Sua principal função é criar conteúdo de marketing de alta qualidade que seja persuasivo, otimizado para SEO e, acima de tudo, ortograficamente perfeito. Cada palavra deve ser revisada para garantir precisão gramatical e de acentuação, seguindo as normas da língua portuguesa. Aderir estritamente ao schema JSON fornecido é mandatório.',
+  },
+  {
+    id: 'content.prompt',
+    group: 'Conteúdo',
+    name: 'Prompt principal',
+    placeholders: ['keywords'],
+    defaultText: 'Analise a imagem e as palavras-chave. Sua tarefa é gerar um JSON estruturado para um produto. **PRIORIDADE MÁXIMA: TODO o texto gerado, sem exceção, deve estar em Português do Brasil, com gramática, ortografia e acentuação perfeitas.** Revise cada campo antes de finalizar. O conteúdo deve ser criativo e focado em vendas. Se as palavras-chave do usuário estiverem em outro idioma, traduza a intenção para o Português do Brasil e gere todo o conteúdo nesse idioma.',
+  },
+  {
+    id: 'content.keywords',
+    group: 'Conteúdo',
+    name: 'Trecho de palavras-chave (adicionado só quando há palavras-chave)',
+    placeholders: ['keywords'],
+    defaultText: 'Palavras-chave do usuário para guiar a criação: {{keywords}}',
+  },
+  {
+    id: 'content.brand',
+    group: 'Conteúdo',
+    name: 'Perfil de marca (adicionado à instrução de sistema quando há um perfil)',
+    placeholders: ['brandVoice'],
+    defaultText: 'Escreva todo o conteúdo, incluindo a descrição, o post para redes sociais e o roteiro de vídeo, com a voz da marca descrita abaixo. Estas regras prevalecem sobre qualquer outra orientação de estilo, inclusive sobre o uso de emojis.\n{{brandVoice}}',
+  },
+  {
+    id: 'content.locale',
+    group: 'Conteúdo',
+    name: 'Idioma de saída (adicionado quando o idioma não é português)',
+    placeholders: ['language'],
+    defaultText: 'IDIOMA DE SAÍDA: apesar das instruções anteriores sobre o Português do Brasil, escreva TODO o conteúdo em {{language}}, com gramática e ortografia perfeitas e com termos de busca usados pelos compradores desse mercado. Os preços continuam sendo sugeridos em BRL; a conversão de moeda é feita depois.',
+  },
+  {
+    id: 'content.marketplace',
+    group: 'Conteúdo',
+    name: 'Regras do marketplace (adicionado quando o destino não é genérico)',
+    placeholders: ['marketplace', 'marketplaceRules'],
+    defaultText: 'Este anúncio será publicado em {{marketplace}}. As regras abaixo são exigências da plataforma e prevalecem sobre qualquer outra orientação, inclusive do perfil de marca:\n{{marketplaceRules}}',
+  },
+  {
+    id: 'content.translate',
+    group: 'Conteúdo',
+    name: 'Tradução de anúncio',
+    placeholders: ['language'],
+    defaultText: 'Traduza para {{language}} cada texto do JSON abaixo, devolvendo cada tradução na mesma chave. Adapte expressões e termos de busca ao mercado local em vez de traduzir ao pé da letra. Preserve quebras de linha, emojis, números e nomes de marca. Nas hashtags, traduza as palavras e mantenha o formato de hashtag; nos slugs, use minúsculas e hifens.',
+  },
+  {
+    id: 'content.regenerate',
+    group: 'Conteúdo',
+    name: 'Regeneração de campo',
+    placeholders: ['keywords'],
+    defaultText: 'Você está revisando um anúncio de produto que já foi gerado. Reescreva somente os campos pedidos no schema, mantendo a coerência com o restante do anúncio. Todo o texto deve estar em Português do Brasil, com gramática, ortografia e acentuação perfeitas. Se não houver uma instrução específica, crie uma alternativa diferente e melhor que a versão atual.',
+  },
+  {
+    id: 'content.regenerateInstruction',
+    group: 'Conteúdo',
+    name: 'Trecho da instrução de regeneração (adicionado só quando há instrução)',
+    placeholders: ['instruction'],
+    defaultText: 'Instrução do usuário para esta revisão: {{instruction}}',
+  },
+  {
+    id: 'content.repair',
+    group: 'Conteúdo',
+    name: 'Correção de campos inválidos (enviado quando a resposta não segue o schema)',
+    placeholders: ['keywords', 'problems'],
+    defaultText: 'Alguns campos do anúncio gerado vieram em formato inválido. Gere novamente somente os campos pedidos no schema, corrigindo os problemas abaixo e mantendo a coerência com o restante do anúncio. Use apenas números nos campos numéricos, sem símbolos de moeda ou unidades.\n{{problems}}',
+  },
+  {
+    id: 'content.compliance',
+    group: 'Conteúdo',
+    name: 'Reescrita de trecho fora das regras de conformidade',
+    placeholders: ['violation'],
+    defaultText: 'No texto de anúncio abaixo, o trecho entre [[ e ]] viola esta regra: {{violation}} Reescreva somente esse trecho para que ele deixe de violar a regra, no mesmo idioma, mantendo o sentido comercial e encaixando naturalmente no restante da frase. Responda apenas com o novo trecho, sem os colchetes; se a melhor correção for remover o trecho, responda com texto vazio.',
+  },
+  {
+    id: 'images.refinement',
+    group: 'Imagens',
+    name: 'Refinamento da foto do produto',
+    placeholders: ['category', 'keywords', 'description'],
+    defaultText: `Sua tarefa é refinar a imagem de produto fornecida para um padrão de publicidade de altíssima qualidade, comparável a uma edição profissional em Photoshop.
+1.  **Fundo Perfeito:** Se o fundo atual não for profissional, remova-o completamente e substitua por um fundo branco puro (#FFFFFF) ou de gradiente cinza muito sutil. O produto deve parecer estar em um estúdio fotográfico.
+2.  **Qualidade Superior:** Aumente a nitidez, melhore o contraste e equilibre as cores para que o produto pareça vibrante e real. Aplique iluminação de estúdio profissional para eliminar sombras indesejadas e destacar os detalhes.
+3.  **Fidelidade ao Produto:** O produto em si deve ser 100% preservado, sem distorções ou alterações em sua forma ou cor.
+4.  **Resultado Final:** A imagem deve ser ultra-detalhada, em alta definição (qualidade 4K), limpa e pronta para um e-commerce de luxo. Não adicione nenhum texto.`,
+  },
+  {
+    id: 'images.variationColor',
+    group: 'Imagens',
+    name: 'Foto da variação de cor',
+    placeholders: ['category', 'color'],
+    defaultText: `Recolora o produto para a cor "{{color}}", como se a imagem fornecida fosse a foto oficial dessa variação (categoria do produto: {{category}}).
+1.  **Mesma Peça:** Mantenha exatamente a forma, as proporções, o ângulo, as costuras, texturas, logotipos e detalhes do produto. Só a cor principal do produto muda.
+2.  **Cor Fiel:** A nova cor deve ser realista e uniforme, com as sombras e reflexos coerentes com a iluminação original.
+3.  **Mesmo Cenário:** Preserve o fundo, o enquadramento e a iluminação da imagem original, para que todas as variações pareçam da mesma sessão de fotos.
+4.  **Resultado Final:** Imagem limpa, em alta definição, sem nenhum texto adicionado.`,
+  },
+  {
+    id: 'mockups.apparel',
+    group: 'Mockups',
+    name: 'Instrução de modelo humano (vestuário)',
+    placeholders: ['category', 'keywords', 'description'],
+    defaultText: 'Como este produto é uma peça de vestuário, a imagem DEVE mostrar o produto sendo usado por um modelo humano (homem, mulher ou criança, conforme apropriado para o produto) em uma pose natural e atraente. O rosto do modelo pode estar visível ou não, mas o foco principal deve ser em como a roupa veste no corpo, mostrando seu caimento e estilo.',
+  },
+  {
+    id: 'mockups.lifestyle',
+    group: 'Mockups',
+    name: 'Mockup 1: estilo de vida',
+    placeholders: MOCKUP_PLACEHOLDERS,
+    defaultText: `Crie um mockup de estilo de vida (lifestyle) fotorrealista e em alta definição. ${MOCKUP_CONTEXT} Coloque o produto em um ambiente realista e coerente. {{modelInstruction}} A iluminação deve ser natural, cinematográfica e atraente, com profundidade de campo. ${MOCKUP_FINAL_INSTRUCTION}`,
+  },
+  {
+    id: 'mockups.social',
+    group: 'Mockups',
+    name: 'Mockup 2: rede social',
+    placeholders: MOCKUP_PLACEHOLDERS,
+    defaultText: `Crie um mockup para uma postagem de rede social, com qualidade de estúdio. ${MOCKUP_CONTEXT} {{modelInstruction}} Se um modelo for usado, posicione-o em um fundo de cor única e vibrante que complemente as cores do produto. Adicione sombras suaves e realistas para um efeito 3D. O estilo deve ser moderno, limpo e em altíssima resolução. ${MOCKUP_FINAL_INSTRUCTION}`,
+  },
+  {
+    id: 'mockups.luxury',
+    group: 'Mockups',
+    name: 'Mockup 3: luxuoso',
+    placeholders: MOCKUP_PLACEHOLDERS,
+    defaultText: `Crie um mockup luxuoso e em alta definição. ${MOCKUP_CONTEXT} Crie um cenário sofisticado. {{modelInstruction}} Use iluminação lateral dramática para destacar texturas e criar uma atmosfera premium. ${MOCKUP_FINAL_INSTRUCTION}`,
+  },
+  {
+    id: 'mockups.minimal',
+    group: 'Mockups',
+    name: 'Mockup 4: minimalista',
+    placeholders: MOCKUP_PLACEHOLDERS,
+    defaultText: `Crie um mockup minimalista e conceitual, ultra-limpo. ${MOCKUP_CONTEXT} {{modelInstruction}} Apresente o modelo contra um fundo de gradiente sutil. O foco deve ser absoluto no produto, com renderização nítida e detalhada. ${MOCKUP_FINAL_INSTRUCTION}`,
+  },
+];
+
+export const MOCKUP_TEMPLATE_IDS = ['mockups.lifestyle', 'mockups.social', 'mockups.luxury', 'mockups.minimal'];
+
+const SCHEMA_PLACEHOLDERS: PromptPlaceholder[] = ['keywords', 'titleLimit', 'metaTitleLimit', 'metaDescriptionLimit'];
+
+// One template per described field of the listing schema, e.g. 'schema.coupon.code'.
+const collectSchemaTemplates = (schema: JsonSchema, path: string[] = []): PromptTemplateDefinition[] => {
+  const own: PromptTemplateDefinition[] = schema.description && path.length > 0
+    ? [{ id: `schema.${path.join('.')}`, group: 'Campos do schema', name: path.join('.'), defaultText: schema.description, placeholders: SCHEMA_PLACEHOLDERS }]
+    : [];
+  const children = schema.type === 'array' && schema.items
+    ? collectSchemaTemplates({ ...schema.items, description: undefined }, path)
+    : Object.entries(schema.properties ?? {}).flatMap(([key, child]) => collectSchemaTemplates(child, [...path, key]));
+  return [...own, ...children];
+};
+
+export const PROMPT_TEMPLATES: PromptTemplateDefinition[] = [...BASE_TEMPLATES, ...collectSchemaTemplates(productContentSchema)];
+
+const findDefinition = (id: string): PromptTemplateDefinition => {
+  const definition = PROMPT_TEMPLATES.find(template => template.id === id);
+  if (!definition) throw new Error(`Unknown prompt template: ${id}`);
+  return definition;
+};
+
+export const loadPromptTemplates = (): Record<string, StoredPromptTemplate> => {
+  try {
+    const stored = localStorage.getItem(PROMPT_TEMPLATES_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (e) {
+    console.error("Failed to parse prompt templates from localStorage", e);
+    return {};
+  }
+};
+
+const savePromptTemplates = (templates: Record<string, StoredPromptTemplate>) => {
+  localStorage.setItem(PROMPT_TEMPLATES_STORAGE_KEY, JSON.stringify(templates));
+};
+
+export const getStoredPromptTemplate = (id: string): StoredPromptTemplate =>
+  loadPromptTemplates()[id] ?? { versions: [], activeVersionId: null };
+
+/** The text currently in use for a template. */
+export const getActiveTemplateText = (id: string): string => {
+  const { versions, activeVersionId } = getStoredPromptTemplate(id);
+  const active = versions.find(version => version.id === activeVersionId);
+  return active ? active.text : findDefinition(id).defaultText;
+};
+
+/** Saves `text` as a new version of the template and makes it the active one. */
+export const savePromptTemplateVersion = (id: string, text: string): StoredPromptTemplate => {
+  const templates = loadPromptTemplates();
+  const current = templates[id] ?? { versions: [], activeVersionId: null };
+  const version: PromptTemplateVersion = { id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`, text, createdAt: Date.now() };
+  const updated: StoredPromptTemplate = {
+    versions: [...current.versions, version].slice(-MAX_VERSIONS_PER_TEMPLATE),
+    activeVersionId: version.id,
+  };
+  savePromptTemplates({ ...templates, [id]: updated });
+  return updated;
+};
+
+/** Rolls a template back (or forward) to a saved version; null restores the built-in default. */
+export const activatePromptTemplateVersion = (id: string, versionId: string | null): StoredPromptTemplate => {
+  const templates = loadPromptTemplates();
+  const current = templates[id] ?? { versions: [], activeVersionId: null };
+  const updated = { ...current, activeVersionId: versionId };
+  savePromptTemplates({ ...templates, [id]: updated });
+  return updated;
+};
+
+/** Placeholders in `text` that the template does not support, so typos are caught before saving. */
+export const findUnknownPlaceholders = (id: string, text: string): string[] => {
+  const supported = findDefinition(id).placeholders as string[];
+  const found = Array.from(text.matchAll(/\{\{\s*(\w+)\s*\}\}/g), match => match[1]);
+  return Array.from(new Set(found.filter(name => !supported.includes(name))));
+};
+
+export const fillPlaceholders = (text: string, context: PromptContext): string =>
+  text.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) =>
+    name in PLACEHOLDER_DESCRIPTIONS ? context[name as PromptPlaceholder] ?? '' : match
+  );
+
+/**
+ * Renders a template with its active text. `overrides` replaces the stored text of
+ * specific templates, which is how drafts are tested before being saved.
+ */
+export const renderPromptTemplate = (id: string, context: PromptContext, overrides: Record<string, string> = {}): string =>
+  fillPlaceholders(overrides[id] ?? getActiveTemplateText(id), context).trim();
+
+/** The listing schema with every field description replaced by its rendered template. */
+export const buildProductContentSchema = (context: PromptContext, overrides: Record<string, string> = {}): JsonSchema => {
+  const apply = (schema: JsonSchema, path: string[]): JsonSchema => ({
+    ...schema,
+    description: schema.description && path.length > 0
+      ? renderPromptTemplate(`schema.${path.join('.')}`, context, overrides)
+      : schema.description,
+    properties: schema.properties
+      ? Object.fromEntries(Object.entries(schema.properties).map(([key, child]) => [key, apply(child, [...path, key])]))
+      : undefined,
+    items: schema.items ? { ...apply({ ...schema.items, description: undefined }, path), description: schema.items.description } : undefined,
+  });
+  return apply(productContentSchema, []);
+};
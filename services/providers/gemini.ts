@@ -0,0 +1,113 @@
+import { GoogleGenAI, GenerateContentResponse, Modality, Schema, Type } from "@google/genai";
+import { AIProvider, InlineImage, JsonSchema } from './types';
+
+const DEFAULT_CONTENT_MODEL = 'gemini-2.5-pro';
+const DEFAULT_TEXT_TO_IMAGE_MODEL = 'gemini-2.5-flash';
+const DEFAULT_IMAGE_EDIT_MODEL = 'gemini-2.5-flash-image';
+
+const SCHEMA_TYPES: Record<JsonSchema['type'], Type> = {
+  object: Type.OBJECT,
+  array: Type.ARRAY,
+  string: Type.STRING,
+  number: Type.NUMBER,
+  integer: Type.INTEGER,
+  boolean: Type.BOOLEAN,
+};
+
+const toGeminiSchema = (schema: JsonSchema): Schema => ({
+  type: SCHEMA_TYPES[schema.type],
+  description: schema.description,
+  properties: schema.properties
+    ? Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)]))
+    : undefined,
+  items: schema.items ? toGeminiSchema(schema.items) : undefined,
+  required: schema.required,
+  minimum: schema.minimum,
+});
+
+const toPart = (image: InlineImage) => ({ inlineData: { data: image.data, mimeType: image.mimeType } });
+
+const assertNotBlocked = (result: GenerateContentResponse) => {
+  if (result.promptFeedback?.blockReason) {
+    throw new Error(`A solicitação foi bloqueada pela política de segurança: ${result.promptFeedback.blockReason}.`);
+  }
+};
+
+const extractImage = (result: GenerateContentResponse): string | null => {
+  const candidate = result.candidates?.[0];
+  if (candidate?.content?.parts) {
+    for (const part of candidate.content.parts) {
+      if (part.inlineData) {
+        return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
+      }
+    }
+  }
+  console.warn("API response did not contain an image.", result);
+  return null;
+};
+
+export const createGeminiProvider = (apiKey: string): AIProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  return {
+    id: 'gemini',
+
+    generateStructured: async ({ systemInstruction, prompt, images = [], schema, temperature, model, signal, onText }) => {
+      const params = {
+        model: model || DEFAULT_CONTENT_MODEL,
+        contents: [{ parts: [{ text: prompt }, ...images.map(toPart)] }],
+        config: {
+          systemInstruction,
+          temperature,
+          responseMimeType: "application/json",
+          responseSchema: toGeminiSchema(schema),
+          abortSignal: signal,
+        },
+      };
+
+      if (!onText) {
+        const result = await ai.models.generateContent(params);
+        assertNotBlocked(result);
+        return (result.text ?? '').trim();
+      }
+
+      let text = '';
+      for await (const chunk of await ai.models.generateContentStream(params)) {
+        assertNotBlocked(chunk);
+        if (chunk.text) {
+          text += chunk.text;
+          onText(text);
+        }
+      }
+      return text.trim();
+    },
+
+    generateImage: async ({ prompt, temperature, model, signal }) => {
+      const result = await ai.models.generateContent({
+        model: model || DEFAULT_TEXT_TO_IMAGE_MODEL,
+        contents: [{ parts: [{ text: prompt }] }],
+        config: {
+          responseModalities: [Modality.IMAGE],
+          temperature,
+          abortSignal: signal,
+        },
+      });
+      assertNotBlocked(result);
+      return extractImage(result);
+    },
+
+    editImage: async ({ image, prompt, temperature, model, signal }) => {
+      const result = await ai.models.generateContent({
+        model: model || DEFAULT_IMAGE_EDIT_MODEL,
+        contents: { parts: [toPart(image), { text: prompt }] },
+        config: {
+          responseModalities: [Modality.IMAGE],
+          temperature,
+          abortSignal: signal,
+        },
+      });
+      assertNotBlocked(result);
+      return extractImage(result);
+    },
+  };
+};
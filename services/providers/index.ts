@@ -0,0 +1,37 @@
+import { SupportedAIService } from '../../types';
+import { AIProvider } from './types';
+import { createGeminiProvider } from './gemini';
+import { createOpenAICompatibleProvider } from './openaiCompatible';
+import { createMockProvider } from './mock';
+import { findApiKey, getApiKeyForService, isMockModeEnabled, loadProviderSettings } from './settings';
+
+export * from './types';
+export * from './settings';
+export { resetMockProvider } from './mock';
+
+export const PROVIDER_NAMES: Record<SupportedAIService, string> = {
+  gemini: 'Google Gemini',
+  openai: 'Compatível com OpenAI',
+};
+
+// Providers are built per call so admin changes apply without reloading the page.
+// Missing credentials throw here, before any request is attempted.
+const createProvider = (service: SupportedAIService): AIProvider => {
+  if (isMockModeEnabled()) {
+    return createMockProvider(loadProviderSettings().mock);
+  }
+  if (service === 'openai') {
+    const { openai } = loadProviderSettings();
+    if (!openai.baseUrl.trim()) {
+      throw new Error("URL base do provedor compatível com OpenAI não configurada. O administrador precisa configurá-la no painel de admin.");
+    }
+    return createOpenAICompatibleProvider(openai, findApiKey('openai'));
+  }
+  return createGeminiProvider(getApiKeyForService('gemini'));
+};
+
+/** The provider configured for text and structured content. */
+export const getContentProvider = (): AIProvider => createProvider(loadProviderSettings().contentProvider);
+
+/** The provider configured for image generation and editing. */
+export const getImageProvider = (): AIProvider => createProvider(loadProviderSettings().imageProvider);
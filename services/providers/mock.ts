@@ -0,0 +1,151 @@
+import { MockProviderSettings } from '../../types';
+import { sleep } from '../abort';
+import { AIProvider, JsonSchema } from './types';
+import { MOCK_PRODUCTS, MOCK_SENTENCES } from './mockFixtures';
+
+const SEED = 20240601;
+const IMAGE_SIZE = 1024;
+const STREAM_CHUNKS = 40;
+
+// mulberry32: a tiny seeded PRNG, so a demo session always plays out the same way.
+const createRandom = (seed: number) => {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+let random = createRandom(SEED);
+
+/** Restarts the demo sequence from the beginning. */
+export const resetMockProvider = () => {
+  random = createRandom(SEED);
+};
+
+const pick = <T>(items: T[]): T => items[Math.floor(random() * items.length)];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Builds a value matching `schema`, taking values from the fixture where it has them
+ * and inventing plausible ones elsewhere. Keys outside the schema are dropped.
+ */
+const buildFromSchema = (schema: JsonSchema, fixture: unknown): unknown => {
+  switch (schema.type) {
+    case 'object': {
+      const source = isRecord(fixture) ? fixture : {};
+      return Object.fromEntries(
+        Object.entries(schema.properties ?? {}).map(([key, propertySchema]) => [key, buildFromSchema(propertySchema, source[key])])
+      );
+    }
+    case 'array': {
+      const itemSchema = schema.items ?? { type: 'string' };
+      const items = Array.isArray(fixture) ? fixture : [undefined, undefined, undefined];
+      return items.map(item => buildFromSchema(itemSchema, item));
+    }
+    case 'string':
+      return typeof fixture === 'string' ? fixture : pick(MOCK_SENTENCES);
+    case 'number':
+      return typeof fixture === 'number' ? fixture : Math.round(random() * 20000) / 100;
+    case 'integer':
+      return typeof fixture === 'number' ? Math.round(fixture) : Math.floor(random() * 100);
+    case 'boolean':
+      return typeof fixture === 'boolean' ? fixture : random() < 0.5;
+  }
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = reject;
+    img.src = src;
+  });
+
+const drawPlaceholder = (label: string, source?: HTMLImageElement): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = IMAGE_SIZE;
+  canvas.height = IMAGE_SIZE;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not get canvas context');
+
+  const hue = Math.floor(random() * 360);
+  const gradient = ctx.createLinearGradient(0, 0, IMAGE_SIZE, IMAGE_SIZE);
+  gradient.addColorStop(0, `hsl(${hue}, 45%, 88%)`);
+  gradient.addColorStop(1, `hsl(${(hue + 40) % 360}, 45%, 70%)`);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, IMAGE_SIZE, IMAGE_SIZE);
+
+  if (source) {
+    // Fit the product inside the frame, leaving room for the caption.
+    const maxSize = IMAGE_SIZE * 0.7;
+    const scale = Math.min(maxSize / source.width, maxSize / source.height);
+    const width = source.width * scale;
+    const height = source.height * scale;
+    ctx.drawImage(source, (IMAGE_SIZE - width) / 2, (IMAGE_SIZE - height) / 2 - 40, width, height);
+  }
+
+  ctx.fillStyle = 'rgba(17, 24, 39, 0.75)';
+  ctx.fillRect(0, IMAGE_SIZE - 140, IMAGE_SIZE, 140);
+  ctx.fillStyle = '#ffffff';
+  ctx.textAlign = 'center';
+  ctx.font = 'bold 40px sans-serif';
+  ctx.fillText('DEMONSTRAÇÃO', IMAGE_SIZE / 2, IMAGE_SIZE - 80);
+  ctx.font = '28px sans-serif';
+  ctx.fillText(label, IMAGE_SIZE / 2, IMAGE_SIZE - 35, IMAGE_SIZE - 80);
+
+  return canvas.toDataURL('image/png');
+};
+
+// A short caption taken from the start of the prompt.
+const captionFor = (prompt: string) => prompt.split(/[.:\n]/)[0].trim().substring(0, 60);
+
+/**
+ * An offline provider for demos and development. It never touches the network:
+ * content comes from fixtures and images are drawn on a canvas. Latency and a
+ * failure rate can be configured to exercise loading and error states.
+ */
+export const createMockProvider = (settings: MockProviderSettings): AIProvider => {
+  // A streamed call spends its latency on the chunks instead, so it waits nothing up front.
+  const simulateCall = async (signal?: AbortSignal, isStreamed = false) => {
+    await sleep(isStreamed ? 0 : settings.latencyMs, signal);
+    if (random() < settings.failureRate) {
+      throw new Error('Falha simulada pelo provedor de demonstração.');
+    }
+  };
+
+  return {
+    id: 'mock',
+
+    generateStructured: async ({ prompt, schema, signal, onText }) => {
+      await simulateCall(signal, Boolean(onText));
+      const lowerPrompt = prompt.toLowerCase();
+      const fixture = MOCK_PRODUCTS.find(product => product.match.some(word => lowerPrompt.includes(word))) ?? pick(MOCK_PRODUCTS);
+      const text = JSON.stringify(buildFromSchema(schema, fixture.content));
+      if (onText) {
+        // Plays the response back in chunks over roughly the configured latency.
+        const chunkSize = Math.ceil(text.length / STREAM_CHUNKS);
+        for (let end = chunkSize; end < text.length + chunkSize; end += chunkSize) {
+          await sleep(settings.latencyMs / STREAM_CHUNKS, signal);
+          onText(text.slice(0, end));
+        }
+      }
+      return text;
+    },
+
+    generateImage: async ({ prompt, signal }) => {
+      await simulateCall(signal);
+      return drawPlaceholder(captionFor(prompt));
+    },
+
+    editImage: async ({ image, prompt, signal }) => {
+      await simulateCall(signal);
+      const source = await loadImage(`data:${image.mimeType};base64,${image.data}`);
+      return drawPlaceholder(captionFor(prompt), source);
+    },
+  };
+};
@@ -0,0 +1,150 @@
+import { ProductContent } from '../../types';
+
+/**
+ * Sample listings returned by the demo provider. Each one fills every field of
+ * `productContentSchema` with realistic values so the whole UI can be exercised offline.
+ */
+export const MOCK_PRODUCTS: { match: string[]; content: ProductContent }[] = [
+  {
+    match: ['tênis', 'tenis', 'corrida', 'calçado', 'sapato'],
+    content: {
+      name: 'Tênis de Corrida Masculino Ultraleve Amortecido',
+      description: 'Corra mais longe com o conforto que seus pés merecem. O Tênis de Corrida Ultraleve combina um cabedal em mesh respirável com uma entressola de espuma de alta resposta, que devolve energia a cada passada.\n\nO solado de borracha com ranhuras de tração garante aderência no asfalto molhado e na esteira, enquanto o contraforte reforçado dá estabilidade ao calcanhar nos treinos longos.\n\nCom apenas 240 g, é ideal para quem treina todos os dias ou está se preparando para a primeira maratona. Calce, amarre e sinta a diferença já no primeiro quilômetro.',
+      category: 'Calçados > Tênis Esportivos',
+      brand: 'Velora',
+      price: 299.9,
+      promotionalPrice: 249.9,
+      keywords: ['tênis de corrida', 'tênis masculino', 'tênis ultraleve', 'tênis amortecido', 'tênis para maratona', 'calçado esportivo', 'tênis respirável', 'tênis para academia', 'tênis leve', 'corrida de rua'],
+      variations: [
+        { color: 'Preto', size: '40', stock: 50, price: 299.9 },
+        { color: 'Preto', size: '42', stock: 60, price: 299.9 },
+        { color: 'Azul Marinho', size: '41', stock: 40, price: 299.9 },
+      ],
+      weight: 0.8,
+      dimensions: { length: 33, width: 22, height: 12 },
+      promotionalSlogan: 'Leveza que acompanha cada quilômetro.',
+      imageTextSuggestions: ['Frete Grátis Hoje!', 'Só 240 g', 'Amortecimento Máximo', '17% OFF', 'Pronta Entrega', 'Mais Vendido', 'Troca Grátis', 'Ideal para Maratonas', 'Respirável', 'Últimas Unidades'],
+      imageTextPlacementSuggestions: '1. Posição: coloque o selo de desconto no canto superior direito, longe do bico do tênis.\n2. Cores e Contraste: use vermelho sobre branco para promoções e branco sobre preto para atributos técnicos.\n3. Tipografia: fonte sem serifa em negrito, com no máximo duas linhas por texto.',
+      hashtags: ['#CorridaDeRua', '#TenisDeCorrida', '#Maratona', '#Running', '#VidaSaudavel', '#TreinoDiario'],
+      coupon: { code: 'CORRE15', phrase: 'Use o cupom CORRE15 e ganhe 15% de desconto no seu novo tênis!' },
+      metaTitle: 'Tênis de Corrida Masculino Ultraleve | Velora',
+      metaDescription: 'Tênis de corrida ultraleve com amortecimento de alta resposta e cabedal respirável. Ideal para treinos e maratonas. Frete grátis e troca fácil.',
+      slug: 'tenis-corrida-masculino-ultraleve-amortecido',
+      imageAltText: 'Tênis de corrida masculino preto com solado branco, visto de lado sobre fundo branco',
+      socialMediaPost: 'Seu próximo recorde começa pelos pés! 🏃‍♂️💨 O Tênis Ultraleve Velora tem só 240 g e amortecimento que devolve energia a cada passada. Treino longo? Ele aguenta. 🔥\n\nGaranta o seu com 15% OFF usando o cupom CORRE15! 👟\n\n#CorridaDeRua #TenisDeCorrida #Maratona #Running',
+      videoScript: {
+        title: 'Do Sofá à Maratona em 15 Segundos',
+        scenes: [
+          { scene: 'Cena 1: O Despertar', description: 'Close no tênis sendo amarrado ao amanhecer. Texto na tela: "Só 240 g".' },
+          { scene: 'Cena 2: Em Movimento', description: 'Câmera lenta da passada no asfalto, destacando o amortecimento. Narração: "Energia de volta a cada passo."' },
+          { scene: 'Cena 3: Chamada para Ação', description: 'Tênis girando sobre fundo branco com o cupom CORRE15 na tela. Narração: "Corra para garantir o seu!"' },
+        ],
+      },
+      copyVariants: {
+        name: ['Tênis Running Masculino Leve com Amortecimento Responsivo', 'Tênis Esportivo Masculino 240 g para Corrida e Treino'],
+        description: [
+          'Feito para quem não para: o cabedal em mesh mantém os pés ventilados e a entressola responsiva transforma cada passada em impulso. O solado aderente dá segurança no asfalto e na esteira, e com apenas 240 g você quase esquece que está calçado.',
+          'Treinos longos pedem conforto e estabilidade. Este tênis une amortecimento de alta resposta, contraforte reforçado e tração em piso molhado. Leve, respirável e pronto para a sua próxima meta, dos primeiros 5 km à maratona.',
+        ],
+        promotionalSlogan: ['Mais leve a cada passada.', 'Seu próximo recorde começa aqui.'],
+      },
+    },
+  },
+  {
+    match: ['camiseta', 'camisa', 'roupa', 'algodão', 'moda', 'blusa'],
+    content: {
+      name: 'Camiseta Feminina Básica 100% Algodão Premium',
+      description: 'A peça coringa que não pode faltar no seu guarda-roupa. Nossa Camiseta Básica é confeccionada em algodão penteado fio 30.1, macio ao toque e resistente às lavagens do dia a dia.\n\nO corte levemente acinturado valoriza a silhueta sem apertar, e a gola redonda com acabamento em ribana mantém o formato mesmo depois de muitos usos.\n\nCombine com jeans, saia ou alfaiataria: ela vai do trabalho ao happy hour com a mesma elegância. Disponível em cores neutras que combinam com tudo.',
+      category: 'Moda Feminina > Camisetas',
+      brand: '',
+      price: 59.9,
+      promotionalPrice: 49.9,
+      keywords: ['camiseta feminina', 'camiseta básica', 'camiseta algodão', 'blusa feminina', 'camiseta lisa', 'moda feminina', 'camiseta premium', 'básico essencial', 'camiseta gola redonda'],
+      variations: [
+        { color: 'Branco', size: 'P', stock: 80 },
+        { color: 'Branco', size: 'M', stock: 100 },
+        { color: 'Preto', size: 'G', stock: 70 },
+      ],
+      weight: 0.2,
+      dimensions: { length: 30, width: 25, height: 3 },
+      promotionalSlogan: 'O básico que nunca sai de moda.',
+      imageTextSuggestions: ['100% Algodão', 'Leve 3, Pague 2', 'Frete Grátis', 'Novidade', '16% OFF', 'Toque Macio', 'Não Desbota', 'Coleção Essencial', 'Compre Já', 'Estoque Limitado'],
+      imageTextPlacementSuggestions: '1. Posição: aplique os textos na lateral esquerda, aproveitando o espaço livre ao lado da modelo.\n2. Cores e Contraste: tons terrosos ou preto sobre fundo claro mantêm a estética minimalista.\n3. Tipografia: fonte serifada elegante para o título e sem serifa para o preço.',
+      hashtags: ['#ModaFeminina', '#CamisetaBasica', '#LookDoDia', '#Basicos', '#EstiloMinimalista'],
+      coupon: { code: 'BASICO10', phrase: 'Use o cupom BASICO10 e ganhe 10% de desconto na sua camiseta!' },
+      metaTitle: 'Camiseta Feminina Básica 100% Algodão Premium',
+      metaDescription: 'Camiseta feminina básica em algodão penteado, macia e resistente. Corte acinturado e gola em ribana. Compre com frete grátis.',
+      slug: 'camiseta-feminina-basica-algodao-premium',
+      imageAltText: 'Modelo vestindo camiseta feminina básica branca de algodão com calça jeans',
+      socialMediaPost: 'Sabe aquela peça que salva qualquer look? 🤍 A Camiseta Básica Premium é 100% algodão, macia e com caimento perfeito. ✨\n\nUse BASICO10 e ganhe 10% OFF! 🛍️\n\n#ModaFeminina #CamisetaBasica #LookDoDia',
+      videoScript: {
+        title: '3 Looks, 1 Camiseta',
+        scenes: [
+          { scene: 'Cena 1: A Peça', description: 'A camiseta dobrada sendo aberta sobre a cama. Texto: "1 camiseta".' },
+          { scene: 'Cena 2: Transformação', description: 'Cortes rápidos da modelo com jeans, saia e blazer. Texto: "3 looks".' },
+          { scene: 'Cena 3: Chamada para Ação', description: 'Modelo sorrindo para a câmera com o cupom BASICO10 na tela.' },
+        ],
+      },
+      copyVariants: {
+        name: ['Camiseta Básica Feminina de Algodão Macio', 'Blusa Feminina Básica Algodão Penteado Confortável'],
+        description: [
+          'Macia desde o primeiro uso, esta camiseta em algodão penteado é a base de qualquer look. O caimento é leve, a costura é reforçada e a malha não perde a forma depois das lavagens.',
+          'Conforto para o dia inteiro: algodão premium que respira, modelagem que valoriza sem apertar e acabamento caprichado. Combina com jeans, saia ou alfaiataria.',
+        ],
+        promotionalSlogan: ['Conforto que combina com tudo.', 'Sua peça coringa favorita.'],
+      },
+    },
+  },
+  {
+    match: ['garrafa', 'térmica', 'termica', 'copo', 'inox'],
+    content: {
+      name: 'Garrafa Térmica Inox 1L Parede Dupla 24h Gelado',
+      description: 'Água gelada o dia inteiro, onde você estiver. A Garrafa Térmica Inox tem parede dupla a vácuo que mantém bebidas geladas por até 24 horas e quentes por até 12 horas.\n\nFeita em aço inoxidável 304, não retém cheiro nem gosto, e a pintura eletrostática não descasca nem sua por fora. A tampa com vedação de silicone evita vazamentos na mochila.\n\nCom capacidade de 1 litro, é perfeita para academia, trabalho e trilhas. Uma escolha sustentável que substitui centenas de garrafas descartáveis.',
+      category: 'Casa e Cozinha > Garrafas Térmicas',
+      brand: 'Termix',
+      price: 129.9,
+      promotionalPrice: 109.9,
+      keywords: ['garrafa térmica', 'garrafa inox', 'garrafa 1 litro', 'garrafa academia', 'squeeze térmico', 'garrafa parede dupla', 'garrafa sustentável', 'garrafa gelada 24h'],
+      variations: [
+        { color: 'Verde Musgo', size: '1L', stock: 40 },
+        { color: 'Preto Fosco', size: '1L', stock: 60 },
+      ],
+      weight: 0.45,
+      dimensions: { length: 30, width: 10, height: 10 },
+      promotionalSlogan: 'Gelada de manhã, gelada à noite.',
+      imageTextSuggestions: ['24h Gelada', '12h Quente', 'Aço Inox 304', 'Não Vaza', '15% OFF', 'Frete Grátis', 'Sustentável', 'Mais Vendida', 'Presente Perfeito', 'Oferta Relâmpago'],
+      imageTextPlacementSuggestions: '1. Posição: posicione os selos de temperatura no topo, acima da tampa da garrafa.\n2. Cores e Contraste: azul para "gelada" e laranja para "quente", sempre sobre fundo neutro.\n3. Tipografia: números grandes em negrito para destacar 24h e 12h.',
+      hashtags: ['#GarrafaTermica', '#Hidratacao', '#Sustentabilidade', '#Academia', '#VidaAtiva', '#Inox'],
+      coupon: { code: 'GELADA15', phrase: 'Use o cupom GELADA15 e ganhe 15% de desconto na sua garrafa!' },
+      metaTitle: 'Garrafa Térmica Inox 1L Parede Dupla | Termix',
+      metaDescription: 'Garrafa térmica em aço inox 304 com parede dupla: 24h gelada e 12h quente. Não vaza, não sua. Ideal para academia e trabalho.',
+      slug: 'garrafa-termica-inox-1l-parede-dupla',
+      imageAltText: 'Garrafa térmica de inox verde musgo de 1 litro com tampa preta sobre fundo branco',
+      socialMediaPost: 'Água gelada às 17h? Com a Termix, sim! 🧊💧 Parede dupla a vácuo, aço inox 304 e zero vazamento na mochila. 🎒\n\nCupom GELADA15 = 15% OFF! 🔥\n\n#GarrafaTermica #Hidratacao #Academia',
+      videoScript: {
+        title: 'O Teste das 24 Horas',
+        scenes: [
+          { scene: 'Cena 1: 8h da Manhã', description: 'Gelo sendo colocado na garrafa. Relógio na tela marcando 08:00.' },
+          { scene: 'Cena 2: O Dia Passa', description: 'Timelapse da garrafa na mesa do escritório, na academia e no carro.' },
+          { scene: 'Cena 3: 8h do Dia Seguinte', description: 'Água sendo servida com gelo ainda inteiro. Texto: "Ainda gelada. Cupom GELADA15".' },
+        ],
+      },
+      copyVariants: {
+        name: ['Garrafa Térmica Inox 1 Litro Mantém Gelado 24h', 'Garrafa de Aço Inox Parede Dupla 1L Quente e Frio'],
+        description: [
+          'Água gelada o dia todo, onde você estiver. A parede dupla a vácuo mantém bebidas frias por 24 horas e quentes por 12, sem suar por fora. A tampa rosqueável não vaza na mochila.',
+          'Diga adeus aos copos descartáveis: feita em aço inox resistente, esta garrafa de 1 litro acompanha academia, trabalho e viagens. Leve, sem gosto metálico e fácil de lavar.',
+        ],
+        promotionalSlogan: ['Temperatura certa o dia inteiro.', 'Hidratação que acompanha você.'],
+      },
+    },
+  },
+];
+
+/** Generic sentences used to fill string fields of schemas without a fixture. */
+export const MOCK_SENTENCES = [
+  'Produto de alta qualidade, pensado para o dia a dia.',
+  'Design moderno e acabamento impecável.',
+  'Ótimo custo-benefício com entrega rápida.',
+  'Aprovado por milhares de clientes satisfeitos.',
+];
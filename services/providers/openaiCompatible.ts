@@ -0,0 +1,160 @@
+import { OpenAICompatibleSettings } from '../../types';
+import { AIProvider, InlineImage } from './types';
+
+interface ChatChoice {
+  message?: { content?: string; refusal?: string };
+  finish_reason?: string;
+}
+
+interface ChatStreamChoice {
+  delta?: { content?: string; refusal?: string };
+  finish_reason?: string | null;
+}
+
+interface OpenAIImageResponse {
+  data?: { b64_json?: string; url?: string }[];
+}
+
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
+
+const inlineImageToBlob = (image: InlineImage): Blob => {
+  const bytes = Uint8Array.from(atob(image.data), char => char.charCodeAt(0));
+  return new Blob([bytes], { type: image.mimeType });
+};
+
+// Local models often wrap the JSON in a markdown code fence even when asked not to.
+const stripCodeFence = (text: string) => text.replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '').trim();
+
+/**
+ * Talks to any server implementing the OpenAI chat completions and images endpoints,
+ * such as OpenAI itself, vLLM, LocalAI or Ollama. The API key is optional because
+ * local servers usually run without one.
+ */
+export const createOpenAICompatibleProvider = (settings: OpenAICompatibleSettings, apiKey?: string): AIProvider => {
+  const baseUrl = settings.baseUrl.replace(/\/+$/, '');
+  const authHeaders: Record<string, string> = apiKey ? { Authorization: `Bearer ${apiKey}` } : {};
+
+  const post = async (path: string, body: BodyInit, headers: Record<string, string>, signal?: AbortSignal): Promise<Response> => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: { ...authHeaders, ...headers },
+      body,
+      signal,
+    });
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(`O provedor compatível com OpenAI respondeu com erro ${response.status}: ${detail.substring(0, 300)}`);
+    }
+    return response;
+  };
+
+  const request = async <T>(path: string, body: BodyInit, headers: Record<string, string>, signal?: AbortSignal): Promise<T> =>
+    (await post(path, body, headers, signal)).json() as Promise<T>;
+
+  // Reads a server-sent events response from /chat/completions, reporting the text as it grows.
+  const readChatStream = async (response: Response, onText: (textSoFar: string) => void): Promise<ChatChoice> => {
+    if (!response.body) throw new Error('O provedor compatível com OpenAI não retornou um fluxo de resposta.');
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let content = '';
+    let refusal = '';
+    let finishReason: string | undefined;
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        const data = line.trim();
+        if (!data.startsWith('data:')) continue;
+        const payload = data.slice(5).trim();
+        if (payload === '[DONE]') continue;
+        const choice = (JSON.parse(payload) as { choices?: ChatStreamChoice[] }).choices?.[0];
+        if (!choice) continue;
+        if (choice.delta?.refusal) refusal += choice.delta.refusal;
+        if (choice.finish_reason) finishReason = choice.finish_reason;
+        if (choice.delta?.content) {
+          content += choice.delta.content;
+          onText(content);
+        }
+      }
+    }
+    return { message: { content, refusal: refusal || undefined }, finish_reason: finishReason };
+  };
+
+  const readImage = async (result: OpenAIImageResponse, signal?: AbortSignal): Promise<string | null> => {
+    const image = result.data?.[0];
+    if (image?.b64_json) return `data:image/png;base64,${image.b64_json}`;
+    if (image?.url) {
+      // Hosted URLs expire quickly and are not CORS-safe for the canvas editor, so inline them.
+      const response = await fetch(image.url, { signal });
+      return blobToDataUrl(await response.blob());
+    }
+    console.warn("API response did not contain an image.", result);
+    return null;
+  };
+
+  return {
+    id: 'openai',
+
+    generateStructured: async ({ systemInstruction, prompt, images = [], schema, temperature, model, signal, onText }) => {
+      const userContent = images.length === 0
+        ? prompt
+        : [
+            { type: 'text', text: prompt },
+            ...images.map(image => ({ type: 'image_url', image_url: { url: `data:${image.mimeType};base64,${image.data}` } })),
+          ];
+      const messages = [
+        ...(systemInstruction ? [{ role: 'system', content: systemInstruction }] : []),
+        { role: 'user', content: userContent },
+      ];
+
+      const body = JSON.stringify({
+        model: model || settings.chatModel,
+        messages,
+        temperature,
+        response_format: { type: 'json_schema', json_schema: { name: 'response', schema } },
+        ...(onText ? { stream: true } : {}),
+      });
+      const headers = { 'Content-Type': 'application/json' };
+
+      const choice = onText
+        ? await readChatStream(await post('/chat/completions', body, headers, signal), onText)
+        : (await request<{ choices?: ChatChoice[] }>('/chat/completions', body, headers, signal)).choices?.[0];
+      if (choice?.finish_reason === 'content_filter' || choice?.message?.refusal) {
+        throw new Error(`A solicitação foi bloqueada pela política de segurança: ${choice.message?.refusal || 'content_filter'}.`);
+      }
+      return stripCodeFence(choice?.message?.content ?? '');
+    },
+
+    generateImage: async ({ prompt, model, signal }) => {
+      const result = await request<OpenAIImageResponse>(
+        '/images/generations',
+        JSON.stringify({ model: model || settings.imageModel, prompt, n: 1 }),
+        { 'Content-Type': 'application/json' },
+        signal
+      );
+      return readImage(result, signal);
+    },
+
+    editImage: async ({ image, prompt, model, signal }) => {
+      const form = new FormData();
+      form.append('model', model || settings.imageModel);
+      form.append('prompt', prompt);
+      form.append('n', '1');
+      form.append('image', inlineImageToBlob(image), `image.${image.mimeType.split('/')[1] || 'png'}`);
+      // The browser sets the multipart boundary header itself.
+      const result = await request<OpenAIImageResponse>('/images/edits', form, {}, signal);
+      return readImage(result, signal);
+    },
+  };
+};
@@ -0,0 +1,79 @@
+import { AIProviderSettings, ApiKeySet, SupportedAIService } from '../../types';
+
+const API_KEYS_STORAGE_KEY = 'ai_api_keys';
+const PROVIDER_SETTINGS_STORAGE_KEY = 'ai_provider_settings';
+
+export const DEFAULT_PROVIDER_SETTINGS: AIProviderSettings = {
+  contentProvider: 'gemini',
+  imageProvider: 'gemini',
+  openai: {
+    baseUrl: 'https://api.openai.com/v1',
+    chatModel: 'gpt-4o',
+    imageModel: 'gpt-image-1',
+  },
+  mock: {
+    enabled: false,
+    latencyMs: 1500,
+    failureRate: 0,
+  },
+};
+
+/** MOCK_AI=true in the environment forces the demo provider regardless of the admin setting. */
+export const isMockForcedByEnv = (): boolean => process.env.MOCK_AI === 'true';
+
+export const isMockModeEnabled = (): boolean => isMockForcedByEnv() || loadProviderSettings().mock.enabled;
+
+export const loadApiKeys = (): ApiKeySet => {
+  try {
+    const keysString = localStorage.getItem(API_KEYS_STORAGE_KEY);
+    return keysString ? JSON.parse(keysString) : {};
+  } catch (e) {
+    console.error("Failed to parse API keys from localStorage", e);
+    return {};
+  }
+};
+
+export const saveApiKeys = (keys: ApiKeySet) => {
+  localStorage.setItem(API_KEYS_STORAGE_KEY, JSON.stringify(keys));
+};
+
+/** Returns the stored key for a service, or undefined when none is configured. */
+export const findApiKey = (service: SupportedAIService): string | undefined => {
+  const key = loadApiKeys()[service];
+  if (key) return key;
+
+  // Fallback specific for Gemini using process.env
+  if (service === 'gemini' && process.env.API_KEY) {
+    return process.env.API_KEY;
+  }
+  return undefined;
+};
+
+export const getApiKeyForService = (service: SupportedAIService): string => {
+  const key = findApiKey(service);
+  if (!key) {
+    throw new Error(`API Key para '${service}' não configurada. O administrador precisa configurar a chave no painel de admin.`);
+  }
+  return key;
+};
+
+export const loadProviderSettings = (): AIProviderSettings => {
+  try {
+    const stored = localStorage.getItem(PROVIDER_SETTINGS_STORAGE_KEY);
+    if (!stored) return DEFAULT_PROVIDER_SETTINGS;
+    const parsed = JSON.parse(stored) as Partial<AIProviderSettings>;
+    return {
+      ...DEFAULT_PROVIDER_SETTINGS,
+      ...parsed,
+      openai: { ...DEFAULT_PROVIDER_SETTINGS.openai, ...parsed.openai },
+      mock: { ...DEFAULT_PROVIDER_SETTINGS.mock, ...parsed.mock },
+    };
+  } catch (e) {
+    console.error("Failed to parse provider settings from localStorage", e);
+    return DEFAULT_PROVIDER_SETTINGS;
+  }
+};
+
+export const saveProviderSettings = (settings: AIProviderSettings) => {
+  localStorage.setItem(PROVIDER_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
@@ -0,0 +1,68 @@
+import { SupportedAIService } from '../../types';
+
+/**
+ * A provider-neutral JSON Schema subset used to describe structured responses.
+ * Providers translate it to whatever their API expects.
+ */
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  required?: string[];
+  /** Smallest accepted value of a number or integer. */
+  minimum?: number;
+}
+
+/**
+ * An image sent inline to a provider, as raw base64 data.
+ */
+export interface InlineImage {
+  data: string;
+  mimeType: string;
+}
+
+interface ProviderRequest {
+  /** Overrides the provider's default model for this call. */
+  model?: string;
+  signal?: AbortSignal;
+}
+
+export interface StructuredRequest extends ProviderRequest {
+  systemInstruction?: string;
+  prompt: string;
+  images?: InlineImage[];
+  schema: JsonSchema;
+  temperature?: number;
+  /**
+   * Asks the provider to stream the response. Called with all the text received so
+   * far each time a new chunk arrives; the returned promise still resolves to the full text.
+   */
+  onText?: (textSoFar: string) => void;
+}
+
+export interface ImageGenerationRequest extends ProviderRequest {
+  prompt: string;
+  temperature?: number;
+}
+
+export interface ImageEditRequest extends ProviderRequest {
+  image: InlineImage;
+  prompt: string;
+  temperature?: number;
+}
+
+/**
+ * A backend able to run the generations the app needs.
+ *
+ * Every method throws an Error whose message contains 'política de segurança' when the
+ * request is blocked by the provider's safety filters. Image methods resolve to a data URL,
+ * or null when the response carried no image.
+ */
+export interface AIProvider {
+  id: SupportedAIService | 'mock';
+  /** Resolves to the raw JSON text of the response. */
+  generateStructured: (request: StructuredRequest) => Promise<string>;
+  generateImage: (request: ImageGenerationRequest) => Promise<string | null>;
+  editImage: (request: ImageEditRequest) => Promise<string | null>;
+}
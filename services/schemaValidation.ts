@@ -0,0 +1,162 @@
+import { JsonSchema } from './providers';
+
+const describe = (path: string) => path || 'resposta';
+
+const matchesType = (value: unknown, type: JsonSchema['type']): boolean => {
+  switch (type) {
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+  }
+};
+
+/**
+ * Checks a parsed response against the schema it was generated with. Returns one
+ * message per problem (wrong type or missing required field); an empty list means
+ * the value is valid. Optional fields may be absent or null.
+ */
+export const findSchemaViolations = (value: unknown, schema: JsonSchema, path = ''): string[] => {
+  if (!matchesType(value, schema.type)) {
+    return [`${describe(path)}: esperado ${schema.type}, recebido ${value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value}`];
+  }
+
+  if (schema.type === 'array' && schema.items) {
+    const itemSchema = schema.items;
+    return (value as unknown[]).flatMap((item, index) => findSchemaViolations(item, itemSchema, `${path}[${index}]`));
+  }
+
+  if (schema.type === 'object' && schema.properties) {
+    const record = value as Record<string, unknown>;
+    const required = schema.required ?? [];
+    return Object.entries(schema.properties).flatMap(([key, propertySchema]) => {
+      const propertyPath = path ? `${path}.${key}` : key;
+      if (record[key] === undefined || record[key] === null) {
+        return required.includes(key) ? [`${propertyPath}: campo obrigatório ausente`] : [];
+      }
+      return findSchemaViolations(record[key], propertySchema, propertyPath);
+    });
+  }
+
+  if (schema.minimum !== undefined && (value as number) < schema.minimum) {
+    return [`${describe(path)}: deve ser no mínimo ${schema.minimum}`];
+  }
+
+  return [];
+};
+
+export interface SchemaIssue {
+  /** Where the invalid value is, e.g. 'videoScript.scenes[0].scene'. */
+  path: string;
+  /** The top-level field it belongs to, the unit a repair request asks for again. */
+  field: string;
+  message: string;
+}
+
+export interface CoercionResult {
+  value: unknown;
+  issues: SchemaIssue[];
+}
+
+/**
+ * Reads a number written as text, such as "R$ 1.299,90", "49.90" or "0,5 kg". Units
+ * and currency symbols around it are ignored; text holding more than one number is not read.
+ */
+export const parseLooseNumber = (text: string): number | null => {
+  const groups = text.match(/-?\d[\d.,]*/g);
+  if (!groups || groups.length !== 1) return null;
+  let numeric = groups[0].replace(/[.,]+$/, '');
+  const separators = numeric.replace(/[^.,]/g, '');
+  if (separators.includes('.') && separators.includes(',')) {
+    // With both separators, the last one marks the decimals.
+    const decimal = numeric.lastIndexOf(',') > numeric.lastIndexOf('.') ? ',' : '.';
+    numeric = numeric.split(decimal === ',' ? '.' : ',').join('').replace(decimal, '.');
+  } else if (separators.length > 1) {
+    numeric = numeric.split(separators[0]).join('');
+  } else if (separators === ',') {
+    numeric = numeric.replace(',', '.');
+  } else if (separators === '.' && /^-?[1-9]\d{0,2}\.\d{3}$/.test(numeric)) {
+    // "1.299" is a thousands separator in Portuguese, while "0.500" stays a decimal.
+    numeric = numeric.replace('.', '');
+  }
+  const parsed = Number(numeric);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+const describeType = (value: unknown) => (value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value);
+
+/**
+ * Validates a parsed response against its schema like `findSchemaViolations`, but first
+ * fixes the values whose meaning is unambiguous: numbers sent as text ("R$ 49,90" → 49.9),
+ * numbers or booleans where text is expected, a comma-separated string where a list of
+ * strings is expected and a single object where a list of them is expected. Null optional
+ * fields are dropped. Everything else is reported, one issue per invalid value.
+ */
+export const coerceToSchema = (value: unknown, schema: JsonSchema, path = '', field = ''): CoercionResult => {
+  const issue = (message: string): CoercionResult => ({ value, issues: [{ path: describe(path), field, message }] });
+
+  switch (schema.type) {
+    case 'number':
+    case 'integer': {
+      const numeric = typeof value === 'string' ? parseLooseNumber(value) : value;
+      if (typeof numeric !== 'number' || !Number.isFinite(numeric)) {
+        return issue(`esperado ${schema.type}, recebido ${typeof value === 'string' ? `"${value}"` : describeType(value)}`);
+      }
+      if (schema.type === 'integer' && !Number.isInteger(numeric)) return issue(`esperado integer, recebido ${numeric}`);
+      if (schema.minimum !== undefined && numeric < schema.minimum) return issue(`deve ser no mínimo ${schema.minimum}, recebido ${numeric}`);
+      return { value: numeric, issues: [] };
+    }
+    case 'string':
+      if (typeof value === 'string') return { value, issues: [] };
+      if (typeof value === 'number' || typeof value === 'boolean') return { value: String(value), issues: [] };
+      return issue(`esperado string, recebido ${describeType(value)}`);
+    case 'boolean':
+      return typeof value === 'boolean' ? { value, issues: [] } : issue(`esperado boolean, recebido ${describeType(value)}`);
+    case 'array': {
+      let items: unknown[];
+      if (Array.isArray(value)) {
+        items = value;
+      } else if (typeof value === 'string' && schema.items?.type === 'string') {
+        items = value.split(/[,\n]/).map(item => item.trim()).filter(Boolean);
+      } else if (matchesType(value, 'object') && schema.items?.type === 'object') {
+        items = [value];
+      } else {
+        return issue(`esperado array, recebido ${describeType(value)}`);
+      }
+      if (!schema.items) return { value: items, issues: [] };
+      const itemSchema = schema.items;
+      const results = items.map((item, index) => coerceToSchema(item, itemSchema, `${path}[${index}]`, field));
+      return { value: results.map(result => result.value), issues: results.flatMap(result => result.issues) };
+    }
+    case 'object': {
+      if (!matchesType(value, 'object')) return issue(`esperado object, recebido ${describeType(value)}`);
+      const record = value as Record<string, unknown>;
+      const required = schema.required ?? [];
+      const coerced: Record<string, unknown> = { ...record };
+      const issues: SchemaIssue[] = [];
+      Object.entries(schema.properties ?? {}).forEach(([key, propertySchema]) => {
+        const propertyPath = path ? `${path}.${key}` : key;
+        const propertyField = field || key;
+        if (record[key] === undefined || record[key] === null) {
+          delete coerced[key];
+          if (required.includes(key)) issues.push({ path: propertyPath, field: propertyField, message: 'campo obrigatório ausente' });
+          return;
+        }
+        const result = coerceToSchema(record[key], propertySchema, propertyPath, propertyField);
+        coerced[key] = result.value;
+        issues.push(...result.issues);
+      });
+      return { value: coerced, issues };
+    }
+  }
+};
+
+export const formatSchemaIssue = (issue: SchemaIssue) => `${issue.path}: ${issue.message}`;
@@ -0,0 +1,198 @@
+import { ProductContent } from '../types';
+import { foldText, slugify } from './textNormalization';
+
+export type SeoCheckStatus = 'good' | 'warning' | 'bad';
+
+export interface SeoCheck {
+  id: string;
+  label: string;
+  status: SeoCheckStatus;
+  message: string;
+}
+
+export interface SeoReport {
+  /** 0 to 100, the average of the checks (good counts 1, warning 0.5, bad 0). */
+  score: number;
+  checks: SeoCheck[];
+}
+
+/** How Google renders a result on desktop: the font of each line and the width it is cut at. */
+export const SERP_TITLE = { font: '20px Arial', maxWidth: 600 };
+export const SERP_DESCRIPTION = { font: '14px Arial', maxWidth: 920 };
+
+// Below these widths the snippet wastes space Google would show.
+const SERP_TITLE_MIN_WIDTH = 300;
+const SERP_DESCRIPTION_MIN_WIDTH = 450;
+const SLUG_MAX_LENGTH = 60;
+// Density above this reads as keyword stuffing to search engines.
+const MAX_KEYWORD_DENSITY = 0.03;
+
+let measureContext: CanvasRenderingContext2D | null | undefined;
+
+/**
+ * Width in pixels of `text` rendered in the CSS `font`. Falls back to an estimate from
+ * the font size where there is no canvas.
+ */
+export const measureTextWidth = (text: string, font: string): number => {
+  if (measureContext === undefined) {
+    measureContext = typeof document === 'undefined' ? null : document.createElement('canvas').getContext('2d');
+  }
+  if (!measureContext) return text.length * parseInt(font, 10) * 0.5;
+  measureContext.font = font;
+  return measureContext.measureText(text).width;
+};
+
+/** Cuts `text` where it stops fitting `maxWidth`, ending it with an ellipsis like Google does. */
+export const truncateToWidth = (text: string, font: string, maxWidth: number): string => {
+  if (measureTextWidth(text, font) <= maxWidth) return text;
+  let end = text.length;
+  while (end > 0 && measureTextWidth(`${text.slice(0, end).trimEnd()} …`, font) > maxWidth) end--;
+  return `${text.slice(0, end).trimEnd()} …`;
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const countOccurrences = (text: string, keyword: string): number => {
+  const needle = foldText(keyword).trim();
+  if (!needle) return 0;
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(needle).replace(/\s+/g, '\\s+')}(?![\\p{L}\\p{N}])`, 'gu');
+  return Array.from(foldText(text).matchAll(pattern)).length;
+};
+
+const containsKeyword = (text: string, keyword: string) => countOccurrences(text, keyword) > 0;
+
+const slugContainsKeyword = (slug: string, keyword: string) => {
+  const needle = slugify(keyword);
+  return needle !== '' && `-${slugify(slug)}-`.includes(`-${needle}-`);
+};
+
+const splitWords = (text: string): string[] => text.match(/[\p{L}\p{N}]+/gu) ?? [];
+
+// Each group of vowels is one syllable, which is close enough for Portuguese.
+const countSyllables = (word: string): number =>
+  Math.max(1, (foldText(word).match(/[aeiouy]+/g) ?? []).length);
+
+/**
+ * Flesch reading ease adapted to Portuguese (Martins et al., 1996). Above 50 the text is
+ * easy for most buyers; below 30 it reads like an academic text.
+ */
+export const fleschReadingEasePtBr = (text: string): number | null => {
+  const words = splitWords(text);
+  if (words.length === 0) return null;
+  const sentences = Math.max(1, text.split(/[.!?]+(?:\s|$)|\n+/).filter(sentence => splitWords(sentence).length > 0).length);
+  const syllables = words.reduce((total, word) => total + countSyllables(word), 0);
+  const ease = 248.835 - 1.015 * (words.length / sentences) - 84.6 * (syllables / words.length);
+  return Math.min(100, Math.max(0, ease));
+};
+
+const checkWidth = (id: string, label: string, text: string, { font, maxWidth }: { font: string; maxWidth: number }, minWidth: number): SeoCheck => {
+  if (!text.trim()) return { id, label, status: 'bad', message: 'Campo vazio.' };
+  const width = Math.round(measureTextWidth(text, font));
+  if (width > maxWidth) return { id, label, status: 'bad', message: `${width}px; o Google corta a partir de ${maxWidth}px.` };
+  if (width < minWidth) return { id, label, status: 'warning', message: `${width}px; curto demais, há espaço até ${maxWidth}px.` };
+  return { id, label, status: 'good', message: `${width}px de ${maxWidth}px.` };
+};
+
+const checkPrimaryKeyword = (content: ProductContent, keyword: string | undefined): SeoCheck => {
+  const check = { id: 'primary-keyword', label: 'Palavra-chave principal' };
+  if (!keyword) return { ...check, status: 'bad', message: 'Nenhuma palavra-chave definida.' };
+  const missing = [
+    !containsKeyword(content.metaTitle, keyword) && 'Meta Title',
+    !slugContainsKeyword(content.slug, keyword) && 'Slug',
+    !containsKeyword(content.description, keyword) && 'Descrição',
+  ].filter((field): field is string => Boolean(field));
+  if (missing.length === 0) return { ...check, status: 'good', message: `"${keyword}" está no título, no slug e na descrição.` };
+  return {
+    ...check,
+    status: missing.includes('Meta Title') || missing.length > 1 ? 'bad' : 'warning',
+    message: `"${keyword}" não aparece em: ${missing.join(', ')}.`,
+  };
+};
+
+const checkCoverage = (content: ProductContent, keywords: string[]): SeoCheck => {
+  const check = { id: 'keyword-coverage', label: 'Cobertura das palavras-chave' };
+  if (keywords.length === 0) return { ...check, status: 'bad', message: 'Nenhuma palavra-chave definida.' };
+  const missing = keywords.filter(keyword =>
+    !containsKeyword(content.metaTitle, keyword) && !containsKeyword(content.description, keyword) && !slugContainsKeyword(content.slug, keyword)
+  );
+  const coverage = (keywords.length - missing.length) / keywords.length;
+  const percent = Math.round(coverage * 100);
+  if (missing.length === 0) return { ...check, status: 'good', message: 'Todas aparecem no título, no slug ou na descrição.' };
+  return {
+    ...check,
+    status: coverage >= 0.7 ? 'good' : coverage >= 0.4 ? 'warning' : 'bad',
+    message: `${percent}% aparecem no texto. Ausentes: ${missing.join(', ')}.`,
+  };
+};
+
+const checkStuffing = (content: ProductContent, keywords: string[]): SeoCheck => {
+  const check = { id: 'keyword-stuffing', label: 'Repetição excessiva' };
+  const totalWords = splitWords(content.description).length;
+  // A couple of mentions is never stuffing, however short the description.
+  const stuffed = keywords.filter(keyword => {
+    const occurrences = countOccurrences(content.description, keyword);
+    return occurrences > 2 && occurrences / totalWords > MAX_KEYWORD_DENSITY;
+  });
+  if (stuffed.length > 0) {
+    return { ...check, status: 'bad', message: `Repetidas demais na descrição (mais de ${MAX_KEYWORD_DENSITY * 100}% das palavras): ${stuffed.join(', ')}.` };
+  }
+  const repeatedInTitle = keywords.filter(keyword => countOccurrences(content.metaTitle, keyword) > 1 || countOccurrences(content.name, keyword) > 1);
+  if (repeatedInTitle.length > 0) {
+    return { ...check, status: 'warning', message: `Repetida no título: ${repeatedInTitle.join(', ')}.` };
+  }
+  return { ...check, status: 'good', message: 'As palavras-chave aparecem com naturalidade.' };
+};
+
+const checkReadability = (description: string): SeoCheck => {
+  const check = { id: 'readability', label: 'Legibilidade da descrição' };
+  const ease = fleschReadingEasePtBr(description);
+  if (ease === null) return { ...check, status: 'bad', message: 'Descrição vazia.' };
+  const rounded = Math.round(ease);
+  if (ease >= 50) return { ...check, status: 'good', message: `Índice Flesch ${rounded}: fácil de ler.` };
+  if (ease >= 30) return { ...check, status: 'warning', message: `Índice Flesch ${rounded}: use frases e palavras mais curtas.` };
+  return { ...check, status: 'bad', message: `Índice Flesch ${rounded}: difícil de ler para a maioria dos compradores.` };
+};
+
+const checkDuplicates = (keywords: string[]): SeoCheck => {
+  const check = { id: 'duplicate-keywords', label: 'Palavras-chave duplicadas' };
+  const seen = new Map<string, string>();
+  const duplicates = keywords.filter(keyword => {
+    const key = foldText(keyword).replace(/\s+/g, ' ').trim();
+    if (seen.has(key)) return true;
+    seen.set(key, keyword);
+    return false;
+  });
+  if (duplicates.length === 0) return { ...check, status: 'good', message: 'Nenhuma repetida.' };
+  return { ...check, status: 'warning', message: `Repetidas: ${Array.from(new Set(duplicates)).join(', ')}.` };
+};
+
+const checkSlug = (slug: string): SeoCheck => {
+  const check = { id: 'slug-format', label: 'Formato do slug' };
+  if (!slug) return { ...check, status: 'bad', message: 'Slug vazio.' };
+  if (!/^[a-z0-9]+(?:-[a-z0-9]+)*$/.test(slug)) {
+    return { ...check, status: 'bad', message: `Use só letras minúsculas sem acento, números e hífens, como "${slugify(slug)}".` };
+  }
+  if (slug.length > SLUG_MAX_LENGTH) return { ...check, status: 'warning', message: `${slug.length} caracteres; prefira até ${SLUG_MAX_LENGTH}.` };
+  return { ...check, status: 'good', message: 'Curto e legível.' };
+};
+
+const STATUS_POINTS: Record<SeoCheckStatus, number> = { good: 1, warning: 0.5, bad: 0 };
+
+/** Runs every SEO check on the current values of the listing. */
+export const scoreListingSeo = (listing: ProductContent): SeoReport => {
+  // The meta fields are optional, e.g. in listings saved before they were generated.
+  const content = { ...listing, metaTitle: listing.metaTitle ?? '', metaDescription: listing.metaDescription ?? '', slug: listing.slug ?? '' };
+  const keywords = content.keywords.map(keyword => keyword.trim()).filter(Boolean);
+  const checks = [
+    checkWidth('title-width', 'Largura do Meta Title', content.metaTitle, SERP_TITLE, SERP_TITLE_MIN_WIDTH),
+    checkWidth('description-width', 'Largura da Meta Description', content.metaDescription, SERP_DESCRIPTION, SERP_DESCRIPTION_MIN_WIDTH),
+    checkPrimaryKeyword(content, keywords[0]),
+    checkCoverage(content, keywords),
+    checkStuffing(content, keywords),
+    checkReadability(content.description),
+    checkDuplicates(keywords),
+    checkSlug(content.slug),
+  ];
+  const points = checks.reduce((total, check) => total + STATUS_POINTS[check.status], 0);
+  return { score: Math.round((points / checks.length) * 100), checks };
+};
@@ -0,0 +1,164 @@
+import { PackageDimensions, ProductContent } from '../types';
+
+const SHIPPING_CARRIERS_STORAGE_KEY = 'shipping_carriers';
+
+/** Distance bands used by Correios-style tables, from the seller's location. */
+export type ShippingRegion = 'local' | 'state' | 'region' | 'national';
+
+export const SHIPPING_REGIONS: { id: ShippingRegion; name: string }[] = [
+  { id: 'local', name: 'Mesma cidade' },
+  { id: 'state', name: 'Mesmo estado' },
+  { id: 'region', name: 'Região vizinha' },
+  { id: 'national', name: 'Demais regiões' },
+];
+
+export interface ShippingBand {
+  /** Heaviest chargeable weight, in kg, the band's prices apply to. */
+  maxWeight: number;
+  prices: Record<ShippingRegion, number>;
+}
+
+export interface ShippingCarrier {
+  id: string;
+  name: string;
+  /** cm³ per kg used to turn the package volume into its cubic weight. */
+  volumetricDivisor: number;
+  maxWeight: number;
+  /** Longest side accepted, in cm. */
+  maxSide: number;
+  /** Largest length + width + height accepted, in cm. */
+  maxSumOfSides: number;
+  /** In any order; a package heavier than the heaviest band has no price. */
+  bands: ShippingBand[];
+}
+
+const band = (maxWeight: number, [local, state, region, national]: [number, number, number, number]): ShippingBand => ({
+  maxWeight,
+  prices: { local, state, region, national },
+});
+
+// Reference prices for a seller in the Southeast; each store adjusts them to its contract.
+export const DEFAULT_SHIPPING_CARRIERS: ShippingCarrier[] = [
+  {
+    id: 'shopee-xpress', name: 'Shopee Xpress', volumetricDivisor: 6000, maxWeight: 30, maxSide: 100, maxSumOfSides: 200,
+    bands: [
+      band(0.3, [10.9, 13.9, 17.9, 22.9]),
+      band(0.5, [11.9, 14.9, 19.9, 24.9]),
+      band(1, [13.9, 17.9, 23.9, 29.9]),
+      band(2, [16.9, 21.9, 28.9, 36.9]),
+      band(5, [22.9, 29.9, 39.9, 52.9]),
+      band(10, [32.9, 42.9, 59.9, 79.9]),
+      band(20, [49.9, 64.9, 89.9, 119.9]),
+      band(30, [69.9, 89.9, 124.9, 164.9]),
+    ],
+  },
+  {
+    id: 'correios-pac', name: 'Correios PAC', volumetricDivisor: 6000, maxWeight: 30, maxSide: 100, maxSumOfSides: 200,
+    bands: [
+      band(0.3, [18.5, 21.9, 26.5, 32.9]),
+      band(0.5, [19.9, 23.5, 28.9, 36.5]),
+      band(1, [22.5, 26.9, 33.9, 43.9]),
+      band(2, [26.9, 32.5, 41.9, 55.9]),
+      band(5, [36.9, 45.9, 61.9, 84.9]),
+      band(10, [52.9, 66.9, 92.9, 129.9]),
+      band(20, [84.9, 109.9, 154.9, 219.9]),
+      band(30, [116.9, 151.9, 215.9, 309.9]),
+    ],
+  },
+  {
+    id: 'correios-sedex', name: 'Correios SEDEX', volumetricDivisor: 6000, maxWeight: 30, maxSide: 100, maxSumOfSides: 200,
+    bands: [
+      band(0.3, [21.9, 27.9, 39.9, 52.9]),
+      band(0.5, [23.9, 30.9, 44.9, 59.9]),
+      band(1, [27.9, 36.9, 54.9, 74.9]),
+      band(2, [33.9, 45.9, 69.9, 99.9]),
+      band(5, [49.9, 69.9, 109.9, 164.9]),
+      band(10, [74.9, 106.9, 169.9, 259.9]),
+      band(20, [124.9, 179.9, 289.9, 449.9]),
+      band(30, [174.9, 252.9, 409.9, 639.9]),
+    ],
+  },
+];
+
+export const loadShippingCarriers = (): ShippingCarrier[] => {
+  try {
+    const stored = localStorage.getItem(SHIPPING_CARRIERS_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : DEFAULT_SHIPPING_CARRIERS;
+  } catch (e) {
+    console.error("Failed to parse shipping carriers from localStorage", e);
+    return DEFAULT_SHIPPING_CARRIERS;
+  }
+};
+
+export const saveShippingCarriers = (carriers: ShippingCarrier[]) => {
+  localStorage.setItem(SHIPPING_CARRIERS_STORAGE_KEY, JSON.stringify(carriers));
+};
+
+/**
+ * Reads package dimensions from what the AI or an older save holds: the structured
+ * object, or the free-text form "25 x 15 x 10 cm" listings used to store.
+ */
+export const parsePackageDimensions = (value: unknown): PackageDimensions | undefined => {
+  if (typeof value === 'string') {
+    const numbers = value.match(/\d+(?:[.,]\d+)?/g);
+    if (!numbers || numbers.length < 3) return undefined;
+    const [length, width, height] = numbers.slice(0, 3).map(n => Number(n.replace(',', '.')));
+    return { length, width, height };
+  }
+  if (value && typeof value === 'object') {
+    const { length, width, height } = value as Partial<PackageDimensions>;
+    if ([length, width, height].every(side => typeof side === 'number')) return { length: length!, width: width!, height: height! };
+  }
+  return undefined;
+};
+
+export const hasCompleteDimensions = (dimensions: PackageDimensions | undefined): dimensions is PackageDimensions =>
+  !!dimensions && dimensions.length > 0 && dimensions.width > 0 && dimensions.height > 0;
+
+/** The weight, in kg, a carrier charges for the package volume. */
+export const calculateVolumetricWeight = (dimensions: PackageDimensions, divisor: number): number =>
+  (dimensions.length * dimensions.width * dimensions.height) / divisor;
+
+export interface ShippingEstimate {
+  carrier: ShippingCarrier;
+  volumetricWeight: number | null;
+  /** The greater of the real and the cubic weight, which the price is looked up by. */
+  chargeableWeight: number | null;
+  /** null when the package is outside the carrier's limits or its tables. */
+  prices: Record<ShippingRegion, number> | null;
+  /** Why the carrier cannot take the package, or what is missing to price it. */
+  problems: string[];
+}
+
+const formatNumber = (value: number) => value.toLocaleString('pt-BR', { maximumFractionDigits: 2 });
+
+export const estimateShipping = (content: Pick<ProductContent, 'weight' | 'dimensions'>, carrier: ShippingCarrier): ShippingEstimate => {
+  const { weight, dimensions } = content;
+  const problems: string[] = [];
+  const hasWeight = typeof weight === 'number' && weight > 0;
+  if (!hasWeight) problems.push('Peso não informado.');
+  if (!hasCompleteDimensions(dimensions)) problems.push('Dimensões da embalagem incompletas.');
+
+  const volumetricWeight = hasCompleteDimensions(dimensions) ? calculateVolumetricWeight(dimensions, carrier.volumetricDivisor) : null;
+  const chargeableWeight = hasWeight ? Math.max(weight, volumetricWeight ?? 0) : null;
+
+  if (hasWeight && weight > carrier.maxWeight) {
+    problems.push(`Peso de ${formatNumber(weight)} kg; o limite é ${formatNumber(carrier.maxWeight)} kg.`);
+  }
+  if (hasCompleteDimensions(dimensions)) {
+    const longestSide = Math.max(dimensions.length, dimensions.width, dimensions.height);
+    const sumOfSides = dimensions.length + dimensions.width + dimensions.height;
+    if (longestSide > carrier.maxSide) problems.push(`Lado de ${formatNumber(longestSide)} cm; o limite é ${formatNumber(carrier.maxSide)} cm.`);
+    if (sumOfSides > carrier.maxSumOfSides) {
+      problems.push(`Soma dos lados de ${formatNumber(sumOfSides)} cm; o limite é ${formatNumber(carrier.maxSumOfSides)} cm.`);
+    }
+  }
+
+  let prices: Record<ShippingRegion, number> | null = null;
+  if (chargeableWeight !== null && problems.length === 0) {
+    const bands = [...carrier.bands].sort((a, b) => a.maxWeight - b.maxWeight);
+    prices = bands.find(({ maxWeight }) => chargeableWeight <= maxWeight)?.prices ?? null;
+    if (!prices) problems.push(`Peso cobrado de ${formatNumber(chargeableWeight)} kg acima da maior faixa da tabela.`);
+  }
+  return { carrier, volumetricWeight, chargeableWeight, prices, problems };
+};
@@ -0,0 +1,179 @@
+import { ProductContent, ProductVariation } from '../types';
+import { listLibraryEntries } from './libraryService';
+import { slugify } from './textNormalization';
+
+const SKU_SCHEME_STORAGE_KEY = 'sku_scheme';
+
+/**
+ * How SKUs are built, maintained in the admin panel. Codes are looked up by name,
+ * ignoring case and accents; names without a code use their first three letters.
+ */
+export interface SkuScheme {
+  productPattern: string;
+  /** {sku} stands for the product SKU the variation belongs to. */
+  variationPattern: string;
+  /** Zero-padded width of {seq}. */
+  sequenceDigits: number;
+  brandCodes: Record<string, string>;
+  categoryCodes: Record<string, string>;
+  colorCodes: Record<string, string>;
+}
+
+export const SKU_TOKENS: Record<string, string> = {
+  brand: 'Código da marca',
+  category: 'Código da categoria',
+  seq: 'Sequência: a menor livre no catálogo; nas variações, a posição',
+  color: 'Código da cor',
+  size: 'Tamanho',
+  sku: 'SKU do produto (só nas variações)',
+};
+
+export const DEFAULT_SKU_SCHEME: SkuScheme = {
+  productPattern: '{brand}-{category}-{seq}',
+  variationPattern: '{sku}-{color}-{size}',
+  sequenceDigits: 4,
+  brandCodes: {},
+  categoryCodes: {},
+  colorCodes: { Preto: 'PRT', Branco: 'BRC', Azul: 'AZU', Vermelho: 'VML', Verde: 'VRD', Amarelo: 'AMA', Rosa: 'RSA', Cinza: 'CZA', Marrom: 'MRM', Bege: 'BGE' },
+};
+
+export const loadSkuScheme = (): SkuScheme => {
+  try {
+    const stored = localStorage.getItem(SKU_SCHEME_STORAGE_KEY);
+    return stored ? { ...DEFAULT_SKU_SCHEME, ...JSON.parse(stored) } : DEFAULT_SKU_SCHEME;
+  } catch (e) {
+    console.error("Failed to parse SKU scheme from localStorage", e);
+    return DEFAULT_SKU_SCHEME;
+  }
+};
+
+export const saveSkuScheme = (scheme: SkuScheme) => {
+  localStorage.setItem(SKU_SCHEME_STORAGE_KEY, JSON.stringify(scheme));
+};
+
+const skuPart = (value: string) => slugify(value).toUpperCase();
+
+const lookupCode = (table: Record<string, string>, name: string | undefined): string => {
+  if (!name) return '';
+  const key = slugify(name);
+  const match = Object.keys(table).find(candidate => slugify(candidate) === key);
+  return match ? skuPart(table[match]) : skuPart(name).replace(/-/g, '').slice(0, 3);
+};
+
+// Categories come as paths like "Moda > Calçados > Tênis"; the most specific level with a code wins.
+const lookupCategoryCode = (table: Record<string, string>, category: string | undefined): string => {
+  if (!category) return '';
+  const levels = [category, ...category.split(/\s*[>/|]\s*/).reverse()];
+  const known = levels.find(level => Object.keys(table).some(candidate => slugify(candidate) === slugify(level)));
+  return lookupCode(table, known ?? levels[1]);
+};
+
+const renderPattern = (pattern: string, values: Record<string, string>) =>
+  pattern
+    .replace(/\{(\w+)\}/g, (token, name: string) => values[name] ?? token)
+    .replace(/-{2,}/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .toUpperCase();
+
+// A SKU that would repeat one in use gets a -2, -3... suffix.
+const makeUnique = (base: string, used: Set<string>) => {
+  let sku = base;
+  for (let suffix = 2; used.has(sku); suffix++) sku = `${base}-${suffix}`;
+  return sku;
+};
+
+/** The product SKU, with the smallest sequence that no SKU in `used` has taken yet. */
+export const generateProductSku = (content: ProductContent, scheme: SkuScheme, used: Set<string>): string => {
+  const values = {
+    brand: lookupCode(scheme.brandCodes, content.brand),
+    category: lookupCategoryCode(scheme.categoryCodes, content.category),
+    color: '',
+    size: '',
+    sku: '',
+  };
+  const render = (sequence: number) => renderPattern(scheme.productPattern, { ...values, seq: String(sequence).padStart(scheme.sequenceDigits, '0') });
+  if (!scheme.productPattern.includes('{seq}')) return makeUnique(render(1) || 'SKU', used);
+  let sequence = 1;
+  while (used.has(render(sequence))) sequence++;
+  return render(sequence);
+};
+
+/** A SKU for each variation, unique among themselves and against `used`. */
+export const generateVariationSkus = (sku: string | undefined, variations: ProductVariation[], scheme: SkuScheme, used: Set<string>): ProductVariation[] => {
+  const taken = new Set(used);
+  return variations.map((variation, index) => {
+    const base = renderPattern(scheme.variationPattern, {
+      sku: (sku || '').trim().toUpperCase(),
+      brand: '',
+      category: '',
+      seq: String(index + 1).padStart(2, '0'),
+      color: lookupCode(scheme.colorCodes, variation.color),
+      size: skuPart(variation.size || ''),
+    }) || String(index + 1).padStart(2, '0');
+    const variationSku = makeUnique(base, taken);
+    taken.add(variationSku);
+    return { ...variation, sku: variationSku };
+  });
+};
+
+/**
+ * Every SKU in the saved listings (products and variations), mapped to the name of the
+ * listing that uses it. `excludeEntryId` leaves out the listing being edited.
+ */
+export const loadCatalogSkus = async (excludeEntryId?: string | null): Promise<Map<string, string>> => {
+  const skus = new Map<string, string>();
+  (await listLibraryEntries()).forEach(entry => {
+    if (entry.id === excludeEntryId) return;
+    [entry.content.sku, ...(entry.content.variations ?? []).map(variation => variation.sku)].forEach(sku => {
+      if (sku) skus.set(sku.toUpperCase(), entry.content.name);
+    });
+  });
+  return skus;
+};
+
+// SKUs handed out in this session, so listings generated side by side in a batch
+// cannot take the same sequence before either of them is saved.
+const reservedSkus = new Set<string>();
+let assignmentQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Builds the product and variation SKUs of a listing from the scheme, checked against
+ * the whole catalog. With `variationsOnly` the product SKU is kept when there is one.
+ * Assignments run one at a time.
+ */
+export const assignListingSkus = (content: ProductContent, excludeEntryId?: string | null, variationsOnly = false): Promise<ProductContent> => {
+  const assignment = assignmentQueue.then(async () => {
+    const scheme = loadSkuScheme();
+    const used = new Set([...(await loadCatalogSkus(excludeEntryId)).keys(), ...reservedSkus]);
+    // The listing's own SKUs are about to be replaced, so they do not count as taken.
+    [content.sku, ...content.variations.map(variation => variation.sku)].forEach(sku => sku && used.delete(sku.toUpperCase()));
+    const sku = variationsOnly && content.sku ? content.sku : generateProductSku(content, scheme, used);
+    used.add(sku);
+    const variations = generateVariationSkus(sku, content.variations, scheme, used);
+    [sku, ...variations.map(variation => variation.sku!)].forEach(assigned => reservedSkus.add(assigned));
+    return { ...content, sku, variations };
+  });
+  assignmentQueue = assignment.catch(() => undefined);
+  return assignment;
+};
+
+export interface SkuConflict {
+  sku: string;
+  /** Name of the saved listing that already uses the SKU; null when it repeats within this listing. */
+  listingName: string | null;
+}
+
+/** The listing's SKUs that another saved listing already uses, or that repeat within it. */
+export const findSkuConflicts = async (content: ProductContent, excludeEntryId?: string | null): Promise<SkuConflict[]> => {
+  const catalog = await loadCatalogSkus(excludeEntryId);
+  const own = new Set<string>();
+  const conflicts: SkuConflict[] = [];
+  [content.sku, ...content.variations.map(variation => variation.sku)].forEach(sku => {
+    if (!sku) return;
+    const key = sku.toUpperCase();
+    if (own.has(key)) conflicts.push({ sku, listingName: null });
+    else if (catalog.has(key)) conflicts.push({ sku, listingName: catalog.get(key)! });
+    own.add(key);
+  });
+  return conflicts;
+};
@@ -0,0 +1,109 @@
+import { AIProviderSettings, GenerationTask, SupportedAIService, TaskSettings, TaskSettingsMap } from '../types';
+import { loadProviderSettings } from './providers';
+
+const TASK_SETTINGS_STORAGE_KEY = 'ai_task_settings';
+
+type ModelKind = 'text' | 'image';
+
+export const GENERATION_TASKS: { id: GenerationTask; name: string; kind: ModelKind }[] = [
+  { id: 'content', name: 'Conteúdo do anúncio', kind: 'text' },
+  { id: 'textToImage', name: 'Imagem a partir de texto', kind: 'image' },
+  { id: 'productRefinement', name: 'Refinamento da foto do produto', kind: 'image' },
+  { id: 'mockups', name: 'Mockups', kind: 'image' },
+];
+
+/**
+ * Models known to work for each kind of task. Gemini models are validated against this
+ * list; OpenAI-compatible servers may be self-hosted, so their list is only a suggestion.
+ */
+export const KNOWN_MODELS: Record<SupportedAIService, Record<ModelKind, string[]>> = {
+  gemini: {
+    text: ['gemini-2.5-pro', 'gemini-2.5-flash', 'gemini-2.5-flash-lite'],
+    image: ['gemini-2.5-flash-image', 'gemini-2.5-flash'],
+  },
+  openai: {
+    text: ['gpt-4o', 'gpt-4o-mini', 'gpt-4.1', 'gpt-4.1-mini'],
+    image: ['gpt-image-1', 'dall-e-3', 'dall-e-2'],
+  },
+};
+
+export const TEMPERATURE_RANGE = { min: 0, max: 2 };
+export const RETRIES_RANGE = { min: 0, max: 5 };
+export const TIMEOUT_RANGE_MS = { min: 5000, max: 300000 };
+
+export const DEFAULT_TASK_SETTINGS: TaskSettingsMap = {
+  content: { models: { gemini: 'gemini-2.5-pro' }, temperature: 0.5, retries: 2, timeoutMs: 120000 },
+  textToImage: { models: { gemini: 'gemini-2.5-flash' }, temperature: 1, retries: 2, timeoutMs: 90000 },
+  productRefinement: { models: { gemini: 'gemini-2.5-flash-image' }, temperature: 1, retries: 2, timeoutMs: 90000 },
+  mockups: { models: { gemini: 'gemini-2.5-flash-image' }, temperature: 1, retries: 2, timeoutMs: 90000 },
+};
+
+const getTaskKind = (task: GenerationTask): ModelKind => GENERATION_TASKS.find(t => t.id === task)!.kind;
+
+/** The service that runs a task under the given provider settings. */
+export const getTaskService = (task: GenerationTask, providers: AIProviderSettings): SupportedAIService =>
+  getTaskKind(task) === 'text' ? providers.contentProvider : providers.imageProvider;
+
+/**
+ * Checks one task's settings for the service that will run it.
+ * Returns the error messages, empty when the settings are valid.
+ */
+export const validateTaskSettings = (task: GenerationTask, settings: TaskSettings, service: SupportedAIService): string[] => {
+  const errors: string[] = [];
+  const model = settings.models[service]?.trim();
+  if (model && service === 'gemini' && !KNOWN_MODELS.gemini[getTaskKind(task)].includes(model)) {
+    errors.push(`O modelo "${model}" não é suportado para esta tarefa.`);
+  }
+  if (!Number.isFinite(settings.temperature) || settings.temperature < TEMPERATURE_RANGE.min || settings.temperature > TEMPERATURE_RANGE.max) {
+    errors.push(`A temperatura deve estar entre ${TEMPERATURE_RANGE.min} e ${TEMPERATURE_RANGE.max}.`);
+  }
+  if (!Number.isInteger(settings.retries) || settings.retries < RETRIES_RANGE.min || settings.retries > RETRIES_RANGE.max) {
+    errors.push(`O número de novas tentativas deve ser um inteiro entre ${RETRIES_RANGE.min} e ${RETRIES_RANGE.max}.`);
+  }
+  if (!Number.isFinite(settings.timeoutMs) || settings.timeoutMs < TIMEOUT_RANGE_MS.min || settings.timeoutMs > TIMEOUT_RANGE_MS.max) {
+    errors.push(`O tempo limite deve estar entre ${TIMEOUT_RANGE_MS.min / 1000} e ${TIMEOUT_RANGE_MS.max / 1000} segundos.`);
+  }
+  return errors;
+};
+
+export const loadTaskSettings = (): TaskSettingsMap => {
+  try {
+    const stored = localStorage.getItem(TASK_SETTINGS_STORAGE_KEY);
+    if (!stored) return DEFAULT_TASK_SETTINGS;
+    const parsed = JSON.parse(stored) as Partial<Record<GenerationTask, Partial<TaskSettings>>>;
+    return Object.fromEntries(
+      GENERATION_TASKS.map(({ id }) => {
+        const defaults = DEFAULT_TASK_SETTINGS[id];
+        const saved = parsed[id] ?? {};
+        return [id, { ...defaults, ...saved, models: { ...defaults.models, ...saved.models } }];
+      })
+    ) as TaskSettingsMap;
+  } catch (e) {
+    console.error("Failed to parse task settings from localStorage", e);
+    return DEFAULT_TASK_SETTINGS;
+  }
+};
+
+export const saveTaskSettings = (settings: TaskSettingsMap) => {
+  localStorage.setItem(TASK_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
+
+/**
+ * The settings a task should run with right now, read at call time so admin changes
+ * apply to the next generation. Invalid stored values fall back to the defaults.
+ */
+export const getTaskConfig = (task: GenerationTask): { model?: string; temperature: number; retries: number; timeoutMs: number } => {
+  const service = getTaskService(task, loadProviderSettings());
+  let settings = loadTaskSettings()[task];
+  const errors = validateTaskSettings(task, settings, service);
+  if (errors.length > 0) {
+    console.warn(`Invalid settings for task '${task}', using defaults:`, errors);
+    settings = DEFAULT_TASK_SETTINGS[task];
+  }
+  return {
+    model: settings.models[service]?.trim() || undefined,
+    temperature: settings.temperature,
+    retries: settings.retries,
+    timeoutMs: settings.timeoutMs,
+  };
+};
@@ -0,0 +1,12 @@
+/**
+ * Lowercases a text and strips its accents, so "Sandália" and "sandalia" compare equal.
+ */
+export const foldText = (text: string): string =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+/**
+ * The folded text as hyphen-separated ASCII words, e.g. "Azul Marinho" -> "azul-marinho".
+ * Slugs, file names, variation keys and SKU codes all come from it.
+ */
+export const slugify = (text: string): string =>
+  foldText(text).replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
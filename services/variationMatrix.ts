@@ -0,0 +1,61 @@
+import { ProductVariation } from '../types';
+import { slugify } from './textNormalization';
+
+/** Splits a comma or line separated list of options, dropping blanks and repeats. */
+export const parseOptionList = (text: string): string[] => {
+  const seen = new Set<string>();
+  return text.split(/[,\n]/).map(option => option.trim()).filter(option => {
+    const key = slugify(option);
+    if (!option || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+/** Identifies a combination regardless of case, accents and spacing, e.g. "Azul " and "azul". */
+export const variationKey = (variation: ProductVariation): string =>
+  [variation.color, variation.size].map(option => slugify(option || '')).join('|');
+
+/**
+ * Every color × size combination. Combinations that already exist keep their stock,
+ * price and SKU; with only colors or only sizes the list is one-dimensional.
+ */
+export const buildVariationMatrix = (colors: string[], sizes: string[], existing: ProductVariation[]): ProductVariation[] => {
+  const byKey = new Map(existing.map(variation => [variationKey(variation), variation]));
+  const colorOptions: (string | undefined)[] = colors.length > 0 ? colors : [undefined];
+  const sizeOptions: (string | undefined)[] = sizes.length > 0 ? sizes : [undefined];
+  return colorOptions.flatMap(color => sizeOptions.map(size => {
+    const combination: ProductVariation = { color, size };
+    const current = byKey.get(variationKey(combination));
+    return current ? { ...current, color, size } : combination;
+  })).filter(variation => variation.color || variation.size);
+};
+
+/** Indexes of the variations that repeat an earlier combination. */
+export const findDuplicateVariations = (variations: ProductVariation[]): Set<number> => {
+  const seen = new Set<string>();
+  const duplicates = new Set<number>();
+  variations.forEach((variation, index) => {
+    if (!variation.color && !variation.size) return;
+    const key = variationKey(variation);
+    if (seen.has(key)) duplicates.add(index);
+    seen.add(key);
+  });
+  return duplicates;
+};
+
+const roundToCents = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Changes every price by `percent` (negative lowers it). Variations without a price of
+ * their own start from `basePrice`, so they all end up explicit.
+ */
+export const adjustVariationPrices = (variations: ProductVariation[], percent: number, basePrice: number): ProductVariation[] =>
+  variations.map(variation => ({ ...variation, price: roundToCents((variation.price ?? basePrice) * (1 + percent / 100)) }));
+
+/** Sets the price of every variation of each size listed; other sizes are left as they are. */
+export const applySizePrices = (variations: ProductVariation[], prices: Record<string, number>): ProductVariation[] =>
+  variations.map(variation => {
+    const price = variation.size ? prices[variation.size] : undefined;
+    return price === undefined ? variation : { ...variation, price };
+  });
@@ -4,6 +4,16 @@ export interface ProductVariation {
   size?: string;
   stock?: number;
   price?: number;
+  /** Built from the parent SKU by the variation matrix; exporters derive one when absent. */
+  sku?: string;
+  /** Replaces the listing unit cost for this variation when pricing it. */
+  unitCost?: number;
+  /**
+   * The refined product photo recolored to this variation's color, kept in the library
+   * images (`LibraryEntryImages.variationImages`) under this key. Variations of the same
+   * color share it.
+   */
+  imageId?: string;
 }
 
 export interface VideoScene {
@@ -16,6 +26,42 @@ export interface VideoScript {
   scenes: VideoScene[];
 }
 
+export type ListingLocale = 'pt-BR' | 'es' | 'en';
+
+/** The platform a listing is written for; 'generic' applies no platform-specific rules. */
+export type MarketplaceId = 'generic' | 'shopee' | 'mercadolivre' | 'shopify' | 'woocommerce';
+
+/** The copy fields generated with several alternatives to compare. */
+export type CopyVariantField = 'name' | 'description' | 'promotionalSlogan';
+
+/** Alternatives for each copy field; the first entry is the value originally placed in the field. */
+export type CopyVariants = Partial<Record<CopyVariantField, string[]>>;
+
+/**
+ * Which alternative ended up in a copy field. `sources` holds the indexes of the
+ * variants used, in order; more than one means sentences were merged.
+ */
+export interface VariantChoice {
+  sources: number[];
+  merged: boolean;
+  selectedAt: number;
+}
+
+export type VariantSelection = Partial<Record<CopyVariantField, VariantChoice>>;
+
+/** Size of the box the product ships in, in centimeters. */
+export interface PackageDimensions {
+  length: number;
+  width: number;
+  height: number;
+}
+
+/** What the seller pays per unit, entered by hand to price the listing. */
+export interface ProductCosts {
+  unitCost: number;
+  packagingCost: number;
+}
+
 export interface ProductContent {
   name: string;
   description: string;
@@ -27,7 +73,7 @@ export interface ProductContent {
   keywords: string[];
   variations: ProductVariation[];
   weight?: number; // in kg
-  dimensions?: string; // "L x W x H cm"
+  dimensions?: PackageDimensions;
   promotionalSlogan?: string;
   generatedImages?: string[];
   imageTextSuggestions?: string[];
@@ -43,6 +89,18 @@ export interface ProductContent {
   imageAltText?: string;
   socialMediaPost?: string;
   videoScript?: VideoScript;
+  copyVariants?: CopyVariants;
+  variantSelection?: VariantSelection;
+  /** The brand profile the listing was written with, reused when regenerating fields. */
+  brandProfileId?: string;
+  /** Language of the copy; absent means Portuguese (Brazil). */
+  locale?: ListingLocale;
+  /** ISO 4217 code of the prices; absent means BRL. */
+  currency?: string;
+  /** The marketplace whose rules the listing follows; absent means 'generic'. */
+  marketplace?: MarketplaceId;
+  /** Absent until the seller enters the costs in the pricing panel. */
+  costs?: ProductCosts;
 }
 
 /**
@@ -53,7 +111,7 @@ export type GeneratedProductImage = string | null;
 /**
  * Defines the AI services that can be configured in the admin panel.
  */
-export type SupportedAIService = 'gemini'; // Can be extended, e.g., 'gemini' | 'openai' | 'anthropic'
+export type SupportedAIService = 'gemini' | 'openai'; // 'openai' covers any OpenAI-compatible server.
 
 /**
  * Defines the structure for storing multiple API keys.
@@ -61,3 +119,124 @@ export type SupportedAIService = 'gemini'; // Can be extended, e.g., 'gemini' |
 export type ApiKeySet = {
   [key in SupportedAIService]?: string;
 };
+
+/**
+ * Connection details for an OpenAI-compatible server (OpenAI itself, or a self-hosted/local one).
+ */
+export interface OpenAICompatibleSettings {
+  baseUrl: string;
+  chatModel: string;
+  imageModel: string;
+}
+
+/**
+ * The offline demo provider. When enabled it replaces every configured provider.
+ */
+export interface MockProviderSettings {
+  enabled: boolean;
+  /** Artificial delay added to every call, in ms. */
+  latencyMs: number;
+  /** Share of calls that fail on purpose, from 0 to 1. */
+  failureRate: number;
+}
+
+/**
+ * Which provider handles each kind of generation, as configured in the admin panel.
+ */
+export interface AIProviderSettings {
+  contentProvider: SupportedAIService;
+  imageProvider: SupportedAIService;
+  openai: OpenAICompatibleSettings;
+  mock: MockProviderSettings;
+}
+
+/**
+ * The generation tasks whose model and parameters can be tuned in the admin panel.
+ */
+export type GenerationTask = 'content' | 'textToImage' | 'productRefinement' | 'mockups';
+
+/**
+ * Model and call parameters for one generation task.
+ */
+export interface TaskSettings {
+  /** Model per provider; an empty or missing entry uses the provider's default. */
+  models: Partial<Record<SupportedAIService, string>>;
+  temperature: number;
+  /** Extra attempts after the first one fails. */
+  retries: number;
+  /** Time limit for each attempt, in ms. */
+  timeoutMs: number;
+}
+
+export type TaskSettingsMap = Record<GenerationTask, TaskSettings>;
+
+/**
+ * The images attached to a listing, as data URLs.
+ */
+export interface ListingImages {
+  main: GeneratedProductImage;
+  mockups: string[];
+  /** Recolored product photos, by the `imageId` of the variations showing them. */
+  variations: Record<string, string>;
+}
+
+/**
+ * Where a field value came from: the model or a manual edit.
+ */
+export type RevisionSource = 'ai' | 'manual';
+
+export interface FieldRevision {
+  value: unknown;
+  source: RevisionSource;
+  timestamp: number;
+}
+
+/**
+ * Per-field log of revisions, oldest first. The first entry is usually the AI-generated value.
+ */
+export type FieldHistory = Partial<Record<keyof ProductContent, FieldRevision[]>>;
+
+/**
+ * A generation saved in the local product library.
+ */
+export interface LibraryEntry {
+  id: string;
+  createdAt: number;
+  updatedAt: number;
+  /** The keywords typed by the user when generating. */
+  keywords: string;
+  content: ProductContent;
+  fieldHistory?: FieldHistory;
+  /** Small JPEG data URL used in the library grid. */
+  thumbnail: string | null;
+}
+
+/**
+ * The heavy image data of a library entry, stored apart so listing the library stays cheap.
+ */
+export interface LibraryEntryImages {
+  id: string;
+  originalImage: Blob | null;
+  mainImage: GeneratedProductImage;
+  mockups: string[];
+  /** Recolored product photos, by the `imageId` of the variations showing them. */
+  variationImages?: Record<string, string>;
+}
+
+export type EmojiPolicy = 'none' | 'moderate' | 'free';
+
+/**
+ * A store's voice, applied to every piece of generated copy.
+ */
+export interface BrandProfile {
+  id: string;
+  name: string;
+  /** Free-form description of the tone, e.g. "jovem, irreverente, usa gírias". */
+  tone: string;
+  preferredTerms: string[];
+  avoidedTerms: string[];
+  emojiPolicy: EmojiPolicy;
+  targetAudience: string;
+  /** Fixed text (warranty, shipping...) appended verbatim to every description. */
+  boilerplate: string;
+}